@@ -1,6 +1,6 @@
 "use client"
 
-import Dashboard from "../pages/index"
+import Dashboard from "../components/Dashboard"
 
 export default function SyntheticV0PageForDeployment() {
   return <Dashboard />
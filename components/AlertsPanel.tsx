@@ -0,0 +1,171 @@
+"use client"
+
+import { useState } from "react"
+import { toast } from "react-toastify"
+import type { WebhookDelivery } from "../hooks/use-protocol-alerts"
+import {
+  defaultAlertThresholds,
+  sendAlertWebhook,
+  type Alert,
+  type AlertSettings,
+  type AlertThresholds,
+} from "../lib/alerts"
+
+interface AlertsPanelProps {
+  settings: AlertSettings
+  onSettingsChange: (settings: AlertSettings) => void
+  active: Alert[]
+  deliveries: WebhookDelivery[]
+  chainId: number
+}
+
+type NumericThreshold = Exclude<keyof AlertThresholds, "circuitBreaker">
+
+const thresholdFields: { key: NumericThreshold; label: string; unit: string }[] = [
+  { key: "deviationPercent", label: "Deviation from target", unit: "≥ %" },
+  { key: "stabilityBand", label: "Stability band", unit: "≥" },
+  { key: "minOracleConfidence", label: "Oracle confidence", unit: "< %" },
+  { key: "hoursSinceRebase", label: "Time since last rebase", unit: "≥ h" },
+]
+
+export default function AlertsPanel({ settings, onSettingsChange, active, deliveries, chainId }: AlertsPanelProps) {
+  const [webhookUrl, setWebhookUrl] = useState(settings.webhookUrl)
+  const [isSending, setIsSending] = useState(false)
+  const { thresholds } = settings
+
+  const updateThresholds = (updates: Partial<AlertThresholds>) =>
+    onSettingsChange({ ...settings, thresholds: { ...thresholds, ...updates } })
+
+  const sendTest = async () => {
+    setIsSending(true)
+    try {
+      await sendAlertWebhook(webhookUrl, {
+        type: "alert.raised",
+        alert: { kind: "deviation", severity: "warning", title: "Test alert", message: "Sent from the dashboard" },
+        chainId,
+        blockNumber: 0,
+        timestamp: Math.floor(Date.now() / 1000),
+      })
+      toast.success("Test notification delivered")
+    } catch (error: any) {
+      toast.error(`Test notification failed: ${error.message}`)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Alerts</h2>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h3 className="font-medium text-gray-900 mb-2">Active</h3>
+          {active.length === 0 ? (
+            <p className="text-sm text-gray-500">No thresholds crossed.</p>
+          ) : (
+            <ul className="space-y-2">
+              {active.map((alert) => (
+                <li
+                  key={alert.kind}
+                  className={`p-2 rounded border text-sm ${
+                    alert.severity === "critical" ? "bg-red-50 border-red-200" : "bg-yellow-50 border-yellow-200"
+                  }`}
+                >
+                  <div className="font-medium">{alert.title}</div>
+                  <div className="text-gray-600">{alert.message}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {deliveries.length > 0 && (
+            <div className="mt-4">
+              <h3 className="font-medium text-gray-900 mb-2">Webhook Deliveries</h3>
+              <table className="w-full text-sm text-left">
+                <tbody>
+                  {deliveries.map((delivery, i) => (
+                    <tr key={i} className="border-t">
+                      <td className="py-1 pr-4 font-mono">{delivery.type}</td>
+                      <td className="py-1 pr-4">{delivery.kind}</td>
+                      <td className="py-1 pr-4 text-gray-500">block {delivery.blockNumber}</td>
+                      <td className={`py-1 ${delivery.error ? "text-red-600" : "text-green-600"}`}>
+                        {delivery.error ?? "delivered"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2 text-sm">
+          <h3 className="font-medium text-gray-900">Thresholds</h3>
+          {thresholdFields.map(({ key, label, unit }) => (
+            <label key={key} className="flex justify-between items-center">
+              <span className="flex items-center space-x-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={thresholds[key] !== null}
+                  onChange={(e) =>
+                    updateThresholds({ [key]: e.target.checked ? defaultAlertThresholds[key] : null })
+                  }
+                />
+                <span>
+                  {label} ({unit})
+                </span>
+              </span>
+              <input
+                type="number"
+                step="any"
+                min={0}
+                value={thresholds[key] ?? ""}
+                disabled={thresholds[key] === null}
+                onChange={(e) => updateThresholds({ [key]: Number(e.target.value) })}
+                className="border rounded px-2 py-1 w-24 disabled:bg-gray-100"
+              />
+            </label>
+          ))}
+          <label className="flex items-center space-x-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={thresholds.circuitBreaker}
+              onChange={(e) => updateThresholds({ circuitBreaker: e.target.checked })}
+            />
+            <span>Circuit breaker trips</span>
+          </label>
+
+          <h3 className="font-medium text-gray-900 pt-2">Webhook</h3>
+          <input
+            type="url"
+            placeholder="https://example.com/hooks/ecash"
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            className="border rounded px-2 py-1 w-full font-mono"
+          />
+          <div className="flex space-x-2">
+            <button
+              onClick={() => onSettingsChange({ ...settings, webhookUrl: webhookUrl.trim() })}
+              disabled={webhookUrl.trim() === settings.webhookUrl}
+              className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              onClick={sendTest}
+              disabled={!webhookUrl || isSending}
+              className="bg-gray-600 text-white px-3 py-1 rounded hover:bg-gray-700 transition-colors disabled:opacity-50"
+            >
+              {isSending ? "Sending..." : "Send Test"}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Each raised or resolved alert is posted as JSON. The receiver must allow cross-origin requests from the
+            dashboard.
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,320 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { ethers } from "ethers"
+import { ToastContainer, toast } from "react-toastify"
+import { config, getContractsForNetwork, getNetworkInfo, isContractsDeployed } from "../lib/config"
+import { connectProtocolContracts, resolveProtocolAddresses, type ProtocolContracts } from "../lib/contracts"
+import type { DeployedAddresses } from "../lib/deployment"
+import { getTimeTravel } from "../lib/time-travel"
+import { useProtocolAlerts } from "../hooks/use-protocol-alerts"
+import { useProtocolState } from "../hooks/use-protocol-state"
+import { defaultAlertThresholds, type AlertSettings } from "../lib/alerts"
+import AlertsPanel from "./AlertsPanel"
+import DeploymentManager from "./DeploymentManager"
+import FeatureFlags, { DebugInfo } from "./FeatureFlags"
+import GovernancePanel from "./GovernancePanel"
+import NetworkStatus from "./NetworkStatus"
+import NetworkSwitcher from "./NetworkSwitcher"
+import OracleDiagnostics from "./OracleDiagnostics"
+import OracleManager from "./OracleManager"
+import PolicyParametersForm from "./PolicyParametersForm"
+import PolicyTuner from "./PolicyTuner"
+import PriceReplayPanel from "./PriceReplayPanel"
+import RealtimeMetrics from "./RealtimeMetrics"
+import RebaseHistoryExplorer from "./RebaseHistoryExplorer"
+import ScenarioRunner from "./ScenarioRunner"
+import SepoliaDeploymentGuide from "./SepoliaDeploymentGuide"
+import StressTestSuite from "./StressTestSuite"
+import TimeTravelControls from "./TimeTravelControls"
+import { Toaster } from "./ui/toaster"
+
+// Price simulation presets (8-decimal oracle answers)
+const pricePresets = [
+  { label: "$0.95 (-5%)", answer: 95000000 },
+  { label: "$1.00 (0%)", answer: 100000000 },
+  { label: "$1.05 (+5%)", answer: 105000000 },
+  { label: "$1.25 (+25%)", answer: 125000000 },
+]
+
+// Addresses come from a deployment manifest or env config, or from a deployment run in this session
+const getConfiguredAddresses = (chainId: number) => {
+  try {
+    return { addresses: isContractsDeployed(chainId) ? getContractsForNetwork(chainId) : null, error: null }
+  } catch (error: any) {
+    // e.g. an incomplete or invalid deployment manifest
+    return { addresses: null, error: error.message as string }
+  }
+}
+
+export default function Dashboard() {
+  const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null)
+  const [signer, setSigner] = useState<ethers.Signer | null>(null)
+  const [account, setAccount] = useState("")
+  const [chainId, setChainId] = useState<number>(config.chainId)
+  const [deployedAddresses, setDeployedAddresses] = useState<Record<string, string> | null>(null)
+  const [contracts, setContracts] = useState<ProtocolContracts | null>(null)
+  const [isConnecting, setIsConnecting] = useState(false)
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+
+  const connectWallet = useCallback(async () => {
+    if (!window.ethereum) {
+      toast.error("Please install MetaMask to use the dashboard")
+      return
+    }
+
+    setIsConnecting(true)
+    try {
+      const browserProvider = new ethers.BrowserProvider(window.ethereum)
+      await browserProvider.send("eth_requestAccounts", [])
+      const walletSigner = await browserProvider.getSigner()
+      const network = await browserProvider.getNetwork()
+
+      setProvider(browserProvider)
+      setSigner(walletSigner)
+      setAccount(await walletSigner.getAddress())
+      setChainId(Number(network.chainId))
+    } catch (error: any) {
+      toast.error(`Failed to connect wallet: ${error.shortMessage || error.message}`)
+    } finally {
+      setIsConnecting(false)
+    }
+  }, [])
+
+  // Reconnect when the user switches account or network in the wallet
+  useEffect(() => {
+    if (!window.ethereum?.on || !provider) return
+
+    const handleChange = () => {
+      setDeployedAddresses(null)
+      connectWallet()
+    }
+    window.ethereum.on("accountsChanged", handleChange)
+    window.ethereum.on("chainChanged", handleChange)
+    return () => {
+      window.ethereum?.removeListener?.("accountsChanged", handleChange)
+      window.ethereum?.removeListener?.("chainChanged", handleChange)
+    }
+  }, [provider, connectWallet])
+
+  const configured = useMemo(() => getConfiguredAddresses(chainId), [chainId])
+  const addresses = deployedAddresses ?? configured.addresses
+
+  useEffect(() => {
+    if (!signer || !addresses) {
+      setContracts(null)
+      return
+    }
+
+    let cancelled = false
+    resolveProtocolAddresses(addresses, signer)
+      .then((resolved) => {
+        if (!cancelled) setContracts(connectProtocolContracts(resolved, signer))
+      })
+      .catch((error) => {
+        console.error("Failed to connect protocol contracts:", error)
+        toast.error(`Failed to connect protocol contracts: ${error.message}`)
+        if (!cancelled) setContracts(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [signer, addresses])
+
+  const timeTravel = useMemo(() => getTimeTravel(provider, chainId), [provider, chainId])
+  const protocolState = useProtocolState(contracts, provider)
+  const { status: protocolStatus, refresh: refreshStatus } = protocolState
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>({
+    thresholds: defaultAlertThresholds,
+    webhookUrl: config.alerts.webhookUrl,
+  })
+  const alerts = useProtocolAlerts(protocolState, chainId, alertSettings)
+
+  const runAction = async (label: string, send: () => Promise<any>) => {
+    setPendingAction(label)
+    try {
+      const tx = await send()
+      await tx.wait()
+      toast.success(`${label} confirmed`)
+      await refreshStatus()
+    } catch (error: any) {
+      toast.error(`${label} failed: ${error.shortMessage || error.message}`)
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const handleDeploymentComplete = (deployed: DeployedAddresses) => {
+    setDeployedAddresses({ ...deployed })
+  }
+
+  const isDeployed = !!addresses
+  const networkInfo = getNetworkInfo(chainId)
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <ToastContainer position="top-right" autoClose={5000} />
+      <Toaster />
+
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 py-4 flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">E-Cash Protocol Dashboard</h1>
+            <p className="text-sm text-gray-600">Algorithmic stablecoin testing on {networkInfo.name}</p>
+          </div>
+          {account ? (
+            <div className="text-sm font-mono bg-gray-100 px-3 py-2 rounded-lg">
+              {account.slice(0, 6)}…{account.slice(-4)}
+            </div>
+          ) : (
+            <button
+              onClick={connectWallet}
+              disabled={isConnecting}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isConnecting ? "Connecting..." : "Connect Wallet"}
+            </button>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {!account ? (
+          <div className="bg-white rounded-lg shadow p-6 text-center text-gray-600">
+            Connect your wallet to monitor and test the protocol.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <NetworkStatus provider={provider} account={account} />
+              <FeatureFlags feature="multiNetwork">
+                <NetworkSwitcher provider={provider} currentChainId={chainId} onNetworkChanged={connectWallet} />
+              </FeatureFlags>
+            </div>
+
+            {!isDeployed && chainId === 11155111 && <SepoliaDeploymentGuide />}
+            {!isDeployed && (
+              <DeploymentManager
+                provider={provider}
+                signer={signer}
+                chainId={chainId}
+                addresses={addresses}
+                manifestError={configured.error}
+                onDeploymentComplete={handleDeploymentComplete}
+              />
+            )}
+
+            {isDeployed && !contracts && (
+              <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">Connecting contracts...</div>
+            )}
+
+            {contracts && (
+              <>
+                <div className="bg-white rounded-lg shadow p-6">
+                  <h2 className="text-xl font-semibold text-gray-900 mb-4">Price Simulation</h2>
+                  <div className="flex flex-wrap gap-2">
+                    {pricePresets.map((preset) => (
+                      <button
+                        key={preset.answer}
+                        onClick={() =>
+                          runAction(`Set price ${preset.label}`, () =>
+                            contracts.chainlinkOracle.updateAnswer(preset.answer),
+                          )
+                        }
+                        disabled={!!pendingAction}
+                        className="bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+                      >
+                        {preset.label}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => runAction("Rebase", () => contracts.stabilizationController.rebase())}
+                      disabled={!!pendingAction || !protocolStatus?.canRebase}
+                      className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      {pendingAction === "Rebase" ? "Rebasing..." : "Execute Rebase"}
+                    </button>
+                  </div>
+                </div>
+
+                {timeTravel && (
+                  <TimeTravelControls contracts={contracts} timeTravel={timeTravel} onStatusUpdate={refreshStatus} />
+                )}
+
+                <FeatureFlags feature="realTimeMonitoring">
+                  <RealtimeMetrics protocolStatus={protocolStatus} history={protocolState.history} />
+                </FeatureFlags>
+
+                <FeatureFlags feature="realTimeMonitoring">
+                  <OracleDiagnostics contracts={contracts} blockNumber={protocolState.blockNumber} />
+                </FeatureFlags>
+
+                <OracleManager
+                  contracts={contracts}
+                  account={account}
+                  blockNumber={protocolState.blockNumber}
+                  onStatusUpdate={refreshStatus}
+                />
+
+                <FeatureFlags feature="realTimeMonitoring">
+                  <AlertsPanel
+                    settings={alertSettings}
+                    onSettingsChange={setAlertSettings}
+                    active={alerts.active}
+                    deliveries={alerts.deliveries}
+                    chainId={chainId}
+                  />
+                </FeatureFlags>
+
+                <FeatureFlags feature="realTimeMonitoring">
+                  <RebaseHistoryExplorer contracts={contracts} rebaseCount={protocolStatus?.rebaseCount} />
+                </FeatureFlags>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <FeatureFlags feature="stressTesting">
+                    <StressTestSuite contracts={contracts} timeTravel={timeTravel} onStatusUpdate={refreshStatus} />
+                  </FeatureFlags>
+                  <FeatureFlags feature="scenarioTesting">
+                    <ScenarioRunner contracts={contracts} timeTravel={timeTravel} onStatusUpdate={refreshStatus} />
+                  </FeatureFlags>
+                </div>
+
+                <FeatureFlags feature="scenarioTesting">
+                  <PolicyTuner contracts={contracts} />
+                </FeatureFlags>
+
+                <FeatureFlags feature="scenarioTesting">
+                  <PriceReplayPanel contracts={contracts} timeTravel={timeTravel} onStatusUpdate={refreshStatus} />
+                </FeatureFlags>
+
+                <PolicyParametersForm contracts={contracts} account={account} onStatusUpdate={refreshStatus} />
+
+                {contracts.governance && contracts.governanceToken && (
+                  <GovernancePanel
+                    contracts={contracts}
+                    governance={contracts.governance}
+                    governanceToken={contracts.governanceToken}
+                    account={account}
+                    onStatusUpdate={refreshStatus}
+                  />
+                )}
+              </>
+            )}
+
+            <DebugInfo
+              data={{
+                chainId,
+                account,
+                addresses,
+                protocolStatus,
+                blockNumber: protocolState.blockNumber,
+                updateMode: protocolState.mode,
+                recentEvents: protocolState.events,
+              }}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -3,12 +3,18 @@
 import { useState } from "react"
 import { ethers } from "ethers"
 import { toast } from "react-toastify"
-import { config, isContractsDeployed } from "../lib/config"
+import { getNetworkInfo } from "../lib/config"
+import { deployProtocol, deploymentStepNames, type DeployedAddresses } from "../lib/deployment"
 
 interface DeploymentManagerProps {
   provider: ethers.BrowserProvider | null
   signer: ethers.Signer | null
-  onDeploymentComplete: (addresses: any) => void
+  chainId: number // connected chain
+  // Resolved by the dashboard for the connected chain; null when nothing is deployed there
+  addresses: Record<string, string> | null
+  // Why the deployment manifest for the connected chain could not be used, if it is broken
+  manifestError: string | null
+  onDeploymentComplete: (addresses: DeployedAddresses) => void
 }
 
 interface DeploymentStep {
@@ -17,18 +23,21 @@ interface DeploymentStep {
   address?: string
   txHash?: string
   gasUsed?: string
+  implementation?: string
   error?: string
 }
 
-export default function DeploymentManager({ provider, signer, onDeploymentComplete }: DeploymentManagerProps) {
-  const [deploymentSteps, setDeploymentSteps] = useState<DeploymentStep[]>([
-    { name: "MockChainlinkOracle", status: "pending" },
-    { name: "ECashToken", status: "pending" },
-    { name: "OracleAggregator", status: "pending" },
-    { name: "Treasury", status: "pending" },
-    { name: "StabilizationController", status: "pending" },
-    { name: "TestHelper", status: "pending" },
-  ])
+export default function DeploymentManager({
+  provider,
+  signer,
+  chainId,
+  addresses,
+  manifestError,
+  onDeploymentComplete,
+}: DeploymentManagerProps) {
+  const [deploymentSteps, setDeploymentSteps] = useState<DeploymentStep[]>(
+    deploymentStepNames.map((name) => ({ name, status: "pending" })),
+  )
   const [isDeploying, setIsDeploying] = useState(false)
   const [deploymentProgress, setDeploymentProgress] = useState(0)
 
@@ -44,103 +53,36 @@ export default function DeploymentManager({ provider, signer, onDeploymentComple
 
     setIsDeploying(true)
     setDeploymentProgress(0)
+    resetDeployment()
 
-    try {
-      const deployedAddresses: any = {}
-
-      // Step 1: Deploy MockChainlinkOracle
-      updateStep(0, { status: "deploying" })
-      const mockOracleFactory = new ethers.ContractFactory(
-        ["constructor(uint8 _decimals, string memory _description)"],
-        "0x", // Bytecode would be here in real deployment
-        signer,
-      )
-
-      // Mock deployment simulation
-      await new Promise((resolve) => setTimeout(resolve, 2000))
-      const mockOracleAddress = "0x" + "1".repeat(40)
-      deployedAddresses.chainlinkOracle = mockOracleAddress
-      updateStep(0, {
-        status: "completed",
-        address: mockOracleAddress,
-        txHash: "0x" + "a".repeat(64),
-        gasUsed: "1,234,567",
-      })
-      setDeploymentProgress(16.67)
-
-      // Step 2: Deploy ECashToken
-      updateStep(1, { status: "deploying" })
-      await new Promise((resolve) => setTimeout(resolve, 2000))
-      const ecashTokenAddress = "0x" + "2".repeat(40)
-      deployedAddresses.ecashToken = ecashTokenAddress
-      updateStep(1, {
-        status: "completed",
-        address: ecashTokenAddress,
-        txHash: "0x" + "b".repeat(64),
-        gasUsed: "2,345,678",
-      })
-      setDeploymentProgress(33.33)
+    let currentStepIndex = -1
 
-      // Step 3: Deploy OracleAggregator
-      updateStep(2, { status: "deploying" })
-      await new Promise((resolve) => setTimeout(resolve, 2000))
-      const oracleAggregatorAddress = "0x" + "3".repeat(40)
-      deployedAddresses.oracleAggregator = oracleAggregatorAddress
-      updateStep(2, {
-        status: "completed",
-        address: oracleAggregatorAddress,
-        txHash: "0x" + "c".repeat(64),
-        gasUsed: "1,876,543",
-      })
-      setDeploymentProgress(50)
-
-      // Step 4: Deploy Treasury
-      updateStep(3, { status: "deploying" })
-      await new Promise((resolve) => setTimeout(resolve, 2000))
-      const treasuryAddress = "0x" + "4".repeat(40)
-      deployedAddresses.treasury = treasuryAddress
-      updateStep(3, {
-        status: "completed",
-        address: treasuryAddress,
-        txHash: "0x" + "d".repeat(64),
-        gasUsed: "1,654,321",
-      })
-      setDeploymentProgress(66.67)
-
-      // Step 5: Deploy StabilizationController
-      updateStep(4, { status: "deploying" })
-      await new Promise((resolve) => setTimeout(resolve, 2000))
-      const stabilizationControllerAddress = "0x" + "5".repeat(40)
-      deployedAddresses.stabilizationController = stabilizationControllerAddress
-      updateStep(4, {
-        status: "completed",
-        address: stabilizationControllerAddress,
-        txHash: "0x" + "e".repeat(64),
-        gasUsed: "2,987,654",
-      })
-      setDeploymentProgress(83.33)
-
-      // Step 6: Deploy TestHelper
-      updateStep(5, { status: "deploying" })
-      await new Promise((resolve) => setTimeout(resolve, 2000))
-      const testHelperAddress = "0x" + "6".repeat(40)
-      deployedAddresses.testHelper = testHelperAddress
-      updateStep(5, {
-        status: "completed",
-        address: testHelperAddress,
-        txHash: "0x" + "f".repeat(64),
-        gasUsed: "1,543,210",
+    try {
+      const { addresses } = await deployProtocol(signer, {
+        onStepStart: (index) => {
+          currentStepIndex = index
+          updateStep(index, { status: "deploying" })
+        },
+        onStepComplete: (index, _name, result) => {
+          updateStep(index, {
+            status: "completed",
+            address: result.address,
+            txHash: result.txHash,
+            gasUsed: result.gasUsed.toLocaleString(),
+            implementation: result.implementation,
+          })
+          setDeploymentProgress(((index + 1) / deploymentStepNames.length) * 100)
+        },
       })
-      setDeploymentProgress(100)
 
       toast.success("All contracts deployed successfully!")
-      onDeploymentComplete(deployedAddresses)
+      onDeploymentComplete(addresses)
     } catch (error: any) {
-      toast.error(`Deployment failed: ${error.message}`)
+      const message = error.shortMessage || error.message
+      toast.error(`Deployment failed: ${message}`)
       // Mark current step as failed
-      const currentStepIndex = deploymentSteps.findIndex((step) => step.status === "deploying")
       if (currentStepIndex !== -1) {
-        updateStep(currentStepIndex, { status: "failed", error: error.message })
+        updateStep(currentStepIndex, { status: "failed", error: message })
       }
     } finally {
       setIsDeploying(false)
@@ -155,6 +97,7 @@ export default function DeploymentManager({ provider, signer, onDeploymentComple
         address: undefined,
         txHash: undefined,
         gasUsed: undefined,
+        implementation: undefined,
         error: undefined,
       })),
     )
@@ -194,7 +137,9 @@ export default function DeploymentManager({ provider, signer, onDeploymentComple
     }
   }
 
-  if (isContractsDeployed()) {
+  const network = getNetworkInfo(chainId)
+
+  if (addresses) {
     return (
       <div className="bg-green-50 border border-green-200 rounded-lg p-6">
         <div className="flex items-center space-x-3 mb-4">
@@ -214,7 +159,7 @@ export default function DeploymentManager({ provider, signer, onDeploymentComple
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {Object.entries(config.contracts).map(([name, address]) => (
+          {Object.entries(addresses).map(([name, address]) => (
             <div key={name} className="bg-white p-3 rounded border">
               <div className="font-medium text-gray-900 capitalize">{name.replace(/([A-Z])/g, " $1").trim()}</div>
               <div className="text-sm text-gray-600 font-mono break-all">{address}</div>
@@ -227,6 +172,12 @@ export default function DeploymentManager({ provider, signer, onDeploymentComple
 
   return (
     <div className="bg-white rounded-lg shadow p-6">
+      {manifestError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-sm text-red-800 whitespace-pre-wrap">
+          {manifestError}
+        </div>
+      )}
+
       <div className="flex justify-between items-center mb-6">
         <div>
           <h2 className="text-xl font-semibold text-gray-900">Contract Deployment</h2>
@@ -277,6 +228,9 @@ export default function DeploymentManager({ provider, signer, onDeploymentComple
                 <div>
                   <h3 className="font-medium text-gray-900">{step.name}</h3>
                   {step.address && <p className="text-sm text-gray-600 font-mono">{step.address}</p>}
+                  {step.implementation && (
+                    <p className="text-xs text-gray-500 font-mono">Implementation: {step.implementation}</p>
+                  )}
                   {step.txHash && (
                     <p className="text-xs text-gray-500">
                       Tx: {step.txHash.slice(0, 10)}...{step.txHash.slice(-8)}
@@ -303,14 +257,13 @@ export default function DeploymentManager({ provider, signer, onDeploymentComple
         <h3 className="font-medium text-gray-900 mb-2">Deployment Information</h3>
         <div className="text-sm text-gray-600 space-y-1">
           <p>
-            <strong>Network:</strong>{" "}
-            {config.networks[config.chainId as keyof typeof config.networks]?.name || "Unknown"}
+            <strong>Network:</strong> {network.name}
           </p>
           <p>
-            <strong>Chain ID:</strong> {config.chainId}
+            <strong>Chain ID:</strong> {chainId}
           </p>
           <p>
-            <strong>RPC URL:</strong> {config.rpcUrl}
+            <strong>RPC URL:</strong> {network.rpcUrl || "Unknown"}
           </p>
           <p>
             <strong>Gas Reporting:</strong> {process.env.REPORT_GAS === "true" ? "Enabled" : "Disabled"}
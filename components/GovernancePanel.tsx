@@ -0,0 +1,352 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { ethers } from "ethers"
+import { toast } from "react-toastify"
+import { config } from "../lib/config"
+import type { ProtocolContracts } from "../lib/contracts"
+import { proposalStates, voteSupport, type ProposalState } from "../lib/governance"
+
+interface GovernancePanelProps {
+  contracts: ProtocolContracts
+  governance: NonNullable<ProtocolContracts["governance"]>
+  governanceToken: NonNullable<ProtocolContracts["governanceToken"]>
+  account: string
+  onStatusUpdate: () => void
+}
+
+interface Proposal {
+  id: bigint
+  proposer: string
+  description: string
+  targets: string[]
+  values: bigint[]
+  calldatas: string[]
+  state: ProposalState
+  forVotes: bigint
+  againstVotes: bigint
+  abstainVotes: bigint
+  voteEnd: bigint
+  eta: bigint
+  hasVoted: boolean
+}
+
+interface ProposalAction {
+  label: string
+  contract: "stabilizationController" | "oracleAggregator"
+  method: string
+  fields: { name: string; placeholder: string }[]
+}
+
+// Administrative calls the timelock is allowed to make
+const proposalActions: Record<string, ProposalAction> = {
+  resetCircuitBreaker: {
+    label: "Reset circuit breaker",
+    contract: "stabilizationController",
+    method: "resetCircuitBreaker",
+    fields: [],
+  },
+  updateOracle: {
+    label: "Update oracle weight and heartbeat",
+    contract: "oracleAggregator",
+    method: "updateOracle",
+    fields: [
+      { name: "key", placeholder: "chainlink-eth-usd" },
+      { name: "weight", placeholder: "100" },
+      { name: "heartbeat", placeholder: "3600 (seconds)" },
+    ],
+  },
+  emergencyPause: { label: "Pause stabilization", contract: "stabilizationController", method: "emergencyPause", fields: [] },
+  emergencyUnpause: {
+    label: "Unpause stabilization",
+    contract: "stabilizationController",
+    method: "emergencyUnpause",
+    fields: [],
+  },
+}
+
+const stateStyles: Record<ProposalState, string> = {
+  Pending: "bg-gray-100 text-gray-800",
+  Active: "bg-blue-100 text-blue-800",
+  Canceled: "bg-gray-100 text-gray-500",
+  Defeated: "bg-red-100 text-red-800",
+  Succeeded: "bg-green-100 text-green-800",
+  Queued: "bg-yellow-100 text-yellow-800",
+  Expired: "bg-gray-100 text-gray-500",
+  Executed: "bg-purple-100 text-purple-800",
+}
+
+export default function GovernancePanel({
+  contracts,
+  governance,
+  governanceToken,
+  account,
+  onStatusUpdate,
+}: GovernancePanelProps) {
+  const [proposals, setProposals] = useState<Proposal[]>([])
+  const [votingPower, setVotingPower] = useState<bigint>(BigInt(0))
+  const [delegatee, setDelegatee] = useState<string>(ethers.ZeroAddress)
+  const [latestBlock, setLatestBlock] = useState<{ number: number; timestamp: number } | null>(null)
+  const [actionKey, setActionKey] = useState<keyof typeof proposalActions>("resetCircuitBreaker")
+  const [actionArgs, setActionArgs] = useState<Record<string, string>>({})
+  const [description, setDescription] = useState("")
+  const [pendingTx, setPendingTx] = useState<string | null>(null)
+
+  const loadProposals = useCallback(async () => {
+    try {
+      const events = await governance.queryFilter(governance.filters.ProposalCreated())
+      const loaded: Proposal[] = await Promise.all(
+        events.map(async (event) => {
+          const { proposalId, proposer, targets, calldatas, voteEnd, description } = event.args
+          const [state, votes, eta, hasVoted] = await Promise.all([
+            governance.state(proposalId),
+            governance.proposalVotes(proposalId),
+            governance.proposalEta(proposalId),
+            account ? governance.hasVoted(proposalId, account) : false,
+          ])
+
+          return {
+            id: proposalId,
+            proposer,
+            description,
+            targets: [...targets],
+            values: [...event.args[3]], // `values` clashes with Result.values()
+            calldatas: [...calldatas],
+            state: proposalStates[Number(state)],
+            againstVotes: votes[0],
+            forVotes: votes[1],
+            abstainVotes: votes[2],
+            voteEnd,
+            eta,
+            hasVoted,
+          }
+        }),
+      )
+      setProposals(loaded.reverse())
+
+      if (account) {
+        setVotingPower(await governanceToken.getVotes(account))
+        setDelegatee(await governanceToken.delegates(account))
+      }
+
+      const block = await governance.runner?.provider?.getBlock("latest")
+      if (block) setLatestBlock({ number: block.number, timestamp: block.timestamp })
+    } catch (error) {
+      console.error("Failed to load proposals:", error)
+    }
+  }, [governance, governanceToken, account])
+
+  useEffect(() => {
+    loadProposals()
+    const interval = setInterval(loadProposals, config.dashboard.refreshInterval)
+    return () => clearInterval(interval)
+  }, [loadProposals])
+
+  const sendTransaction = async (label: string, send: () => Promise<any>) => {
+    setPendingTx(label)
+    try {
+      const tx = await send()
+      toast.info(`${label} submitted`)
+      await tx.wait()
+      toast.success(`${label} confirmed`)
+      await loadProposals()
+      onStatusUpdate()
+    } catch (error: any) {
+      toast.error(`${label} failed: ${error.shortMessage || error.message}`)
+    } finally {
+      setPendingTx(null)
+    }
+  }
+
+  const createProposal = async () => {
+    const action = proposalActions[actionKey]
+    const target = contracts[action.contract]
+    if (!description.trim()) {
+      toast.error("Please describe the proposal")
+      return
+    }
+
+    let calldata: string
+    try {
+      const targetInterface: ethers.Interface = target.interface
+      calldata = targetInterface.encodeFunctionData(
+        action.method,
+        action.fields.map((field) => actionArgs[field.name] ?? ""),
+      )
+    } catch (error: any) {
+      toast.error(`Invalid arguments: ${error.shortMessage || error.message}`)
+      return
+    }
+
+    await sendTransaction("Proposal", async () =>
+      governance.propose([await target.getAddress()], [0], [calldata], description.trim()),
+    )
+    setDescription("")
+  }
+
+  const descriptionHash = (proposal: Proposal) => ethers.id(proposal.description)
+
+  const formatVotes = (votes: bigint) => Number(ethers.formatEther(votes)).toLocaleString()
+
+  const action = proposalActions[actionKey]
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">Governance</h2>
+        <div className="text-sm text-gray-600">
+          Voting power: <span className="font-medium text-gray-900">{formatVotes(votingPower)} ECG</span>
+          {account && delegatee.toLowerCase() !== account.toLowerCase() && (
+            <button
+              onClick={() => sendTransaction("Delegation", () => governanceToken.delegate(account))}
+              disabled={!!pendingTx}
+              className="ml-3 bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Delegate to self
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="border rounded-lg p-4 mb-6">
+        <h3 className="font-medium text-gray-900 mb-3">New Proposal</h3>
+        <div className="space-y-3">
+          <select
+            value={actionKey}
+            onChange={(e) => {
+              setActionKey(e.target.value)
+              setActionArgs({})
+            }}
+            className="w-full border rounded-lg px-3 py-2 text-sm"
+          >
+            {Object.entries(proposalActions).map(([key, { label }]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+
+          {action.fields.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {action.fields.map((field) => (
+                <input
+                  key={field.name}
+                  value={actionArgs[field.name] ?? ""}
+                  onChange={(e) => setActionArgs((prev) => ({ ...prev, [field.name]: e.target.value }))}
+                  placeholder={`${field.name}: ${field.placeholder}`}
+                  className="border rounded-lg px-3 py-2 text-sm"
+                />
+              ))}
+            </div>
+          )}
+
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description"
+            rows={2}
+            className="w-full border rounded-lg px-3 py-2 text-sm"
+          />
+
+          <button
+            onClick={createProposal}
+            disabled={!!pendingTx}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {pendingTx === "Proposal" ? "Submitting..." : "Create Proposal"}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {proposals.length === 0 && <p className="text-sm text-gray-600">No proposals yet.</p>}
+        {proposals.map((proposal) => {
+          const id = proposal.id.toString()
+          const canExecute =
+            proposal.state === "Queued" && !!latestBlock && BigInt(latestBlock.timestamp) >= proposal.eta
+
+          return (
+            <div key={id} className="border rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="font-medium text-gray-900">{proposal.description}</h3>
+                  <p className="text-xs text-gray-500 font-mono">
+                    #{id.slice(0, 10)}… by {proposal.proposer.slice(0, 10)}…
+                  </p>
+                </div>
+                <span className={`px-2 py-1 rounded text-xs ${stateStyles[proposal.state]}`}>{proposal.state}</span>
+              </div>
+
+              <div className="mt-2 text-sm text-gray-600">
+                For: {formatVotes(proposal.forVotes)} | Against: {formatVotes(proposal.againstVotes)} | Abstain:{" "}
+                {formatVotes(proposal.abstainVotes)}
+                {proposal.state === "Active" && latestBlock && (
+                  <span> | Voting ends in {Math.max(Number(proposal.voteEnd) - latestBlock.number, 0)} blocks</span>
+                )}
+                {proposal.state === "Queued" && (
+                  <span> | Executable after {new Date(Number(proposal.eta) * 1000).toLocaleString()}</span>
+                )}
+              </div>
+
+              <div className="mt-3 flex space-x-2">
+                {proposal.state === "Active" &&
+                  !proposal.hasVoted &&
+                  (Object.keys(voteSupport) as (keyof typeof voteSupport)[]).map((support) => (
+                    <button
+                      key={support}
+                      onClick={() =>
+                        sendTransaction("Vote", () => governance.castVote(proposal.id, voteSupport[support]))
+                      }
+                      disabled={!!pendingTx}
+                      className="bg-gray-600 text-white px-3 py-1 rounded text-sm hover:bg-gray-700 transition-colors disabled:opacity-50 capitalize"
+                    >
+                      {support}
+                    </button>
+                  ))}
+                {proposal.state === "Active" && proposal.hasVoted && (
+                  <span className="text-sm text-gray-600">You have voted</span>
+                )}
+                {proposal.state === "Succeeded" && (
+                  <button
+                    onClick={() =>
+                      sendTransaction("Queue", () =>
+                        governance.queue(
+                          proposal.targets,
+                          proposal.values,
+                          proposal.calldatas,
+                          descriptionHash(proposal),
+                        ),
+                      )
+                    }
+                    disabled={!!pendingTx}
+                    className="bg-yellow-600 text-white px-3 py-1 rounded text-sm hover:bg-yellow-700 transition-colors disabled:opacity-50"
+                  >
+                    Queue
+                  </button>
+                )}
+                {proposal.state === "Queued" && (
+                  <button
+                    onClick={() =>
+                      sendTransaction("Execute", () =>
+                        governance.execute(
+                          proposal.targets,
+                          proposal.values,
+                          proposal.calldatas,
+                          descriptionHash(proposal),
+                        ),
+                      )
+                    }
+                    disabled={!!pendingTx || !canExecute}
+                    className="bg-green-600 text-white px-3 py-1 rounded text-sm hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    Execute
+                  </button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
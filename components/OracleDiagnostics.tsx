@@ -0,0 +1,145 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { ethers } from "ethers"
+import type { ProtocolContracts } from "../lib/contracts"
+import {
+  aggregationModes,
+  fetchAggregationReport,
+  fetchSourceDiagnostics,
+  type AggregationReport,
+  type SourceDiagnostics,
+} from "../lib/oracle-aggregation"
+
+interface OracleDiagnosticsProps {
+  contracts: ProtocolContracts
+  // Latest block seen by the protocol store; the sources are read again whenever it moves
+  blockNumber: number
+}
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 120) return `${seconds}s`
+  if (seconds < 7200) return `${Math.floor(seconds / 60)}m`
+  return `${(seconds / 3600).toFixed(1)}h`
+}
+
+export default function OracleDiagnostics({ contracts, blockNumber }: OracleDiagnosticsProps) {
+  const [sources, setSources] = useState<SourceDiagnostics[]>([])
+  // Null while the aggregator has no valid price to report
+  const [report, setReport] = useState<AggregationReport | null>(null)
+  const [mode, setMode] = useState<string>("")
+  const [outlierThreshold, setOutlierThreshold] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadDiagnostics = useCallback(async () => {
+    const aggregator = contracts.oracleAggregator
+    try {
+      const [diagnostics, aggregationMode, threshold] = await Promise.all([
+        fetchSourceDiagnostics(aggregator),
+        aggregator.aggregationMode(),
+        aggregator.outlierThreshold(),
+      ])
+      setSources(diagnostics)
+      setMode(aggregationModes[Number(aggregationMode)])
+      setOutlierThreshold(Number(ethers.formatEther(threshold)) * 100)
+      setReport(await fetchAggregationReport(aggregator).catch(() => null))
+      setError(null)
+    } catch (error: any) {
+      console.error("Failed to load oracle diagnostics:", error)
+      setError(error.shortMessage || error.message)
+    }
+  }, [contracts])
+
+  useEffect(() => {
+    loadDiagnostics()
+  }, [loadDiagnostics, blockNumber])
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">Oracle Sources</h2>
+        <span className="text-sm text-gray-600">
+          {mode}
+          {outlierThreshold !== null && `, outliers beyond ${outlierThreshold.toFixed(1)}%`}
+        </span>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-800">{error}</div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <div className="text-sm text-gray-600">Aggregated Price</div>
+          <div className="text-2xl font-bold text-gray-900">
+            {report ? `$${Number.parseFloat(report.price).toFixed(4)}` : "No valid data"}
+          </div>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <div className="text-sm text-gray-600">Confidence</div>
+          <div
+            className={`text-2xl font-bold ${
+              (report?.confidence ?? 0) >= 80
+                ? "text-green-600"
+                : (report?.confidence ?? 0) >= 50
+                  ? "text-yellow-600"
+                  : "text-red-600"
+            }`}
+          >
+            {report?.confidence ?? 0}%
+          </div>
+        </div>
+      </div>
+
+      {sources.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No oracle sources registered.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Source</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Answer</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Price</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Weight</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Age / Heartbeat</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {sources.map((source) => (
+                <tr key={source.key}>
+                  <td className="px-3 py-2">
+                    <div className="font-medium">{source.key}</div>
+                    <div className="font-mono text-xs text-gray-500">{source.oracle}</div>
+                  </td>
+                  <td className="px-3 py-2 font-mono">{source.updatedAt ? source.answer : "—"}</td>
+                  <td className="px-3 py-2">
+                    {source.price !== "0.0" ? `$${Number.parseFloat(source.price).toFixed(4)}` : "—"}
+                  </td>
+                  <td className="px-3 py-2">{source.weight}</td>
+                  <td className={`px-3 py-2 ${source.age > source.heartbeat ? "text-red-600" : ""}`}>
+                    {source.updatedAt ? formatDuration(source.age) : "never"} / {formatDuration(source.heartbeat)}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span
+                      className={`px-2 py-1 rounded text-xs ${
+                        source.included
+                          ? "bg-green-100 text-green-800"
+                          : source.reason === "Trimmed"
+                            ? "bg-gray-100 text-gray-800"
+                            : "bg-red-100 text-red-800"
+                      }`}
+                    >
+                      {source.reason}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,298 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { toast } from "react-toastify"
+import type { ProtocolContracts } from "../lib/contracts"
+import {
+  fetchOracleSources,
+  fetchSourceDiagnostics,
+  validateOracleSource,
+  type ExclusionReason,
+  type OracleSource,
+} from "../lib/oracle-aggregation"
+import { MockChainlinkOracle__factory } from "../typechain-types"
+
+interface OracleManagerProps {
+  contracts: ProtocolContracts
+  account: string
+  // Latest block seen by the protocol store; the sources are read again whenever it moves
+  blockNumber: number
+  onStatusUpdate: () => void
+}
+
+type SourceDraft = Omit<OracleSource, "isActive">
+
+const emptyDraft: SourceDraft = { key: "", oracle: "", weight: 100, heartbeat: 3600, decimals: 8, description: "" }
+
+export default function OracleManager({ contracts, account, blockNumber, onStatusUpdate }: OracleManagerProps) {
+  const aggregator = contracts.oracleAggregator
+  const [sources, setSources] = useState<OracleSource[]>([])
+  const [reasons, setReasons] = useState<Record<string, ExclusionReason>>({})
+  const [isManager, setIsManager] = useState(false)
+  // Unsaved weight and heartbeat edits by key
+  const [edits, setEdits] = useState<Record<string, { weight: number; heartbeat: number }>>({})
+  const [draft, setDraft] = useState<SourceDraft>(emptyDraft)
+  const [pendingTx, setPendingTx] = useState<string | null>(null)
+
+  const loadSources = useCallback(async () => {
+    try {
+      const [registered, diagnostics] = await Promise.all([
+        fetchOracleSources(aggregator),
+        fetchSourceDiagnostics(aggregator),
+      ])
+      setSources(registered)
+      setReasons(Object.fromEntries(diagnostics.map((source) => [source.key, source.reason])))
+      setIsManager(account ? await aggregator.hasRole(await aggregator.ORACLE_MANAGER_ROLE(), account) : false)
+    } catch (error) {
+      console.error("Failed to load oracle sources:", error)
+    }
+  }, [aggregator, account])
+
+  useEffect(() => {
+    loadSources()
+  }, [loadSources, blockNumber])
+
+  const draftErrors = useMemo(() => validateOracleSource(draft, sources.map((source) => source.key)), [draft, sources])
+
+  const sendTransaction = async (label: string, send: () => Promise<any>) => {
+    setPendingTx(label)
+    try {
+      const tx = await send()
+      toast.info(`${label} submitted`)
+      await tx.wait()
+      toast.success(`${label} confirmed`)
+      await loadSources()
+      onStatusUpdate()
+      return true
+    } catch (error: any) {
+      toast.error(`${label} failed: ${error.reason || error.shortMessage || error.message}`)
+      return false
+    } finally {
+      setPendingTx(null)
+    }
+  }
+
+  const readFeed = async () => {
+    try {
+      const feed = MockChainlinkOracle__factory.connect(draft.oracle, aggregator.runner)
+      const [decimals, description] = await Promise.all([feed.decimals(), feed.description()])
+      setDraft((previous) => ({ ...previous, decimals: Number(decimals), description }))
+    } catch (error: any) {
+      toast.error(`Could not read the feed: ${error.shortMessage || error.message}`)
+    }
+  }
+
+  const addSource = async () => {
+    const { key, oracle, weight, heartbeat, decimals, description } = draft
+    const added = await sendTransaction(`Add ${key}`, () =>
+      aggregator.addOracle(key, oracle, weight, heartbeat, decimals, description),
+    )
+    if (added) setDraft(emptyDraft)
+  }
+
+  const saveSource = async (source: OracleSource) => {
+    const edit = edits[source.key]
+    const saved = await sendTransaction(`Update ${source.key}`, () =>
+      aggregator.updateOracle(source.key, edit.weight, edit.heartbeat),
+    )
+    if (saved) {
+      setEdits((previous) => Object.fromEntries(Object.entries(previous).filter(([key]) => key !== source.key)))
+    }
+  }
+
+  const editSource = (source: OracleSource, field: "weight" | "heartbeat", value: number) =>
+    setEdits((previous) => {
+      const edit = previous[source.key] ?? { weight: source.weight, heartbeat: source.heartbeat }
+      return { ...previous, [source.key]: { ...edit, [field]: value } }
+    })
+
+  const numberInput = (value: number, onChange: (value: number) => void, changed = false) => (
+    <input
+      type="number"
+      min={0}
+      value={Number.isNaN(value) ? "" : value}
+      onChange={(e) => onChange(e.target.value === "" ? Number.NaN : Number(e.target.value))}
+      disabled={!isManager}
+      className={`border rounded px-2 py-1 text-sm w-24 ${changed ? "border-blue-500 bg-blue-50" : ""}`}
+    />
+  )
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Oracle Management</h2>
+
+      {sources.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No oracle sources registered.</div>
+      ) : (
+        <div className="overflow-x-auto mb-4">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Source</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Weight</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Heartbeat (s)</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Status</th>
+                {isManager && <th className="px-3 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {sources.map((source) => {
+                const edit = edits[source.key]
+                const editErrors = edit ? validateOracleSource({ ...source, ...edit }) : []
+                const reason = reasons[source.key]
+                return (
+                  <tr key={source.key}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium">{source.key}</div>
+                      <div className="text-xs text-gray-500">
+                        {source.description} · {source.decimals} decimals
+                      </div>
+                      <div className="font-mono text-xs text-gray-500">{source.oracle}</div>
+                    </td>
+                    <td className="px-3 py-2">
+                      {numberInput(
+                        edit?.weight ?? source.weight,
+                        (value) => editSource(source, "weight", value),
+                        !!edit && edit.weight !== source.weight,
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {numberInput(
+                        edit?.heartbeat ?? source.heartbeat,
+                        (value) => editSource(source, "heartbeat", value),
+                        !!edit && edit.heartbeat !== source.heartbeat,
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`px-2 py-1 rounded text-xs ${
+                          !source.isActive
+                            ? "bg-gray-100 text-gray-800"
+                            : reason === "Included"
+                              ? "bg-green-100 text-green-800"
+                              : "bg-yellow-100 text-yellow-800"
+                        }`}
+                      >
+                        {source.isActive ? `Active · ${reason ?? "…"}` : "Deactivated"}
+                      </span>
+                      {editErrors.map((error) => (
+                        <div key={error} className="text-xs text-red-600 mt-1">
+                          {error}
+                        </div>
+                      ))}
+                    </td>
+                    {isManager && (
+                      <td className="px-3 py-2">
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => saveSource(source)}
+                            disabled={!!pendingTx || !edit || editErrors.length > 0}
+                            className="bg-blue-600 text-white px-3 py-1 rounded text-xs hover:bg-blue-700 transition-colors disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() =>
+                              source.isActive
+                                ? sendTransaction(`Deactivate ${source.key}`, () =>
+                                    aggregator.deactivateOracle(source.key),
+                                  )
+                                : sendTransaction(`Activate ${source.key}`, () => aggregator.activateOracle(source.key))
+                            }
+                            disabled={!!pendingTx}
+                            className="bg-gray-600 text-white px-3 py-1 rounded text-xs hover:bg-gray-700 transition-colors disabled:opacity-50"
+                          >
+                            {source.isActive ? "Deactivate" : "Activate"}
+                          </button>
+                          <button
+                            onClick={() =>
+                              sendTransaction(`Remove ${source.key}`, () => aggregator.removeOracle(source.key))
+                            }
+                            disabled={!!pendingTx}
+                            className="bg-red-600 text-white px-3 py-1 rounded text-xs hover:bg-red-700 transition-colors disabled:opacity-50"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {isManager ? (
+        <div className="border-t pt-4">
+          <h3 className="font-medium text-gray-900 mb-2">Add Source</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+            <label className="flex flex-col">
+              <span className="text-gray-700">Key</span>
+              <input
+                value={draft.key}
+                onChange={(e) => setDraft({ ...draft, key: e.target.value })}
+                placeholder="chainlink-eth-usd-2"
+                className="border rounded px-2 py-1"
+              />
+            </label>
+            <label className="flex flex-col md:col-span-2">
+              <span className="text-gray-700">Feed address</span>
+              <div className="flex space-x-2">
+                <input
+                  value={draft.oracle}
+                  onChange={(e) => setDraft({ ...draft, oracle: e.target.value.trim() })}
+                  placeholder="0x..."
+                  className="border rounded px-2 py-1 font-mono flex-1"
+                />
+                <button
+                  onClick={readFeed}
+                  disabled={!draft.oracle}
+                  className="bg-gray-600 text-white px-3 py-1 rounded text-xs hover:bg-gray-700 transition-colors disabled:opacity-50"
+                >
+                  Read Feed
+                </button>
+              </div>
+            </label>
+            <label className="flex flex-col">
+              <span className="text-gray-700">Weight</span>
+              {numberInput(draft.weight, (weight) => setDraft({ ...draft, weight }))}
+            </label>
+            <label className="flex flex-col">
+              <span className="text-gray-700">Heartbeat (s)</span>
+              {numberInput(draft.heartbeat, (heartbeat) => setDraft({ ...draft, heartbeat }))}
+            </label>
+            <label className="flex flex-col">
+              <span className="text-gray-700">Decimals</span>
+              {numberInput(draft.decimals, (decimals) => setDraft({ ...draft, decimals }))}
+            </label>
+            <label className="flex flex-col md:col-span-3">
+              <span className="text-gray-700">Description</span>
+              <input
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="border rounded px-2 py-1"
+              />
+            </label>
+          </div>
+          {(draft.key || draft.oracle) &&
+            draftErrors.map((error) => (
+              <p key={error} className="text-sm text-red-600 mt-1">
+                {error}
+              </p>
+            ))}
+          <button
+            onClick={addSource}
+            disabled={!!pendingTx || draftErrors.length > 0}
+            className="mt-3 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {pendingTx?.startsWith("Add") ? "Adding..." : "Add Source"}
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600">Changes need ORACLE_MANAGER_ROLE on the oracle aggregator.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { toast } from "react-toastify"
+import type { ProtocolContracts } from "../lib/contracts"
+import {
+  diffPolicies,
+  fetchDeployedPolicy,
+  policyToSettings,
+  settingsToPolicy,
+  toContractParameters,
+  validatePolicy,
+  type PolicySettings,
+} from "../lib/stabilization-policy"
+
+interface PolicyParametersFormProps {
+  contracts: ProtocolContracts
+  account: string
+  onStatusUpdate: () => void
+}
+
+interface ParameterUpdate {
+  parameter: string
+  oldValue: bigint
+  newValue: bigint
+  blockNumber: number
+}
+
+type NumberField = "targetPrice" | "maxRebasePercentage" | "minOracleConfidence"
+
+const fields: { key: NumberField; label: string; unit: string }[] = [
+  { key: "targetPrice", label: "Target price", unit: "$" },
+  { key: "maxRebasePercentage", label: "Max rebase", unit: "%" },
+  { key: "minOracleConfidence", label: "Min oracle confidence", unit: "%" },
+]
+
+export default function PolicyParametersForm({ contracts, account, onStatusUpdate }: PolicyParametersFormProps) {
+  const controller = contracts.stabilizationController
+  const [current, setCurrent] = useState<PolicySettings | null>(null)
+  const [settings, setSettings] = useState<PolicySettings | null>(null)
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [updates, setUpdates] = useState<ParameterUpdate[]>([])
+  const [pendingTx, setPendingTx] = useState<string | null>(null)
+
+  const loadParameters = useCallback(async () => {
+    try {
+      const deployed = policyToSettings(await fetchDeployedPolicy(controller))
+      setCurrent(deployed)
+      setSettings((previous) => previous ?? deployed)
+      setIsAdmin(account ? await controller.hasRole(await controller.DEFAULT_ADMIN_ROLE(), account) : false)
+
+      const events = await controller.queryFilter(controller.filters.ParameterUpdated())
+      setUpdates(
+        events
+          .slice(-10)
+          .reverse()
+          .map((event: { args: Omit<ParameterUpdate, "blockNumber">; blockNumber: number }) => ({
+            parameter: event.args.parameter,
+            oldValue: event.args.oldValue,
+            newValue: event.args.newValue,
+            blockNumber: event.blockNumber,
+          })),
+      )
+    } catch (error) {
+      console.error("Failed to load policy parameters:", error)
+    }
+  }, [controller, account])
+
+  useEffect(() => {
+    loadParameters()
+  }, [loadParameters])
+
+  // Invalid input (e.g. an empty field) leaves nothing to submit rather than throwing while rendering
+  const proposal = useMemo(() => {
+    if (!settings || !current) return null
+    try {
+      const policy = settingsToPolicy(settings)
+      return { policy, errors: validatePolicy(policy), changed: diffPolicies(settingsToPolicy(current), policy) }
+    } catch (error: any) {
+      return { policy: null, errors: [`Invalid value: ${error.shortMessage || error.message}`], changed: [] }
+    }
+  }, [settings, current])
+
+  const sendTransaction = async (label: string, send: () => Promise<any>) => {
+    setPendingTx(label)
+    try {
+      const tx = await send()
+      toast.info(`${label} submitted`)
+      await tx.wait()
+      toast.success(`${label} confirmed`)
+      await loadParameters()
+      onStatusUpdate()
+    } catch (error: any) {
+      toast.error(`${label} failed: ${error.reason || error.shortMessage || error.message}`)
+    } finally {
+      setPendingTx(null)
+    }
+  }
+
+  const submit = async (viaGovernance: boolean) => {
+    if (!proposal?.policy) return
+    const parameters = toContractParameters(proposal.policy)
+    if (!viaGovernance) {
+      await sendTransaction("Parameter update", () => controller.setPolicyParameters(parameters))
+      return
+    }
+
+    const governance = contracts.governance!
+    const calldata = controller.interface.encodeFunctionData("setPolicyParameters", [parameters])
+    const description = `Update stabilization parameters: ${proposal.changed.join(", ")}`
+    await sendTransaction("Proposal", async () =>
+      governance.propose([await controller.getAddress()], [0], [calldata], description),
+    )
+  }
+
+  const updateList = (key: "bandThresholds" | "bandDampings", index: number, value: number) =>
+    setSettings((prev) => prev && { ...prev, [key]: prev[key].map((current, i) => (i === index ? value : current)) })
+
+  const numberInput = (value: number, onChange: (value: number) => void, changed: boolean) => (
+    <input
+      type="number"
+      step="any"
+      value={Number.isNaN(value) ? "" : value}
+      onChange={(e) => onChange(e.target.value === "" ? Number.NaN : Number(e.target.value))}
+      className={`border rounded px-2 py-1 text-sm w-24 ${changed ? "border-blue-500 bg-blue-50" : ""}`}
+    />
+  )
+
+  if (!settings || !current || !proposal) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold text-gray-900">Stabilization Parameters</h2>
+        <p className="text-sm text-gray-600 mt-2">Loading parameters…</p>
+      </div>
+    )
+  }
+
+  const canSubmit = !pendingTx && !!proposal.policy && proposal.errors.length === 0 && proposal.changed.length > 0
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Stabilization Parameters</h2>
+        <button
+          onClick={() => setSettings(current)}
+          disabled={proposal.changed.length === 0}
+          className="bg-gray-600 text-white px-3 py-1 rounded text-sm hover:bg-gray-700 transition-colors disabled:opacity-50"
+        >
+          Discard Changes
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-4 text-sm">
+        <div className="space-y-2">
+          {fields.map(({ key, label, unit }) => (
+            <label key={key} className="flex justify-between items-center">
+              <span className="text-gray-700">
+                {label} ({unit})
+              </span>
+              {numberInput(
+                settings[key],
+                (value) => setSettings((prev) => prev && { ...prev, [key]: value }),
+                settings[key] !== current[key],
+              )}
+            </label>
+          ))}
+          <label className="flex justify-between items-center">
+            <span className="text-gray-700">Rebase cooldown (h)</span>
+            {numberInput(
+              settings.rebaseCooldown / 3600,
+              (value) => setSettings((prev) => prev && { ...prev, rebaseCooldown: Math.round(value * 3600) }),
+              settings.rebaseCooldown !== current.rebaseCooldown,
+            )}
+          </label>
+        </div>
+        <div className="space-y-2">
+          {settings.bandThresholds.map((value, i) => (
+            <label key={i} className="flex justify-between items-center">
+              <span className="text-gray-700">Band {i + 1} threshold (%)</span>
+              {numberInput(value, (next) => updateList("bandThresholds", i, next), value !== current.bandThresholds[i])}
+            </label>
+          ))}
+        </div>
+        <div className="space-y-2">
+          {settings.bandDampings.map((value, i) => (
+            <label key={i} className="flex justify-between items-center">
+              <span className="text-gray-700">Band {i + 1} damping (%)</span>
+              {numberInput(value, (next) => updateList("bandDampings", i, next), value !== current.bandDampings[i])}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {proposal.errors.map((error) => (
+        <p key={error} className="text-sm text-red-600">
+          {error}
+        </p>
+      ))}
+      {proposal.changed.length > 0 && (
+        <p className="text-sm text-gray-600 mb-3">Changes: {proposal.changed.join(", ")}</p>
+      )}
+
+      <div className="flex space-x-2">
+        {contracts.governance && (
+          <button
+            onClick={() => submit(true)}
+            disabled={!canSubmit}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {pendingTx === "Proposal" ? "Submitting..." : "Propose via Governance"}
+          </button>
+        )}
+        {isAdmin && (
+          <button
+            onClick={() => submit(false)}
+            disabled={!canSubmit}
+            className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {pendingTx === "Parameter update" ? "Applying..." : "Apply as Admin"}
+          </button>
+        )}
+      </div>
+      {!contracts.governance && !isAdmin && (
+        <p className="text-sm text-gray-600">
+          Changes need DEFAULT_ADMIN_ROLE on the controller or a governance deployment.
+        </p>
+      )}
+
+      {updates.length > 0 && (
+        <div className="border-t mt-4 pt-4">
+          <h3 className="font-medium text-gray-900 mb-2">Recent Updates</h3>
+          <table className="w-full text-sm text-left">
+            <tbody>
+              {updates.map((update, i) => (
+                <tr key={i} className="border-t">
+                  <td className="py-1 pr-4 font-mono">{update.parameter}</td>
+                  <td className="py-1 pr-4">
+                    {update.oldValue.toString()} → {update.newValue.toString()}
+                  </td>
+                  <td className="py-1 text-gray-500">block {update.blockNumber}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
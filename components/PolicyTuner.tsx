@@ -0,0 +1,291 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import type { ProtocolContracts } from "../lib/contracts"
+import { defaultModels, type PriceModelType } from "../lib/monte-carlo"
+import {
+  replayPriceSeries,
+  summarizeReplay,
+  syntheticPriceSeries,
+  type PricePoint,
+  type ReplaySummary,
+} from "../lib/policy-replay"
+import { fetchRebaseHistory } from "../lib/rebase-history"
+import {
+  defaultPolicy,
+  fetchDeployedPolicy,
+  policyToSettings,
+  settingsToPolicy,
+  type PolicyParameters,
+  type PolicySettings,
+} from "../lib/stabilization-policy"
+
+interface PolicyTunerProps {
+  contracts: ProtocolContracts
+}
+
+type SeriesSource = "recorded" | PriceModelType
+
+const sources: { value: SeriesSource; label: string }[] = [
+  { value: "recorded", label: "Recorded rebases" },
+  { value: "gbm", label: "Synthetic: GBM" },
+  { value: "jumpDiffusion", label: "Synthetic: jump-diffusion" },
+  { value: "meanReverting", label: "Synthetic: mean-reverting" },
+]
+
+const formatTokens = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 })
+
+export default function PolicyTuner({ contracts }: PolicyTunerProps) {
+  const [deployed, setDeployed] = useState<PolicyParameters | null>(null)
+  const [settings, setSettings] = useState<PolicySettings>(policyToSettings(defaultPolicy))
+  const [source, setSource] = useState<SeriesSource>("gbm")
+  const [days, setDays] = useState(30)
+  const [seed, setSeed] = useState(1)
+  const [recorded, setRecorded] = useState<PricePoint[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const loadDeployed = useCallback(async () => {
+    try {
+      const policy = await fetchDeployedPolicy(contracts.stabilizationController)
+      setDeployed(policy)
+      setSettings(policyToSettings(policy))
+      setError(null)
+    } catch (error: any) {
+      console.error("Failed to read policy parameters:", error)
+      setError(`Could not read the deployed parameters, comparing against the source constants: ${error.message}`)
+    }
+  }, [contracts])
+
+  const loadRecorded = useCallback(async () => {
+    try {
+      const history = await fetchRebaseHistory(contracts.stabilizationController)
+      setRecorded(history.map(({ timestamp, price }) => ({ timestamp, price })))
+    } catch (error) {
+      console.error("Failed to load rebase history:", error)
+    }
+  }, [contracts])
+
+  useEffect(() => {
+    loadDeployed()
+  }, [loadDeployed])
+
+  useEffect(() => {
+    if (source === "recorded") loadRecorded()
+  }, [source, loadRecorded])
+
+  const baseline = deployed ?? defaultPolicy
+  const tuned = useMemo(() => settingsToPolicy(settings), [settings])
+
+  const series = useMemo(
+    () => (source === "recorded" ? recorded : syntheticPriceSeries(defaultModels[source], days, seed)),
+    [source, recorded, days, seed],
+  )
+
+  const comparison = useMemo(() => {
+    const baselineReplay = replayPriceSeries(series, baseline)
+    const tunedReplay = replayPriceSeries(series, tuned)
+    return {
+      chartData: series.map((point, index) => ({
+        time: new Date(point.timestamp * 1000).toLocaleDateString(),
+        price: point.price,
+        deployed: baselineReplay[index].supply,
+        tuned: tunedReplay[index].supply,
+      })),
+      summaries: { deployed: summarizeReplay(baselineReplay), tuned: summarizeReplay(tunedReplay) },
+    }
+  }, [series, baseline, tuned])
+
+  // The controller checks bands from the top, so thresholds that don't increase leave some bands unreachable
+  const thresholdsAscending = settings.bandThresholds.every(
+    (value, i) => i === 0 || value > settings.bandThresholds[i - 1],
+  )
+
+  const updateList = (key: "bandThresholds" | "bandDampings", index: number, value: number) =>
+    setSettings((prev) => ({ ...prev, [key]: prev[key].map((current, i) => (i === index ? value : current)) }))
+
+  const slider = (
+    label: string,
+    value: number,
+    [min, max, step]: [number, number, number],
+    unit: string,
+    onChange: (value: number) => void,
+  ) => (
+    <label key={label} className="block text-sm">
+      <div className="flex justify-between text-gray-700">
+        <span>{label}</span>
+        <span className="font-mono">
+          {value}
+          {unit}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full"
+      />
+    </label>
+  )
+
+  const summaryRows: { label: string; format: (summary: ReplaySummary) => string }[] = [
+    { label: "Final supply", format: (summary) => formatTokens(summary.finalSupply) },
+    { label: "Supply change", format: (summary) => `${summary.supplyChangePercent.toFixed(2)}%` },
+    { label: "Rebases", format: (summary) => String(summary.rebases) },
+    { label: "Largest rebase", format: (summary) => `${summary.largestRebasePercent.toFixed(2)}%` },
+    { label: "Breaker trips", format: (summary) => String(summary.breakerTrips) },
+  ]
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Policy Tuning</h2>
+        <button
+          onClick={() => setSettings(policyToSettings(baseline))}
+          className="bg-gray-600 text-white px-3 py-1 rounded text-sm hover:bg-gray-700 transition-colors"
+        >
+          Reset to Deployed
+        </button>
+      </div>
+      {error && <p className="text-sm text-yellow-700 mb-4">{error}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        <div className="space-y-3">
+          <h3 className="font-medium text-gray-900">Band Thresholds</h3>
+          {settings.bandThresholds.map((value, i) =>
+            slider(`Band ${i + 1}`, value, [0.5, 50, 0.5], "%", (next) => updateList("bandThresholds", i, next)),
+          )}
+          {!thresholdsAscending && <p className="text-sm text-red-600">Thresholds should increase from band 1 to 4.</p>}
+        </div>
+        <div className="space-y-3">
+          <h3 className="font-medium text-gray-900">Damping</h3>
+          {settings.bandDampings.map((value, i) =>
+            slider(`Band ${i + 1}`, value, [0, 100, 5], "%", (next) => updateList("bandDampings", i, next)),
+          )}
+        </div>
+        <div className="space-y-3">
+          <h3 className="font-medium text-gray-900">Limits</h3>
+          {slider("Max rebase", settings.maxRebasePercentage, [1, 50, 1], "%", (next) =>
+            setSettings((prev) => ({ ...prev, maxRebasePercentage: next })),
+          )}
+          {slider("Cooldown", settings.rebaseCooldown / 3600, [1, 48, 1], "h", (next) =>
+            setSettings((prev) => ({ ...prev, rebaseCooldown: next * 3600 })),
+          )}
+
+          <h3 className="font-medium text-gray-900 pt-2">Price Series</h3>
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value as SeriesSource)}
+            className="border rounded px-2 py-1 text-sm w-full"
+          >
+            {sources.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {source !== "recorded" && (
+            <div className="flex space-x-2 text-sm">
+              <label className="flex items-center space-x-1">
+                <span className="text-gray-600">Days</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={days}
+                  onChange={(e) => setDays(Math.max(1, Number(e.target.value)))}
+                  className="border rounded px-2 py-1 w-20"
+                />
+              </label>
+              <label className="flex items-center space-x-1">
+                <span className="text-gray-600">Seed</span>
+                <input
+                  type="number"
+                  value={seed}
+                  onChange={(e) => setSeed(Number(e.target.value))}
+                  className="border rounded px-2 py-1 w-20"
+                />
+              </label>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {series.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No rebases recorded yet; pick a synthetic series instead.</div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-gray-50 p-4 rounded-lg">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Supply: Deployed vs Tuned</h3>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={comparison.chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" tick={{ fontSize: 12 }} minTickGap={40} />
+                  <YAxis
+                    yAxisId="supply"
+                    domain={["auto", "auto"]}
+                    tick={{ fontSize: 12 }}
+                    tickFormatter={(value) => `${(value / 1e6).toFixed(2)}M`}
+                  />
+                  <YAxis
+                    yAxisId="price"
+                    orientation="right"
+                    domain={["auto", "auto"]}
+                    tick={{ fontSize: 12 }}
+                    tickFormatter={(value) => `$${value.toFixed(2)}`}
+                  />
+                  <Tooltip
+                    formatter={(value: number, name: string) =>
+                      name === "Price" ? `$${value.toFixed(4)}` : formatTokens(value)
+                    }
+                  />
+                  <Legend />
+                  <Line
+                    yAxisId="supply"
+                    type="stepAfter"
+                    dataKey="deployed"
+                    name="Deployed"
+                    stroke="#6B7280"
+                    dot={false}
+                  />
+                  <Line yAxisId="supply" type="stepAfter" dataKey="tuned" name="Tuned" stroke="#3B82F6" dot={false} />
+                  <Line yAxisId="price" type="monotone" dataKey="price" name="Price" stroke="#F59E0B" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Outcome</h3>
+            <table className="w-full text-sm text-left">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="font-medium pr-2"></th>
+                  <th className="font-medium pr-2">Deployed</th>
+                  <th className="font-medium">Tuned</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaryRows.map(({ label, format }) => (
+                  <tr key={label} className="border-t">
+                    <td className="py-1 pr-2 text-gray-600">{label}</td>
+                    <td className="py-1 pr-2 font-mono">{format(comparison.summaries.deployed)}</td>
+                    <td className="py-1 font-mono">{format(comparison.summaries.tuned)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-4">
+              Prices are replayed as given through an off-chain copy of the controller's rebase math; the market's
+              reaction to supply changes is not modelled here (see <code>npx hardhat simulate</code>).
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
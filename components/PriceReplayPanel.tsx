@@ -0,0 +1,399 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { toast } from "react-toastify"
+import type { ProtocolContracts } from "../lib/contracts"
+import { fetchOracleSources } from "../lib/oracle-aggregation"
+import {
+  compareRecordings,
+  parsePriceSeries,
+  parseRecordingJson,
+  resolveReplayFeeds,
+  runPriceReplay,
+  seriesFeedKeys,
+  summarizeRecording,
+  type PriceSeriesPoint,
+  type RebaseSchedule,
+  type RecordedPoint,
+  type ReplayRecording,
+} from "../lib/price-replay"
+import type { TimeTravel } from "../lib/time-travel"
+import { MockChainlinkOracle__factory } from "../typechain-types"
+
+interface PriceReplayPanelProps {
+  contracts: ProtocolContracts
+  // Only on local networks; replaying sets block timestamps
+  timeTravel: TimeTravel | null
+  onStatusUpdate: () => void
+}
+
+type ScheduleOption = "never" | "cooldown" | "interval"
+
+const outcomeStyles: Record<NonNullable<RecordedPoint["rebase"]>["outcome"], string> = {
+  executed: "text-green-700",
+  circuitBreaker: "text-red-700",
+  noChange: "text-gray-600",
+  blocked: "text-gray-400",
+  reverted: "text-red-700",
+}
+
+const formatTokens = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 })
+const formatPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`
+
+export default function PriceReplayPanel({ contracts, timeTravel, onStatusUpdate }: PriceReplayPanelProps) {
+  const [series, setSeries] = useState<{ source: string; points: PriceSeriesPoint[] } | null>(null)
+  const [activeKeys, setActiveKeys] = useState<string[]>([])
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([])
+  const [schedule, setSchedule] = useState<ScheduleOption>("cooldown")
+  const [intervalHours, setIntervalHours] = useState(24)
+  const [rewindAfterRun, setRewindAfterRun] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const [points, setPoints] = useState<RecordedPoint[]>([])
+  const [recording, setRecording] = useState<ReplayRecording | null>(null)
+  const [baseline, setBaseline] = useState<ReplayRecording | null>(null)
+  const stopRequested = useRef(false)
+
+  const loadSources = useCallback(async () => {
+    try {
+      const sources = await fetchOracleSources(contracts.oracleAggregator)
+      const keys = sources.filter((source) => source.isActive).map((source) => source.key)
+      setActiveKeys(keys)
+      setSelectedKeys(keys)
+    } catch (error) {
+      console.error("Failed to load oracle sources:", error)
+    }
+  }, [contracts])
+
+  useEffect(() => {
+    loadSources()
+  }, [loadSources])
+
+  // Feeds the series names itself always get its prices
+  const namedKeys = useMemo(() => (series ? seriesFeedKeys(series.points) : []), [series])
+  const feedKeys = useMemo(() => [...new Set([...selectedKeys, ...namedKeys])], [selectedKeys, namedKeys])
+
+  const loadSeries = async (file: File) => {
+    try {
+      const points = parsePriceSeries(await file.text(), file.name)
+      setSeries({ source: file.name, points })
+      toast.success(`Loaded ${points.length} points from ${file.name}`)
+    } catch (error: any) {
+      toast.error(error.message)
+    }
+  }
+
+  const loadBaseline = async (file: File) => {
+    try {
+      setBaseline(parseRecordingJson(await file.text(), file.name))
+    } catch (error: any) {
+      toast.error(error.message)
+    }
+  }
+
+  const runReplay = async () => {
+    if (!series || !timeTravel) return
+    const rebaseSchedule: RebaseSchedule = schedule === "interval" ? intervalHours * 3600 : schedule
+
+    setIsRunning(true)
+    setPoints([])
+    setRecording(null)
+    stopRequested.current = false
+    let snapshotId: string | null = null
+    try {
+      if (rewindAfterRun) snapshotId = await timeTravel.snapshot()
+      const aggregator = contracts.oracleAggregator
+      const feeds = await resolveReplayFeeds(aggregator, feedKeys, (address) =>
+        MockChainlinkOracle__factory.connect(address, aggregator.runner),
+      )
+      const result = await runPriceReplay(
+        series.points,
+        series.source,
+        { contracts, timeTravel, feeds },
+        rebaseSchedule,
+        {
+          onPoint: (point) => setPoints((previous) => [...previous, point]),
+          shouldStop: () => stopRequested.current,
+        },
+      )
+      setRecording(result)
+      toast.success(`Replayed ${result.points.length} of ${series.points.length} points`)
+    } catch (error: any) {
+      toast.error(`Replay failed: ${error.reason || error.shortMessage || error.message}`)
+    } finally {
+      if (snapshotId) {
+        await timeTravel.revert(snapshotId).catch((error) => toast.error(`Failed to rewind: ${error.message}`))
+      }
+      setIsRunning(false)
+      onStatusUpdate()
+    }
+  }
+
+  const downloadRecording = () => {
+    if (!recording) return
+    const url = URL.createObjectURL(new Blob([JSON.stringify(recording, null, 2)], { type: "application/json" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `replay-${recording.source.replace(/\.[^.]+$/, "")}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const chartData = useMemo(() => {
+    const baselineSupply = new Map(baseline?.points.map((point) => [point.timestamp, point.totalSupply]))
+    return points.map((point) => ({
+      time: new Date(point.timestamp * 1000).toLocaleString(),
+      price: point.aggregatedPrice,
+      supply: point.totalSupply,
+      baseline: baselineSupply.get(point.timestamp),
+    }))
+  }, [points, baseline])
+
+  const summary = recording ? summarizeRecording(recording) : null
+  const comparison = recording && baseline ? compareRecordings(baseline, recording) : null
+  const rebaseLog = points.filter((point) => point.rebase && point.rebase.outcome !== "blocked")
+
+  const fileButton = (label: string, accept: string, onFile: (file: File) => void) => (
+    <label className="bg-gray-600 text-white px-3 py-1 rounded text-sm hover:bg-gray-700 transition-colors cursor-pointer">
+      {label}
+      <input
+        type="file"
+        accept={accept}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) onFile(file)
+          e.target.value = ""
+        }}
+      />
+    </label>
+  )
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">Price Replay</h2>
+        <div className="flex items-center space-x-3">
+          {fileButton("Load Series", ".csv,.json,text/csv,application/json", loadSeries)}
+          {fileButton("Load Baseline", "application/json,.json", loadBaseline)}
+        </div>
+      </div>
+
+      {!timeTravel && (
+        <p className="text-sm text-yellow-700 mb-4">
+          Replaying sets block timestamps and needs a local Hardhat network.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6 text-sm">
+        <div>
+          <h3 className="font-medium text-gray-900 mb-2">Series</h3>
+          {series ? (
+            <div className="text-gray-700">
+              <div className="font-medium">{series.source}</div>
+              <div>
+                {series.points.length} points, {new Date(series.points[0].timestamp * 1000).toLocaleString()} to{" "}
+                {new Date(series.points[series.points.length - 1].timestamp * 1000).toLocaleString()}
+              </div>
+            </div>
+          ) : (
+            <p className="text-gray-500">
+              CSV with a timestamp column and a price column, or one column per feed key; or a JSON array of the same
+              rows.
+            </p>
+          )}
+          {baseline && (
+            <div className="text-gray-700 mt-2">
+              Baseline: {baseline.source}, {baseline.points.length} points
+              <button onClick={() => setBaseline(null)} className="ml-2 text-blue-600 hover:underline">
+                clear
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h3 className="font-medium text-gray-900 mb-2">Feeds</h3>
+          {activeKeys.length === 0 && <p className="text-gray-500">No active oracle sources.</p>}
+          {activeKeys.map((key) => (
+            <label key={key} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={feedKeys.includes(key)}
+                disabled={namedKeys.includes(key) || isRunning}
+                onChange={(e) =>
+                  setSelectedKeys((previous) =>
+                    e.target.checked ? [...previous, key] : previous.filter((selected) => selected !== key),
+                  )
+                }
+              />
+              <span className="font-mono">{key}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="font-medium text-gray-900">Rebases</h3>
+          <select
+            value={schedule}
+            onChange={(e) => setSchedule(e.target.value as ScheduleOption)}
+            disabled={isRunning}
+            className="border rounded px-2 py-1 w-full"
+          >
+            <option value="never">Never</option>
+            <option value="cooldown">Whenever the cooldown allows</option>
+            <option value="interval">Every N hours of series time</option>
+          </select>
+          {schedule === "interval" && (
+            <label className="flex items-center space-x-2">
+              <span className="text-gray-600">Hours</span>
+              <input
+                type="number"
+                min={1}
+                value={intervalHours}
+                onChange={(e) => setIntervalHours(Math.max(1, Number(e.target.value)))}
+                className="border rounded px-2 py-1 w-20"
+              />
+            </label>
+          )}
+          {timeTravel && (
+            <label className="flex items-center space-x-1 text-gray-600">
+              <input type="checkbox" checked={rewindAfterRun} onChange={(e) => setRewindAfterRun(e.target.checked)} />
+              <span>Rewind after run</span>
+            </label>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-3 mb-6">
+        <button
+          onClick={runReplay}
+          disabled={!series || !timeTravel || feedKeys.length === 0 || isRunning}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isRunning ? "Replaying..." : "Run Replay"}
+        </button>
+        {isRunning && (
+          <button
+            onClick={() => (stopRequested.current = true)}
+            className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors"
+          >
+            Stop
+          </button>
+        )}
+        {recording && (
+          <button
+            onClick={downloadRecording}
+            className="bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            Download Recording
+          </button>
+        )}
+        {series && (isRunning || points.length > 0) && (
+          <span className="text-sm text-gray-600">
+            {points.length} / {series.points.length} points
+          </span>
+        )}
+      </div>
+
+      {points.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-gray-50 p-4 rounded-lg">
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" tick={{ fontSize: 12 }} minTickGap={40} />
+                  <YAxis
+                    yAxisId="supply"
+                    domain={["auto", "auto"]}
+                    tick={{ fontSize: 12 }}
+                    tickFormatter={(value) => `${(value / 1e6).toFixed(2)}M`}
+                  />
+                  <YAxis
+                    yAxisId="price"
+                    orientation="right"
+                    domain={["auto", "auto"]}
+                    tick={{ fontSize: 12 }}
+                    tickFormatter={(value) => `$${value.toFixed(2)}`}
+                  />
+                  <Tooltip
+                    formatter={(value: number, name: string) =>
+                      name === "Price" ? `$${value.toFixed(4)}` : formatTokens(value)
+                    }
+                  />
+                  <Legend />
+                  <Line
+                    yAxisId="supply"
+                    type="stepAfter"
+                    dataKey="supply"
+                    name="Supply"
+                    stroke="#3B82F6"
+                    dot={false}
+                  />
+                  {baseline && (
+                    <Line
+                      yAxisId="supply"
+                      type="stepAfter"
+                      dataKey="baseline"
+                      name="Baseline"
+                      stroke="#6B7280"
+                      dot={false}
+                    />
+                  )}
+                  <Line
+                    yAxisId="price"
+                    type="monotone"
+                    dataKey="price"
+                    name="Price"
+                    stroke="#F59E0B"
+                    dot={false}
+                    connectNulls
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="space-y-4 text-sm">
+            {summary && (
+              <div className="bg-gray-50 p-4 rounded-lg space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Supply</span>
+                  <span className="font-mono">
+                    {formatTokens(summary.finalSupply)} ({formatPercent(summary.supplyChangePercent)})
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Rebases / breaker trips</span>
+                  <span className="font-mono">
+                    {summary.rebases} / {summary.breakerTrips}
+                  </span>
+                </div>
+                {comparison && (
+                  <div className="border-t pt-2 mt-2 text-gray-700">
+                    Baseline: {comparison.baseline.rebases} rebases,{" "}
+                    {formatPercent(comparison.baseline.supplyChangePercent)} over {comparison.comparedPoints} shared
+                    points.{" "}
+                    {comparison.divergedAt === null
+                      ? "No difference in supply, band or breaker."
+                      : `First difference at ${new Date(comparison.divergedAt * 1000).toLocaleString()}.`}
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {rebaseLog.length === 0 && <p className="text-gray-500">No rebases attempted yet.</p>}
+              {rebaseLog.map((point) => (
+                <div key={point.timestamp} className={outcomeStyles[point.rebase!.outcome]}>
+                  <span className="text-gray-500">{new Date(point.timestamp * 1000).toLocaleString()}</span>{" "}
+                  {point.rebase!.message}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
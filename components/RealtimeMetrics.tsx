@@ -1,23 +1,12 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useMemo } from "react"
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from "recharts"
-
-interface ProtocolStatus {
-  currentPrice: string
-  targetPrice: string
-  totalSupply: string
-  deviation: string
-  canRebase: boolean
-  circuitBreakerActive: boolean
-  lastRebaseTime: string
-  rebaseCount: string
-  stabilityBand: number
-  oracleConfidence: string
-}
+import type { ProtocolSnapshot, ProtocolStatus } from "../lib/protocol-store"
 
 interface RealtimeMetricsProps {
   protocolStatus: ProtocolStatus | null
+  history: ProtocolSnapshot[]
 }
 
 interface ChartDataPoint {
@@ -27,25 +16,18 @@ interface ChartDataPoint {
   deviation: number
 }
 
-export default function RealtimeMetrics({ protocolStatus }: RealtimeMetricsProps) {
-  const [chartData, setChartData] = useState<ChartDataPoint[]>([])
-  const [maxDataPoints] = useState(50)
-
-  useEffect(() => {
-    if (protocolStatus) {
-      const newDataPoint: ChartDataPoint = {
-        timestamp: new Date().toLocaleTimeString(),
-        price: Number.parseFloat(protocolStatus.currentPrice),
-        supply: Number.parseFloat(protocolStatus.totalSupply) / 1000000, // Convert to millions
-        deviation: Number.parseFloat(protocolStatus.deviation) * 100, // Convert to percentage
-      }
-
-      setChartData((prevData) => {
-        const updatedData = [...prevData, newDataPoint]
-        return updatedData.slice(-maxDataPoints) // Keep only last N points
-      })
-    }
-  }, [protocolStatus, maxDataPoints])
+export default function RealtimeMetrics({ protocolStatus, history }: RealtimeMetricsProps) {
+  // One point per block that changed protocol state, timed by the block timestamp
+  const chartData = useMemo<ChartDataPoint[]>(
+    () =>
+      history.map((snapshot) => ({
+        timestamp: new Date(snapshot.timestamp * 1000).toLocaleTimeString(),
+        price: Number.parseFloat(snapshot.status.currentPrice),
+        supply: Number.parseFloat(snapshot.status.totalSupply) / 1000000, // Convert to millions
+        deviation: Number.parseFloat(snapshot.status.deviation) * 100, // Convert to percentage
+      })),
+    [history],
+  )
 
   if (!protocolStatus) {
     return (
@@ -0,0 +1,298 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import type { ProtocolContracts } from "../lib/contracts"
+import {
+  fetchRebaseHistory,
+  filterRebaseHistory,
+  sortRebaseHistory,
+  stabilityBandColor,
+  stabilityBands,
+  type RebaseRecord,
+  type RebaseSortKey,
+} from "../lib/rebase-history"
+import { defaultPolicy, fetchDeployedPolicy } from "../lib/stabilization-policy"
+
+interface RebaseHistoryExplorerProps {
+  contracts: ProtocolContracts
+  // Controller rebaseCount from the live protocol state; new epochs are fetched when it grows
+  rebaseCount?: string
+}
+
+const columns: { key: RebaseSortKey; label: string }[] = [
+  { key: "epoch", label: "Epoch" },
+  { key: "timestamp", label: "Time" },
+  { key: "price", label: "Price" },
+  { key: "supplyDelta", label: "Supply Delta" },
+  { key: "newSupply", label: "New Supply" },
+  { key: "stabilityBand", label: "Band" },
+]
+
+// <input type="date"> values are local dates; the range covers the whole of both days
+const toSeconds = (date: string, endOfDay = false) =>
+  date ? Math.floor(new Date(`${date}T${endOfDay ? "23:59:59" : "00:00:00"}`).getTime() / 1000) : undefined
+
+export default function RebaseHistoryExplorer({ contracts, rebaseCount }: RebaseHistoryExplorerProps) {
+  const [records, setRecords] = useState<RebaseRecord[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [bands, setBands] = useState<number[]>([])
+  const [bandThresholds, setBandThresholds] = useState(defaultPolicy.bandThresholds)
+  const [fromDate, setFromDate] = useState("")
+  const [toDate, setToDate] = useState("")
+  const [sortKey, setSortKey] = useState<RebaseSortKey>("epoch")
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc")
+
+  // Highest epoch already loaded, so a new rebase only fetches what is missing
+  const loadedEpoch = useRef(0)
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const controller = contracts.stabilizationController
+      const latest = Number(await controller.rebaseCount())
+      if (latest < loadedEpoch.current) {
+        // The chain was reverted to a snapshot; epochs may since have been replaced, so reload them all
+        loadedEpoch.current = 0
+        setRecords([])
+      }
+      if (latest > loadedEpoch.current) {
+        const fetched = await fetchRebaseHistory(controller, loadedEpoch.current + 1, latest)
+        loadedEpoch.current = Math.max(loadedEpoch.current, latest)
+        // Overlapping loads can fetch the same epochs; keep the first copy
+        setRecords((previous) => {
+          const known = new Set(previous.map((record) => record.epoch))
+          return [...previous, ...fetched.filter((record) => !known.has(record.epoch))]
+        })
+      }
+      setError(null)
+    } catch (error: any) {
+      console.error("Failed to load rebase history:", error)
+      setError(error.shortMessage || error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [contracts])
+
+  // Start over when connected to a different controller
+  useEffect(() => {
+    loadedEpoch.current = 0
+    setRecords([])
+  }, [contracts])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory, rebaseCount])
+
+  // Band labels follow the deployed thresholds, which governance can change
+  useEffect(() => {
+    fetchDeployedPolicy(contracts.stabilizationController)
+      .then((policy) => setBandThresholds(policy.bandThresholds))
+      .catch((error) => console.error("Failed to load band thresholds:", error))
+  }, [contracts, rebaseCount])
+
+  const bandLegend = useMemo(() => stabilityBands(bandThresholds), [bandThresholds])
+  const filtered = useMemo(
+    () => filterRebaseHistory(records, { bands, from: toSeconds(fromDate), to: toSeconds(toDate, true) }),
+    [records, bands, fromDate, toDate],
+  )
+  const sorted = useMemo(() => sortRebaseHistory(filtered, sortKey, sortDirection), [filtered, sortKey, sortDirection])
+  const chronological = useMemo(() => sortRebaseHistory(filtered, "epoch", "asc"), [filtered])
+
+  const toggleBand = (band: number) =>
+    setBands((previous) => (previous.includes(band) ? previous.filter((b) => b !== band) : [...previous, band]))
+
+  const toggleSort = (key: RebaseSortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === "asc" ? "desc" : "asc")
+    } else {
+      setSortKey(key)
+      setSortDirection("desc")
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">Rebase History</h2>
+        <span className="text-sm text-gray-600">
+          {isLoading ? "Loading..." : `${filtered.length} of ${records.length} rebases`}
+        </span>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-800">{error}</div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 mb-6 text-sm">
+        <div className="flex flex-wrap gap-2">
+          {bandLegend.map(({ band, label, color }) => (
+            <label key={band} className="flex items-center space-x-1">
+              <input type="checkbox" checked={bands.includes(band)} onChange={() => toggleBand(band)} />
+              <span style={{ color }}>{label}</span>
+            </label>
+          ))}
+        </div>
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-600">From</span>
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="border rounded px-2 py-1"
+          />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-600">To</span>
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="border rounded px-2 py-1"
+          />
+        </label>
+        {(bands.length > 0 || fromDate || toDate) && (
+          <button
+            onClick={() => {
+              setBands([])
+              setFromDate("")
+              setToDate("")
+            }}
+            className="text-blue-600 hover:underline"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {records.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">{isLoading ? "Loading rebase history..." : "No rebases yet."}</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            {/* Price vs supply delta, one series per band */}
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Price vs Supply Delta</h3>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      type="number"
+                      dataKey="price"
+                      name="Price"
+                      domain={["auto", "auto"]}
+                      tick={{ fontSize: 12 }}
+                      tickFormatter={(value) => `$${value.toFixed(2)}`}
+                    />
+                    <YAxis
+                      type="number"
+                      dataKey="supplyDeltaPercent"
+                      name="Supply Delta"
+                      tick={{ fontSize: 12 }}
+                      tickFormatter={(value) => `${value.toFixed(1)}%`}
+                    />
+                    <Tooltip
+                      formatter={(value: number, name: string) =>
+                        name === "Price" ? `$${value.toFixed(4)}` : `${value.toFixed(2)}%`
+                      }
+                    />
+                    <Legend />
+                    {bandLegend.map(({ band, label, color }) => (
+                      <Scatter
+                        key={band}
+                        name={label}
+                        data={filtered.filter((record) => record.stabilityBand === band)}
+                        fill={color}
+                      />
+                    ))}
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Supply delta per epoch, coloured by band */}
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Supply Delta by Epoch</h3>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chronological}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="epoch" tick={{ fontSize: 12 }} />
+                    <YAxis tick={{ fontSize: 12 }} tickFormatter={(value) => `${value.toFixed(1)}%`} />
+                    <Tooltip
+                      formatter={(value: number) => [`${value.toFixed(2)}%`, "Supply Delta"]}
+                      labelFormatter={(label) => `Epoch ${label}`}
+                    />
+                    <Bar dataKey="supplyDeltaPercent">
+                      {chronological.map((record) => (
+                        <Cell key={record.epoch} fill={stabilityBandColor(record.stabilityBand)} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto max-h-96">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  {columns.map(({ key, label }) => (
+                    <th
+                      key={key}
+                      onClick={() => toggleSort(key)}
+                      className="px-3 py-2 text-left font-medium text-gray-700 cursor-pointer select-none"
+                    >
+                      {label}
+                      {sortKey === key && (sortDirection === "asc" ? " ▲" : " ▼")}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {sorted.map((record) => (
+                  <tr key={record.epoch}>
+                    <td className="px-3 py-2 font-mono">{record.epoch}</td>
+                    <td className="px-3 py-2">{new Date(record.timestamp * 1000).toLocaleString()}</td>
+                    <td className="px-3 py-2">${record.price.toFixed(4)}</td>
+                    <td className={`px-3 py-2 ${record.supplyDelta >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      {record.supplyDelta >= 0 ? "+" : ""}
+                      {record.supplyDelta.toLocaleString(undefined, { maximumFractionDigits: 2 })} (
+                      {record.supplyDeltaPercent.toFixed(2)}%)
+                    </td>
+                    <td className="px-3 py-2">
+                      {record.newSupply.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span
+                        className="px-2 py-1 rounded text-xs text-white"
+                        style={{ backgroundColor: stabilityBandColor(record.stabilityBand) }}
+                      >
+                        {record.stabilityBand}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "react-toastify"
+import type { ProtocolContracts } from "../lib/contracts"
+import type { TimeTravel } from "../lib/time-travel"
+
+interface TimeTravelControlsProps {
+  contracts: ProtocolContracts
+  timeTravel: TimeTravel
+  onStatusUpdate: () => void
+}
+
+interface ChainSnapshot {
+  id: string
+  label: string
+  timestamp: number
+}
+
+const formatDuration = (seconds: number) =>
+  seconds % 3600 === 0 ? `${seconds / 3600}h` : seconds % 60 === 0 ? `${seconds / 60}m` : `${seconds}s`
+
+export default function TimeTravelControls({ contracts, timeTravel, onStatusUpdate }: TimeTravelControlsProps) {
+  const [chainTimestamp, setChainTimestamp] = useState<number | null>(null)
+  const [cooldown, setCooldown] = useState<number | null>(null)
+  const [customSeconds, setCustomSeconds] = useState("")
+  const [snapshots, setSnapshots] = useState<ChainSnapshot[]>([])
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+
+  const loadChainTime = useCallback(async () => {
+    try {
+      setChainTimestamp(await timeTravel.getTimestamp())
+    } catch (error) {
+      console.error("Failed to read chain time:", error)
+    }
+  }, [timeTravel])
+
+  const loadCooldown = useCallback(async () => {
+    try {
+      setCooldown(Number(await contracts.stabilizationController.rebaseCooldown()))
+    } catch (error) {
+      console.error("Failed to read rebase cooldown:", error)
+    }
+  }, [contracts])
+
+  useEffect(() => {
+    loadChainTime()
+    loadCooldown()
+  }, [loadChainTime, loadCooldown])
+
+  const runAction = async (label: string, action: () => Promise<void>) => {
+    setPendingAction(label)
+    try {
+      await action()
+      await loadChainTime()
+      onStatusUpdate()
+    } catch (error: any) {
+      toast.error(`${label} failed: ${error.shortMessage || error.message}`)
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const advance = (seconds: number) =>
+    runAction(`Advance ${formatDuration(seconds)}`, async () => {
+      await timeTravel.increaseTime(seconds)
+      toast.info(`Chain time advanced by ${formatDuration(seconds)}`)
+    })
+
+  const takeSnapshot = () =>
+    runAction("Snapshot", async () => {
+      const id = await timeTravel.snapshot()
+      const timestamp = await timeTravel.getTimestamp()
+      setSnapshots((prev) => [...prev, { id, label: `Snapshot ${prev.length + 1}`, timestamp }])
+      toast.success(`Snapshot ${id} taken`)
+    })
+
+  const revertTo = (snapshot: ChainSnapshot) =>
+    runAction("Revert", async () => {
+      await timeTravel.revert(snapshot.id)
+      // Hardhat drops the snapshot reverted to and every snapshot taken after it
+      setSnapshots((prev) => prev.slice(0, prev.indexOf(snapshot)))
+      toast.success(`Reverted to ${snapshot.label}`)
+    })
+
+  const presets = [3600, ...(cooldown ? [cooldown] : []), 86400]
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Time Travel</h2>
+        <span className="text-sm text-gray-600">
+          Chain time: {chainTimestamp ? new Date(chainTimestamp * 1000).toLocaleString() : "…"}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {presets.map((seconds) => (
+          <button
+            key={seconds}
+            onClick={() => advance(seconds)}
+            disabled={!!pendingAction}
+            className="bg-gray-600 text-white px-3 py-1 rounded text-sm hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            +{formatDuration(seconds)}
+            {seconds === cooldown && " (cooldown)"}
+          </button>
+        ))}
+        <input
+          type="number"
+          min={1}
+          value={customSeconds}
+          onChange={(e) => setCustomSeconds(e.target.value)}
+          placeholder="seconds"
+          className="border rounded px-2 py-1 text-sm w-28"
+        />
+        <button
+          onClick={() => advance(Number(customSeconds))}
+          disabled={!!pendingAction || !customSeconds}
+          className="bg-gray-600 text-white px-3 py-1 rounded text-sm hover:bg-gray-700 transition-colors disabled:opacity-50"
+        >
+          Advance
+        </button>
+        <button
+          onClick={() => runAction("Mine", () => timeTravel.mine())}
+          disabled={!!pendingAction}
+          className="bg-gray-600 text-white px-3 py-1 rounded text-sm hover:bg-gray-700 transition-colors disabled:opacity-50"
+        >
+          Mine block
+        </button>
+      </div>
+
+      <div className="border-t pt-4">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="font-medium text-gray-900">Snapshots</h3>
+          <button
+            onClick={takeSnapshot}
+            disabled={!!pendingAction}
+            className="bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Take Snapshot
+          </button>
+        </div>
+        {snapshots.length === 0 ? (
+          <p className="text-sm text-gray-600">Take a snapshot before a test run to rewind the chain afterwards.</p>
+        ) : (
+          <div className="space-y-2">
+            {snapshots.map((snapshot) => (
+              <div key={snapshot.id} className="flex justify-between items-center text-sm">
+                <span>
+                  {snapshot.label}{" "}
+                  <span className="text-gray-500">({new Date(snapshot.timestamp * 1000).toLocaleString()})</span>
+                </span>
+                <button
+                  onClick={() => revertTo(snapshot)}
+                  disabled={!!pendingAction}
+                  className="bg-yellow-600 text-white px-3 py-1 rounded text-sm hover:bg-yellow-700 transition-colors disabled:opacity-50"
+                >
+                  Revert
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
+
+/**
+ * @title ECashGovernanceToken
+ * @dev Fixed-supply voting token for ECashGovernor. Kept separate from the rebasing ECashToken so that
+ *      voting power is not changed by supply adjustments.
+ */
+contract ECashGovernanceToken is ERC20, ERC20Permit, ERC20Votes {
+    uint256 public constant INITIAL_SUPPLY = 1_000_000e18;
+
+    constructor(address initialHolder) ERC20("E-Cash Governance", "ECG") ERC20Permit("E-Cash Governance") {
+        _mint(initialHolder, INITIAL_SUPPLY);
+    }
+
+    function _afterTokenTransfer(address from, address to, uint256 amount) internal override(ERC20, ERC20Votes) {
+        super._afterTokenTransfer(from, to, amount);
+    }
+
+    function _mint(address to, uint256 amount) internal override(ERC20, ERC20Votes) {
+        super._mint(to, amount);
+    }
+
+    function _burn(address account, uint256 amount) internal override(ERC20, ERC20Votes) {
+        super._burn(account, amount);
+    }
+}
@@ -5,13 +5,27 @@ import "@chainlink/contracts/src/v0.8/interfaces/AggregatorV3Interface.sol";
 
 /**
  * @title MockChainlinkOracle
- * @dev Mock Chainlink oracle for testing purposes
+ * @dev Mock Chainlink oracle for testing purposes. A failure mode makes every round it reports misbehave the way a
+ * broken or malicious feed can, without touching the stored rounds.
  */
 contract MockChainlinkOracle is AggregatorV3Interface {
+    enum FailureMode {
+        None,
+        Revert,
+        ZeroAnswer,
+        NegativeAnswer,
+        StaleTimestamp, // updatedAt moved back by staleAge
+        IncompleteRound, // answeredInRound behind roundId, an answer carried over from an earlier round
+        GasGriefing // burns all the gas it is given
+    }
+
     uint8 public decimals;
     string public description;
     uint256 public version;
 
+    FailureMode public failureMode;
+    uint256 public staleAge;
+
     struct RoundData {
         int256 answer;
         uint256 startedAt;
@@ -22,10 +36,25 @@ contract MockChainlinkOracle is AggregatorV3Interface {
     mapping(uint80 => RoundData) public rounds;
     uint80 public latestRound;
 
+    // Same events as Chainlink's AggregatorInterface, so clients can follow round updates
+    event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt);
+    event NewRound(uint256 indexed roundId, address indexed startedBy, uint256 startedAt);
+    event FailureModeUpdated(FailureMode mode);
+
     constructor(uint8 _decimals, string memory _description) {
         decimals = _decimals;
         description = _description;
         version = 1;
+        staleAge = 1 days;
+    }
+
+    function setFailureMode(FailureMode _mode) external {
+        failureMode = _mode;
+        emit FailureModeUpdated(_mode);
+    }
+
+    function setStaleAge(uint256 _staleAge) external {
+        staleAge = _staleAge;
     }
 
     function updateAnswer(int256 _answer) external {
@@ -36,6 +65,9 @@ contract MockChainlinkOracle is AggregatorV3Interface {
             updatedAt: block.timestamp,
             answeredInRound: latestRound
         });
+
+        emit NewRound(latestRound, msg.sender, block.timestamp);
+        emit AnswerUpdated(_answer, latestRound, block.timestamp);
     }
 
     function getRoundData(uint80 _roundId)
@@ -51,7 +83,26 @@ contract MockChainlinkOracle is AggregatorV3Interface {
         )
     {
         RoundData memory round = rounds[_roundId];
-        return (_roundId, round.answer, round.startedAt, round.updatedAt, round.answeredInRound);
+        roundId = _roundId;
+        answer = round.answer;
+        startedAt = round.startedAt;
+        updatedAt = round.updatedAt;
+        answeredInRound = round.answeredInRound;
+
+        if (failureMode == FailureMode.Revert) {
+            revert("MockChainlinkOracle: forced failure");
+        } else if (failureMode == FailureMode.ZeroAnswer) {
+            answer = 0;
+        } else if (failureMode == FailureMode.NegativeAnswer) {
+            answer = answer > 0 ? -answer : int256(-1);
+        } else if (failureMode == FailureMode.StaleTimestamp) {
+            updatedAt = updatedAt > staleAge ? updatedAt - staleAge : 1;
+            startedAt = updatedAt;
+        } else if (failureMode == FailureMode.IncompleteRound) {
+            answeredInRound = _roundId > 0 ? _roundId - 1 : 0;
+        } else if (failureMode == FailureMode.GasGriefing) {
+            while (gasleft() > 0) {}
+        }
     }
 
     function latestRoundData()
@@ -7,7 +7,8 @@ import "@chainlink/contracts/src/v0.8/interfaces/AggregatorV3Interface.sol";
 
 /**
  * @title OracleAggregator
- * @dev Aggregates price data from multiple oracle sources with weighted averaging
+ * @dev Aggregates price data from multiple oracle sources. Sources further than the outlier threshold from the
+ * weighted median are discarded before the selected aggregation mode combines the rest.
  */
 contract OracleAggregator is Initializable, AccessControlUpgradeable {
     bytes32 public constant ORACLE_MANAGER_ROLE = keccak256("ORACLE_MANAGER_ROLE");
@@ -21,6 +22,35 @@ contract OracleAggregator is Initializable, AccessControlUpgradeable {
         string description;
     }
 
+    enum AggregationMode {
+        WeightedMean,
+        WeightedMedian,
+        TrimmedMean // weighted mean without the lowest and highest price, once three or more sources remain
+    }
+
+    // Why a source did not contribute to the aggregated price; None when it did
+    enum ExclusionReason {
+        None,
+        Inactive,
+        CallFailed,
+        InvalidAnswer,
+        Stale,
+        Outlier,
+        Trimmed
+    }
+
+    struct SourceReading {
+        string key;
+        address oracle;
+        int256 answer; // as reported, in the feed's decimals
+        uint256 price; // normalized to 18 decimals, 0 when unusable
+        uint256 weight;
+        uint256 updatedAt;
+        uint256 age; // seconds since updatedAt
+        uint256 heartbeat;
+        ExclusionReason exclusion;
+    }
+
     struct PriceData {
         uint256 price;
         uint256 timestamp;
@@ -33,16 +63,39 @@ contract OracleAggregator is Initializable, AccessControlUpgradeable {
     uint256 public constant PRICE_PRECISION = 1e18;
     uint256 public constant MAX_PRICE_DEVIATION = 20e16; // 20%
     uint256 public constant MIN_ORACLES_REQUIRED = 1;
+    // Gas forwarded to each feed's latestRoundData, so a feed that burns all it is given only fails its own reading
+    uint256 public constant ORACLE_CALL_GAS = 100000;
+
+    AggregationMode public aggregationMode;
+    // Maximum distance from the weighted median, 18 decimals; zero on proxies upgraded from before it was configurable
+    uint256 public outlierThreshold;
     
     event OracleAdded(string indexed key, address oracle, uint256 weight);
     event OracleUpdated(string indexed key, address oracle, uint256 weight);
     event OracleRemoved(string indexed key);
+    event OracleDeactivated(string indexed key);
+    event OracleActivated(string indexed key);
     event PriceUpdated(uint256 price, uint256 timestamp, uint256 confidence);
+    event AggregationModeUpdated(AggregationMode mode);
+    event OutlierThresholdUpdated(uint256 oldThreshold, uint256 newThreshold);
 
     function initialize(address admin) public initializer {
         __AccessControl_init();
         _grantRole(DEFAULT_ADMIN_ROLE, admin);
         _grantRole(ORACLE_MANAGER_ROLE, admin);
+
+        outlierThreshold = MAX_PRICE_DEVIATION;
+    }
+
+    function setAggregationMode(AggregationMode mode) external onlyRole(ORACLE_MANAGER_ROLE) {
+        aggregationMode = mode;
+        emit AggregationModeUpdated(mode);
+    }
+
+    function setOutlierThreshold(uint256 threshold) external onlyRole(ORACLE_MANAGER_ROLE) {
+        require(threshold > 0 && threshold <= PRICE_PRECISION, "Outlier threshold out of bounds");
+        emit OutlierThresholdUpdated(outlierThreshold, threshold);
+        outlierThreshold = threshold;
     }
 
     function addOracle(
@@ -55,7 +108,7 @@ contract OracleAggregator is Initializable, AccessControlUpgradeable {
     ) external onlyRole(ORACLE_MANAGER_ROLE) {
         require(oracle != address(0), "Invalid oracle address");
         require(weight > 0, "Weight must be positive");
-        require(!oracles[key].isActive, "Oracle already exists");
+        require(_indexOf(key) == oracleKeys.length, "Oracle already exists");
 
         oracles[key] = OracleConfig({
             oracle: oracle,
@@ -75,7 +128,7 @@ contract OracleAggregator is Initializable, AccessControlUpgradeable {
         uint256 weight,
         uint256 heartbeat
     ) external onlyRole(ORACLE_MANAGER_ROLE) {
-        require(oracles[key].isActive, "Oracle does not exist");
+        require(_indexOf(key) < oracleKeys.length, "Oracle does not exist");
         require(weight > 0, "Weight must be positive");
 
         oracles[key].weight = weight;
@@ -84,71 +137,258 @@ contract OracleAggregator is Initializable, AccessControlUpgradeable {
     }
 
     function removeOracle(string memory key) external onlyRole(ORACLE_MANAGER_ROLE) {
-        require(oracles[key].isActive, "Oracle does not exist");
+        uint256 index = _indexOf(key);
+        require(index < oracleKeys.length, "Oracle does not exist");
         
         oracles[key].isActive = false;
         
         // Remove from array
-        for (uint i = 0; i < oracleKeys.length; i++) {
-            if (keccak256(bytes(oracleKeys[i])) == keccak256(bytes(key))) {
-                oracleKeys[i] = oracleKeys[oracleKeys.length - 1];
-                oracleKeys.pop();
-                break;
-            }
-        }
+        oracleKeys[index] = oracleKeys[oracleKeys.length - 1];
+        oracleKeys.pop();
         
         emit OracleRemoved(key);
     }
 
+    /**
+     * @dev Leaves the source registered but out of the aggregated price and the confidence weight until reactivated
+     */
+    function deactivateOracle(string memory key) external onlyRole(ORACLE_MANAGER_ROLE) {
+        require(oracles[key].isActive, "Oracle is not active");
+
+        oracles[key].isActive = false;
+        emit OracleDeactivated(key);
+    }
+
+    function activateOracle(string memory key) external onlyRole(ORACLE_MANAGER_ROLE) {
+        require(_indexOf(key) < oracleKeys.length, "Oracle does not exist");
+        require(!oracles[key].isActive, "Oracle already active");
+
+        oracles[key].isActive = true;
+        emit OracleActivated(key);
+    }
+
+    /**
+     * @dev Every registered key with its configuration, deactivated sources included
+     */
+    function getOracles() external view returns (string[] memory keys, OracleConfig[] memory configs) {
+        keys = oracleKeys;
+        configs = new OracleConfig[](keys.length);
+        for (uint i = 0; i < keys.length; i++) {
+            configs[i] = oracles[keys[i]];
+        }
+    }
+
     function getAggregatedPrice() external view returns (uint256 price, uint256 timestamp, uint256 confidence) {
+        (price, timestamp, confidence, ) = _aggregate();
+    }
+
+    /**
+     * @dev Every registered source as last read: its answer, normalized price, age against its heartbeat, and why it
+     * was left out of the aggregated price, if it was. Unlike getAggregatedPrice this does not revert without valid
+     * data.
+     */
+    function getSourceDiagnostics() external view returns (SourceReading[] memory) {
+        return _evaluateSources();
+    }
+
+    /**
+     * @dev The aggregated price along with the sources left out of it and why
+     */
+    function getAggregationReport() external view returns (
+        uint256 price,
+        uint256 timestamp,
+        uint256 confidence,
+        string[] memory excludedKeys,
+        ExclusionReason[] memory reasons
+    ) {
+        SourceReading[] memory readings;
+        (price, timestamp, confidence, readings) = _aggregate();
+
+        uint256 excluded = 0;
+        for (uint i = 0; i < readings.length; i++) {
+            if (readings[i].exclusion != ExclusionReason.None) excluded++;
+        }
+        excludedKeys = new string[](excluded);
+        reasons = new ExclusionReason[](excluded);
+        uint256 next = 0;
+        for (uint i = 0; i < readings.length; i++) {
+            if (readings[i].exclusion == ExclusionReason.None) continue;
+            excludedKeys[next] = readings[i].key;
+            reasons[next] = readings[i].exclusion;
+            next++;
+        }
+    }
+
+    function _aggregate() internal view returns (
+        uint256 price,
+        uint256 timestamp,
+        uint256 confidence,
+        SourceReading[] memory readings
+    ) {
         require(oracleKeys.length >= MIN_ORACLES_REQUIRED, "Insufficient oracles");
 
+        readings = _evaluateSources();
+
         uint256 totalWeight = 0;
         uint256 weightedSum = 0;
         uint256 oldestTimestamp = type(uint256).max;
         uint256 validOracles = 0;
 
+        for (uint i = 0; i < readings.length; i++) {
+            SourceReading memory reading = readings[i];
+            if (reading.exclusion != ExclusionReason.None) continue;
+
+            weightedSum += reading.price * reading.weight;
+            totalWeight += reading.weight;
+            validOracles++;
+
+            if (reading.updatedAt < oldestTimestamp) {
+                oldestTimestamp = reading.updatedAt;
+            }
+        }
+
+        require(validOracles >= MIN_ORACLES_REQUIRED, "Insufficient valid oracles");
+        require(totalWeight > 0, "No valid oracle data");
+
+        price = aggregationMode == AggregationMode.WeightedMedian
+            ? _weightedMedian(readings)
+            : weightedSum / totalWeight;
+        timestamp = oldestTimestamp;
+        confidence = _confidence(readings, price);
+    }
+
+    function _evaluateSources() internal view returns (SourceReading[] memory readings) {
+        readings = _readSources();
+        _rejectOutliers(readings);
+        if (aggregationMode == AggregationMode.TrimmedMean) _trimExtremes(readings);
+    }
+
+    // Share of the active weight with a sound price (included or trimmed), scaled down by the weighted mean distance
+    // of those prices from the aggregated price. A spread as wide as the outlier threshold leaves no confidence.
+    function _confidence(SourceReading[] memory readings, uint256 price) internal view returns (uint256) {
+        uint256 activeWeight = 0;
+        uint256 soundWeight = 0;
+        uint256 weightedDistance = 0;
+
+        for (uint i = 0; i < readings.length; i++) {
+            SourceReading memory reading = readings[i];
+            if (reading.exclusion == ExclusionReason.Inactive) continue;
+            activeWeight += reading.weight;
+            if (reading.exclusion != ExclusionReason.None && reading.exclusion != ExclusionReason.Trimmed) continue;
+
+            uint256 distance = reading.price > price ? reading.price - price : price - reading.price;
+            weightedDistance += ((distance * PRICE_PRECISION) / price) * reading.weight;
+            soundWeight += reading.weight;
+        }
+
+        uint256 threshold = _outlierThreshold();
+        uint256 dispersion = weightedDistance / soundWeight;
+        if (dispersion >= threshold) return 0;
+        return (soundWeight * 100 * (threshold - dispersion)) / (activeWeight * threshold);
+    }
+
+    function _outlierThreshold() internal view returns (uint256) {
+        return outlierThreshold == 0 ? MAX_PRICE_DEVIATION : outlierThreshold;
+    }
+
+    function _readSources() internal view returns (SourceReading[] memory readings) {
+        readings = new SourceReading[](oracleKeys.length);
+
         for (uint i = 0; i < oracleKeys.length; i++) {
             string memory key = oracleKeys[i];
             OracleConfig memory config = oracles[key];
-            
-            if (!config.isActive) continue;
+            readings[i].key = key;
+            readings[i].oracle = config.oracle;
+            readings[i].weight = config.weight;
+            readings[i].heartbeat = config.heartbeat;
+            if (!config.isActive) {
+                readings[i].exclusion = ExclusionReason.Inactive;
+                continue;
+            }
 
-            try AggregatorV3Interface(config.oracle).latestRoundData() returns (
-                uint80,
+            try AggregatorV3Interface(config.oracle).latestRoundData{gas: ORACLE_CALL_GAS}() returns (
+                uint80 roundId,
                 int256 answer,
                 uint256,
                 uint256 updatedAt,
-                uint80
+                uint80 answeredInRound
             ) {
-                if (answer > 0 && updatedAt > 0) {
-                    // Check if data is fresh
-                    if (block.timestamp - updatedAt <= config.heartbeat) {
-                        uint256 normalizedPrice = _normalizePrice(uint256(answer), config.decimals);
-                        
-                        weightedSum += normalizedPrice * config.weight;
-                        totalWeight += config.weight;
-                        validOracles++;
-                        
-                        if (updatedAt < oldestTimestamp) {
-                            oldestTimestamp = updatedAt;
-                        }
-                    }
+                readings[i].answer = answer;
+                readings[i].updatedAt = updatedAt;
+                if (updatedAt <= block.timestamp) readings[i].age = block.timestamp - updatedAt;
+                if (answer <= 0 || updatedAt == 0) {
+                    readings[i].exclusion = ExclusionReason.InvalidAnswer;
+                } else if (readings[i].age > config.heartbeat || answeredInRound < roundId) {
+                    // An answer carried over from an earlier round is as old as that round
+                    readings[i].exclusion = ExclusionReason.Stale;
+                } else {
+                    readings[i].price = _normalizePrice(uint256(answer), config.decimals);
                 }
             } catch {
-                // Oracle call failed, skip this oracle
-                continue;
+                readings[i].exclusion = ExclusionReason.CallFailed;
             }
         }
+    }
 
-        require(validOracles >= MIN_ORACLES_REQUIRED, "Insufficient valid oracles");
-        require(totalWeight > 0, "No valid oracle data");
+    // Marks sources further than the outlier threshold from the weighted median of all usable sources
+    function _rejectOutliers(SourceReading[] memory readings) internal view {
+        uint256 median = _weightedMedian(readings);
+        if (median == 0) return;
+        uint256 threshold = _outlierThreshold();
 
-        price = weightedSum / totalWeight;
-        timestamp = oldestTimestamp;
-        confidence = (validOracles * 100) / oracleKeys.length;
+        for (uint i = 0; i < readings.length; i++) {
+            if (readings[i].exclusion != ExclusionReason.None) continue;
+            uint256 price = readings[i].price;
+            uint256 distance = price > median ? price - median : median - price;
+            if ((distance * PRICE_PRECISION) / median > threshold) {
+                readings[i].exclusion = ExclusionReason.Outlier;
+            }
+        }
+    }
 
-        return (price, timestamp, confidence);
+    // Leaves out the lowest and highest included price (one source each) when at least three are included
+    function _trimExtremes(SourceReading[] memory readings) internal pure {
+        uint256[] memory order = _sortedIncluded(readings);
+        if (order.length < 3) return;
+        readings[order[0]].exclusion = ExclusionReason.Trimmed;
+        readings[order[order.length - 1]].exclusion = ExclusionReason.Trimmed;
+    }
+
+    // Lower weighted median of the included sources: the lowest price with at least half the weight at or below it
+    function _weightedMedian(SourceReading[] memory readings) internal pure returns (uint256) {
+        uint256[] memory order = _sortedIncluded(readings);
+        uint256 totalWeight = 0;
+        for (uint i = 0; i < order.length; i++) {
+            totalWeight += readings[order[i]].weight;
+        }
+
+        uint256 cumulativeWeight = 0;
+        for (uint i = 0; i < order.length; i++) {
+            cumulativeWeight += readings[order[i]].weight;
+            if (cumulativeWeight * 2 >= totalWeight) return readings[order[i]].price;
+        }
+        return 0;
+    }
+
+    // Indexes of the included sources ordered by price; insertion sort, as there are only a handful of sources
+    function _sortedIncluded(SourceReading[] memory readings) internal pure returns (uint256[] memory order) {
+        uint256 count = 0;
+        for (uint i = 0; i < readings.length; i++) {
+            if (readings[i].exclusion == ExclusionReason.None) count++;
+        }
+
+        order = new uint256[](count);
+        uint256 filled = 0;
+        for (uint i = 0; i < readings.length; i++) {
+            if (readings[i].exclusion != ExclusionReason.None) continue;
+            uint256 j = filled;
+            while (j > 0 && readings[order[j - 1]].price > readings[i].price) {
+                order[j] = order[j - 1];
+                j--;
+            }
+            order[j] = i;
+            filled++;
+        }
     }
 
     function _normalizePrice(uint256 price, uint8 decimals) internal pure returns (uint256) {
@@ -161,12 +401,22 @@ contract OracleAggregator is Initializable, AccessControlUpgradeable {
         }
     }
 
+    // Position of the key in oracleKeys, or oracleKeys.length when it is not registered
+    function _indexOf(string memory key) internal view returns (uint256) {
+        bytes32 hash = keccak256(bytes(key));
+        for (uint i = 0; i < oracleKeys.length; i++) {
+            if (keccak256(bytes(oracleKeys[i])) == hash) return i;
+        }
+        return oracleKeys.length;
+    }
+
+    // Registered sources, deactivated ones included
     function getOracleCount() external view returns (uint256) {
         return oracleKeys.length;
     }
 
     function isHealthy() external view returns (bool) {
         (, , uint256 confidence) = this.getAggregatedPrice();
-        return confidence >= 50; // At least 50% of oracles must be working
+        return confidence >= 50; // At least half the active weight must be fresh and in agreement
     }
 }
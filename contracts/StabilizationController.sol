@@ -19,21 +19,14 @@ contract StabilizationController is Initializable, AccessControlUpgradeable, Pau
     OracleAggregator public oracleAggregator;
     Treasury public treasury;
 
-    uint256 public constant TARGET_PRICE = 1e18; // $1.00
-    uint256 public constant REBASE_COOLDOWN = 12 hours;
-    uint256 public constant MAX_REBASE_PERCENTAGE = 10e16; // 10%
-    
-    // Stability bands with different response intensities
-    uint256 public constant BAND_1_THRESHOLD = 1e16;  // 1%
-    uint256 public constant BAND_2_THRESHOLD = 5e16;  // 5%
-    uint256 public constant BAND_3_THRESHOLD = 10e16; // 10%
-    uint256 public constant BAND_4_THRESHOLD = 20e16; // 20%
-
-    // Dampening factors for each band
-    uint256 public constant BAND_1_DAMPING = 10e16;  // 10%
-    uint256 public constant BAND_2_DAMPING = 25e16;  // 25%
-    uint256 public constant BAND_3_DAMPING = 50e16;  // 50%
-    uint256 public constant BAND_4_DAMPING = 75e16;  // 75%
+    // Bounds enforced on the governable parameters below
+    uint256 public constant MIN_TARGET_PRICE = 5e17; // $0.50
+    uint256 public constant MAX_TARGET_PRICE = 2e18; // $2.00
+    uint256 public constant MIN_REBASE_COOLDOWN = 1 hours;
+    uint256 public constant MAX_REBASE_COOLDOWN = 7 days;
+    uint256 public constant MAX_REBASE_LIMIT = 50e16; // 50%
+    uint256 public constant MAX_BAND_THRESHOLD = 50e16; // 50%
+    uint256 public constant MAX_DAMPING = 1e18; // 100%
 
     uint256 public lastRebaseTime;
     uint256 public rebaseCount;
@@ -49,6 +42,23 @@ contract StabilizationController is Initializable, AccessControlUpgradeable, Pau
 
     mapping(uint256 => RebaseData) public rebaseHistory;
 
+    struct PolicyParameters {
+        uint256 targetPrice;
+        uint256 rebaseCooldown;
+        uint256 maxRebasePercentage;
+        uint256[4] bandThresholds; // bands 1-4, band 4 trips the circuit breaker
+        uint256[4] bandDampings;
+        uint256 minOracleConfidence; // aggregator confidence required to rebase, 0 to 100
+    }
+
+    // Governable policy; appended after the original layout so existing proxies can upgrade in place
+    uint256 public targetPrice;
+    uint256 public rebaseCooldown;
+    uint256 public maxRebasePercentage;
+    uint256[4] public bandThresholds;
+    uint256[4] public bandDampings;
+    uint256 public minOracleConfidence;
+
     event RebaseExecuted(
         uint256 indexed epoch,
         uint256 price,
@@ -58,6 +68,7 @@ contract StabilizationController is Initializable, AccessControlUpgradeable, Pau
     );
     event CircuitBreakerTriggered(uint256 price, uint256 deviation);
     event CircuitBreakerReset();
+    event ParameterUpdated(string parameter, uint256 oldValue, uint256 newValue);
 
     function initialize(
         address admin,
@@ -74,6 +85,139 @@ contract StabilizationController is Initializable, AccessControlUpgradeable, Pau
         ecashToken = ECashToken(_ecashToken);
         oracleAggregator = OracleAggregator(_oracleAggregator);
         treasury = Treasury(_treasury);
+
+        _setPolicyParameters(defaultPolicyParameters());
+    }
+
+    /**
+     * @dev Sets the default policy on proxies deployed before the parameters were governable, where they read as zero.
+     * Meant to run in the upgrade transaction (ProxyAdmin.upgradeAndCall), where the caller is the ProxyAdmin rather
+     * than an admin of this contract; the reinitializer makes it single-use and it only ever loads the defaults.
+     */
+    function initializePolicyParameters() external reinitializer(2) {
+        require(targetPrice == 0, "Policy parameters already set");
+        _setPolicyParameters(defaultPolicyParameters());
+    }
+
+    function defaultPolicyParameters() public pure returns (PolicyParameters memory params) {
+        params.targetPrice = 1e18; // $1.00
+        params.rebaseCooldown = 12 hours;
+        params.maxRebasePercentage = 10e16; // 10%
+        params.bandThresholds = [uint256(1e16), 5e16, 10e16, 20e16]; // 1%, 5%, 10%, 20%
+        params.bandDampings = [uint256(10e16), 25e16, 50e16, 75e16]; // 10%, 25%, 50%, 75%
+        params.minOracleConfidence = 50;
+    }
+
+    function getPolicyParameters() external view returns (PolicyParameters memory) {
+        return PolicyParameters({
+            targetPrice: targetPrice,
+            rebaseCooldown: rebaseCooldown,
+            maxRebasePercentage: maxRebasePercentage,
+            bandThresholds: bandThresholds,
+            bandDampings: bandDampings,
+            minOracleConfidence: minOracleConfidence
+        });
+    }
+
+    // Getters for the constants the policy parameters replaced, so existing integrations keep working
+
+    function TARGET_PRICE() external view returns (uint256) {
+        return targetPrice;
+    }
+
+    function REBASE_COOLDOWN() external view returns (uint256) {
+        return rebaseCooldown;
+    }
+
+    function MAX_REBASE_PERCENTAGE() external view returns (uint256) {
+        return maxRebasePercentage;
+    }
+
+    function BAND_1_THRESHOLD() external view returns (uint256) {
+        return bandThresholds[0];
+    }
+
+    function BAND_2_THRESHOLD() external view returns (uint256) {
+        return bandThresholds[1];
+    }
+
+    function BAND_3_THRESHOLD() external view returns (uint256) {
+        return bandThresholds[2];
+    }
+
+    function BAND_4_THRESHOLD() external view returns (uint256) {
+        return bandThresholds[3];
+    }
+
+    function BAND_1_DAMPING() external view returns (uint256) {
+        return bandDampings[0];
+    }
+
+    function BAND_2_DAMPING() external view returns (uint256) {
+        return bandDampings[1];
+    }
+
+    function BAND_3_DAMPING() external view returns (uint256) {
+        return bandDampings[2];
+    }
+
+    function BAND_4_DAMPING() external view returns (uint256) {
+        return bandDampings[3];
+    }
+
+    function setPolicyParameters(PolicyParameters calldata params) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setPolicyParameters(params);
+    }
+
+    function _setPolicyParameters(PolicyParameters memory params) internal {
+        require(
+            params.targetPrice >= MIN_TARGET_PRICE && params.targetPrice <= MAX_TARGET_PRICE,
+            "Target price out of bounds"
+        );
+        require(
+            params.rebaseCooldown >= MIN_REBASE_COOLDOWN && params.rebaseCooldown <= MAX_REBASE_COOLDOWN,
+            "Rebase cooldown out of bounds"
+        );
+        require(
+            params.maxRebasePercentage > 0 && params.maxRebasePercentage <= MAX_REBASE_LIMIT,
+            "Max rebase percentage out of bounds"
+        );
+        require(params.bandThresholds[0] > 0, "Band thresholds must be positive");
+        for (uint i = 1; i < 4; i++) {
+            require(params.bandThresholds[i] > params.bandThresholds[i - 1], "Band thresholds must increase");
+        }
+        require(params.bandThresholds[3] <= MAX_BAND_THRESHOLD, "Band threshold out of bounds");
+        for (uint i = 0; i < 4; i++) {
+            require(params.bandDampings[i] <= MAX_DAMPING, "Damping factor out of bounds");
+        }
+        require(
+            params.minOracleConfidence > 0 && params.minOracleConfidence <= 100,
+            "Min oracle confidence out of bounds"
+        );
+
+        _updateParameter("targetPrice", targetPrice, params.targetPrice);
+        targetPrice = params.targetPrice;
+        _updateParameter("rebaseCooldown", rebaseCooldown, params.rebaseCooldown);
+        rebaseCooldown = params.rebaseCooldown;
+        _updateParameter("maxRebasePercentage", maxRebasePercentage, params.maxRebasePercentage);
+        maxRebasePercentage = params.maxRebasePercentage;
+        for (uint i = 0; i < 4; i++) {
+            _updateParameter(_bandParameter("bandThreshold", i), bandThresholds[i], params.bandThresholds[i]);
+            bandThresholds[i] = params.bandThresholds[i];
+            _updateParameter(_bandParameter("bandDamping", i), bandDampings[i], params.bandDampings[i]);
+            bandDampings[i] = params.bandDampings[i];
+        }
+        _updateParameter("minOracleConfidence", minOracleConfidence, params.minOracleConfidence);
+        minOracleConfidence = params.minOracleConfidence;
+    }
+
+    function _updateParameter(string memory parameter, uint256 oldValue, uint256 newValue) internal {
+        if (oldValue != newValue) emit ParameterUpdated(parameter, oldValue, newValue);
+    }
+
+    // e.g. "bandThreshold1" for index 0, numbered like the bands
+    function _bandParameter(string memory prefix, uint256 index) internal pure returns (string memory) {
+        return string(abi.encodePacked(prefix, bytes1(uint8(49 + index))));
     }
 
     function rebase() external onlyRole(OPERATOR_ROLE) whenNotPaused {
@@ -81,20 +225,22 @@ contract StabilizationController is Initializable, AccessControlUpgradeable, Pau
         require(canRebase(), "Rebase conditions not met");
 
         (uint256 price, uint256 timestamp, uint256 confidence) = oracleAggregator.getAggregatedPrice();
-        require(confidence >= 50, "Insufficient oracle confidence");
+        require(confidence >= minOracleConfidence, "Insufficient oracle confidence");
 
+        // Read the bands from storage once
+        uint256[4] memory thresholds = bandThresholds;
         uint256 deviation = _calculateDeviation(price);
-        uint8 stabilityBand = _getStabilityBand(deviation);
+        uint8 stabilityBand = _getStabilityBand(deviation, thresholds);
 
         // Check circuit breaker conditions
-        if (deviation >= BAND_4_THRESHOLD) {
+        if (deviation >= thresholds[3]) {
             circuitBreakerActive = true;
             emit CircuitBreakerTriggered(price, deviation);
             return;
         }
 
         // Calculate supply adjustment
-        int256 supplyDelta = _calculateSupplyDelta(price, stabilityBand);
+        int256 supplyDelta = _calculateSupplyDelta(price, deviation, _getDampingFactor(stabilityBand));
         
         if (supplyDelta != 0) {
             uint256 newSupply = ecashToken.rebase(supplyDelta);
@@ -114,12 +260,14 @@ contract StabilizationController is Initializable, AccessControlUpgradeable, Pau
         }
     }
 
-    function _calculateSupplyDelta(uint256 price, uint8 stabilityBand) internal view returns (int256) {
-        if (price == TARGET_PRICE) return 0;
+    function _calculateSupplyDelta(
+        uint256 price,
+        uint256 deviation,
+        uint256 dampingFactor
+    ) internal view returns (int256) {
+        if (deviation == 0) return 0;
 
         uint256 currentSupply = ecashToken.totalSupply();
-        uint256 deviation = _calculateDeviation(price);
-        uint256 dampingFactor = _getDampingFactor(stabilityBand);
 
         // Calculate raw adjustment
         uint256 rawAdjustment = (currentSupply * deviation) / 1e18;
@@ -128,41 +276,38 @@ contract StabilizationController is Initializable, AccessControlUpgradeable, Pau
         uint256 dampedAdjustment = (rawAdjustment * dampingFactor) / 1e18;
         
         // Cap at maximum rebase percentage
-        uint256 maxAdjustment = (currentSupply * MAX_REBASE_PERCENTAGE) / 1e18;
+        uint256 maxAdjustment = (currentSupply * maxRebasePercentage) / 1e18;
         if (dampedAdjustment > maxAdjustment) {
             dampedAdjustment = maxAdjustment;
         }
 
         // Return positive for expansion, negative for contraction
-        return price > TARGET_PRICE ? int256(dampedAdjustment) : -int256(dampedAdjustment);
+        return price > targetPrice ? int256(dampedAdjustment) : -int256(dampedAdjustment);
     }
 
-    function _calculateDeviation(uint256 price) internal pure returns (uint256) {
-        if (price >= TARGET_PRICE) {
-            return ((price - TARGET_PRICE) * 1e18) / TARGET_PRICE;
+    function _calculateDeviation(uint256 price) internal view returns (uint256) {
+        if (price >= targetPrice) {
+            return ((price - targetPrice) * 1e18) / targetPrice;
         } else {
-            return ((TARGET_PRICE - price) * 1e18) / TARGET_PRICE;
+            return ((targetPrice - price) * 1e18) / targetPrice;
         }
     }
 
-    function _getStabilityBand(uint256 deviation) internal pure returns (uint8) {
-        if (deviation >= BAND_4_THRESHOLD) return 4;
-        if (deviation >= BAND_3_THRESHOLD) return 3;
-        if (deviation >= BAND_2_THRESHOLD) return 2;
-        if (deviation >= BAND_1_THRESHOLD) return 1;
+    function _getStabilityBand(uint256 deviation, uint256[4] memory thresholds) internal pure returns (uint8) {
+        if (deviation >= thresholds[3]) return 4;
+        if (deviation >= thresholds[2]) return 3;
+        if (deviation >= thresholds[1]) return 2;
+        if (deviation >= thresholds[0]) return 1;
         return 0;
     }
 
-    function _getDampingFactor(uint8 band) internal pure returns (uint256) {
-        if (band == 4) return BAND_4_DAMPING;
-        if (band == 3) return BAND_3_DAMPING;
-        if (band == 2) return BAND_2_DAMPING;
-        if (band == 1) return BAND_1_DAMPING;
+    function _getDampingFactor(uint8 band) internal view returns (uint256) {
+        if (band >= 1 && band <= 4) return bandDampings[band - 1];
         return 0;
     }
 
     function canRebase() public view returns (bool) {
-        return block.timestamp >= lastRebaseTime + REBASE_COOLDOWN;
+        return block.timestamp >= lastRebaseTime + rebaseCooldown;
     }
 
     function previewRebase() external view returns (
@@ -174,12 +319,12 @@ contract StabilizationController is Initializable, AccessControlUpgradeable, Pau
     ) {
         canExecute = canRebase() && !circuitBreakerActive;
         
-        try oracleAggregator.getAggregatedPrice() returns (uint256 price, , uint256 confidence) {
-            if (confidence >= 50) {
+        try oracleAggregator.getAggregatedPrice() returns (uint256 price, uint256, uint256 confidence) {
+            if (confidence >= minOracleConfidence) {
                 currentPrice = price;
                 deviation = _calculateDeviation(price);
-                stabilityBand = _getStabilityBand(deviation);
-                projectedSupplyDelta = _calculateSupplyDelta(price, stabilityBand);
+                stabilityBand = _getStabilityBand(deviation, bandThresholds);
+                projectedSupplyDelta = _calculateSupplyDelta(price, deviation, _getDampingFactor(stabilityBand));
             }
         } catch {
             canExecute = false;
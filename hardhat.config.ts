@@ -4,6 +4,11 @@ import "@openzeppelin/hardhat-upgrades"
 import "hardhat-gas-reporter"
 import "@nomiclabs/hardhat-etherscan"
 import * as dotenv from "dotenv"
+import "./tasks/keeper"
+import "./tasks/replay"
+import "./tasks/scenarios"
+import "./tasks/simulate"
+import "./tasks/time-travel"
 
 dotenv.config()
 
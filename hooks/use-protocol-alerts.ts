@@ -0,0 +1,72 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import {
+  createNotifications,
+  diffAlerts,
+  evaluateAlerts,
+  sendAlertWebhook,
+  type Alert,
+  type AlertSettings,
+} from "../lib/alerts"
+import type { ProtocolState } from "../lib/protocol-store"
+import { toast } from "./use-toast"
+
+export interface WebhookDelivery {
+  type: string
+  kind: string
+  blockNumber: number
+  error: string | null
+}
+
+/**
+ * Evaluates the alert thresholds on every new protocol status. Newly raised alerts show a toast and, like resolved
+ * ones, are posted to the webhook when one is configured.
+ */
+export function useProtocolAlerts(state: ProtocolState, chainId: number, settings: AlertSettings) {
+  const [active, setActive] = useState<Alert[]>([])
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const activeRef = useRef<Alert[]>([])
+  const { status, blockNumber, timestamp } = state
+
+  useEffect(() => {
+    if (!status) {
+      activeRef.current = []
+      setActive([])
+      return
+    }
+
+    const current = evaluateAlerts(status, timestamp, settings.thresholds)
+    const changes = diffAlerts(activeRef.current, current)
+    activeRef.current = current
+    setActive(current)
+
+    if (changes.raised.length > 0) {
+      // The toaster shows one toast at a time, so alerts raised by the same update share it
+      toast({
+        title: changes.raised.map((alert) => alert.title).join(" · "),
+        description: changes.raised.map((alert) => alert.message).join("\n"),
+        variant: changes.raised.some((alert) => alert.severity === "critical") ? "destructive" : "default",
+      })
+    }
+
+    if (!settings.webhookUrl) return
+    for (const notification of createNotifications(chainId, { blockNumber, timestamp }, changes)) {
+      const record = (error: string | null) =>
+        setDeliveries((previous) =>
+          [
+            { type: notification.type, kind: notification.alert.kind, blockNumber, error },
+            ...previous,
+          ].slice(0, 10),
+        )
+      sendAlertWebhook(settings.webhookUrl, notification)
+        .then(() => record(null))
+        .catch((error) => {
+          console.error("Failed to post alert webhook:", error)
+          record(error.message)
+        })
+    }
+  }, [status, blockNumber, timestamp, chainId, settings])
+
+  return { active, deliveries }
+}
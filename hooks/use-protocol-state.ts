@@ -0,0 +1,40 @@
+"use client"
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react"
+import type { ethers } from "ethers"
+import type { ProtocolContracts } from "../lib/contracts"
+import { createProtocolStore, idleProtocolState, type ProtocolStore } from "../lib/protocol-store"
+
+const subscribeNothing = () => () => {}
+const getIdleState = () => idleProtocolState
+
+/**
+ * Live protocol state for the connected contracts. The store is recreated whenever the contracts or
+ * provider change, and stopped when the component unmounts.
+ */
+export function useProtocolState(contracts: ProtocolContracts | null, provider: ethers.Provider | null) {
+  const [store, setStore] = useState<ProtocolStore | null>(null)
+
+  useEffect(() => {
+    if (!contracts || !provider) {
+      setStore(null)
+      return
+    }
+
+    const protocolStore = createProtocolStore(contracts, provider)
+    setStore(protocolStore)
+    protocolStore.start().catch((error) => console.error("Failed to start protocol store:", error))
+    return () => protocolStore.stop()
+  }, [contracts, provider])
+
+  const state = useSyncExternalStore(
+    store?.subscribe ?? subscribeNothing,
+    store?.getState ?? getIdleState,
+    getIdleState,
+  )
+  const refresh = useCallback(async () => {
+    await store?.refresh()
+  }, [store])
+
+  return { ...state, refresh }
+}
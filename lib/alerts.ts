@@ -0,0 +1,147 @@
+// Threshold alerts on the protocol status, raised as dashboard toasts and posted to an optional webhook
+import type { ProtocolSnapshot, ProtocolStatus } from "./protocol-store"
+
+export type AlertKind = "deviation" | "stabilityBand" | "oracleConfidence" | "rebaseOverdue" | "circuitBreaker"
+export type AlertSeverity = "warning" | "critical"
+
+// A null threshold disables that alert
+export interface AlertThresholds {
+  deviationPercent: number | null // alert when the price is at least this far from target
+  stabilityBand: number | null // alert from this band upwards
+  minOracleConfidence: number | null // alert below this confidence
+  hoursSinceRebase: number | null // alert when the last rebase is older than this
+  circuitBreaker: boolean
+}
+
+export interface AlertSettings {
+  thresholds: AlertThresholds
+  webhookUrl: string // empty to only show toasts
+}
+
+export interface Alert {
+  kind: AlertKind
+  severity: AlertSeverity
+  title: string
+  message: string
+}
+
+export interface AlertNotification {
+  type: "alert.raised" | "alert.resolved"
+  alert: Alert
+  chainId: number
+  blockNumber: number
+  timestamp: number // block timestamp, seconds
+}
+
+export const defaultAlertThresholds: AlertThresholds = {
+  deviationPercent: 2,
+  stabilityBand: 2,
+  minOracleConfidence: 75,
+  hoursSinceRebase: 24,
+  circuitBreaker: true,
+}
+
+const severityRank: Record<AlertSeverity, number> = { warning: 0, critical: 1 }
+
+/**
+ * Alerts active for a status read at the given block timestamp. Band 4 and a tripped breaker are critical,
+ * everything else is a warning.
+ */
+export function evaluateAlerts(status: ProtocolStatus, timestamp: number, thresholds: AlertThresholds): Alert[] {
+  const alerts: Alert[] = []
+  const price = Number(status.currentPrice)
+  const deviationPercent = Number(status.deviation) * 100
+  const confidence = Number(status.oracleConfidence)
+
+  if (thresholds.deviationPercent !== null && deviationPercent >= thresholds.deviationPercent) {
+    alerts.push({
+      kind: "deviation",
+      severity: "warning",
+      title: "Price off target",
+      message: `$${price.toFixed(4)} is ${deviationPercent.toFixed(2)}% from the $${status.targetPrice} target`,
+    })
+  }
+
+  if (thresholds.stabilityBand !== null && status.stabilityBand >= thresholds.stabilityBand) {
+    alerts.push({
+      kind: "stabilityBand",
+      severity: status.stabilityBand >= 4 ? "critical" : "warning",
+      title: `Stability band ${status.stabilityBand}`,
+      message: `The price is in band ${status.stabilityBand} (alerting from band ${thresholds.stabilityBand})`,
+    })
+  }
+
+  if (thresholds.minOracleConfidence !== null && confidence < thresholds.minOracleConfidence) {
+    alerts.push({
+      kind: "oracleConfidence",
+      severity: "warning",
+      title: "Low oracle confidence",
+      message: `Oracle confidence is ${confidence}%, below ${thresholds.minOracleConfidence}%`,
+    })
+  }
+
+  // Before the first rebase there is nothing to measure from
+  const lastRebaseTime = Number(status.lastRebaseTime)
+  if (thresholds.hoursSinceRebase !== null && lastRebaseTime > 0) {
+    const hours = (timestamp - lastRebaseTime) / 3600
+    if (hours >= thresholds.hoursSinceRebase) {
+      alerts.push({
+        kind: "rebaseOverdue",
+        severity: "warning",
+        title: "Rebase overdue",
+        message: `The last rebase was ${hours.toFixed(1)} hours ago (limit ${thresholds.hoursSinceRebase} hours)`,
+      })
+    }
+  }
+
+  if (thresholds.circuitBreaker && status.circuitBreakerActive) {
+    alerts.push({
+      kind: "circuitBreaker",
+      severity: "critical",
+      title: "Circuit breaker active",
+      message: "Rebases are halted until an operator resets the circuit breaker",
+    })
+  }
+
+  return alerts
+}
+
+/**
+ * Compares the alerts active before and after a status update. An alert is raised when it first appears or its
+ * severity goes up, and resolved when it disappears; an alert that stays active is not repeated.
+ */
+export function diffAlerts(previous: Alert[], current: Alert[]) {
+  const raised = current.filter((alert) => {
+    const before = previous.find((candidate) => candidate.kind === alert.kind)
+    return !before || severityRank[alert.severity] > severityRank[before.severity]
+  })
+  const resolved = previous.filter((alert) => !current.some((candidate) => candidate.kind === alert.kind))
+  return { raised, resolved }
+}
+
+export function createNotifications(
+  chainId: number,
+  snapshot: Pick<ProtocolSnapshot, "blockNumber" | "timestamp">,
+  { raised, resolved }: ReturnType<typeof diffAlerts>,
+): AlertNotification[] {
+  const notify = (type: AlertNotification["type"]) => (alert: Alert) => ({
+    type,
+    alert,
+    chainId,
+    blockNumber: snapshot.blockNumber,
+    timestamp: snapshot.timestamp,
+  })
+  return [...raised.map(notify("alert.raised")), ...resolved.map(notify("alert.resolved"))]
+}
+
+// Posts one notification as JSON; the receiver has to accept cross-origin requests when called from the dashboard
+export async function sendAlertWebhook(url: string, notification: AlertNotification) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(notification),
+  })
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`)
+  }
+}
@@ -1,4 +1,11 @@
 // Configuration management for the E-Cash Protocol Dashboard
+import {
+  checkManifestExpectations,
+  getManifestContracts,
+  parseManifestJson,
+  type DeploymentManifest,
+} from "./manifest"
+
 export const config = {
   // Network Configuration - Auto-detect or use environment variable
   chainId: process.env.NEXT_PUBLIC_CHAIN_ID
@@ -27,6 +34,11 @@ export const config = {
     multiNetwork: true, // Enable multi-network support
   },
 
+  // Alert notifications (see lib/alerts.ts); thresholds are adjusted in the dashboard
+  alerts: {
+    webhookUrl: process.env.NEXT_PUBLIC_ALERT_WEBHOOK_URL || "",
+  },
+
   // API Configuration
   infuraProjectId: process.env.NEXT_PUBLIC_INFURA_PROJECT_ID || "",
 
@@ -74,6 +86,7 @@ export const config = {
     ecashToken: process.env.NEXT_PUBLIC_SEPOLIA_ECASH_TOKEN || "",
     oracleAggregator: process.env.NEXT_PUBLIC_SEPOLIA_ORACLE_AGGREGATOR || "",
     stabilizationController: process.env.NEXT_PUBLIC_SEPOLIA_STABILIZATION_CONTROLLER || "",
+    governance: process.env.NEXT_PUBLIC_SEPOLIA_GOVERNANCE || "",
     treasury: process.env.NEXT_PUBLIC_SEPOLIA_TREASURY || "",
     testHelper: process.env.NEXT_PUBLIC_SEPOLIA_TEST_HELPER || "",
   },
@@ -91,15 +104,62 @@ export const getNetworkInfo = (chainId: number) => {
   )
 }
 
-export const isContractsDeployed = (chainId?: number) => {
+// Deployment manifests bundled at build time by next.config.js, parsed once. A manifest that fails to parse keeps
+// its error and the chain it names (null when unreadable), so it only breaks lookups for that chain.
+type BundledManifest = { source: string; chainId: number | null } & (
+  | { manifest: DeploymentManifest; error: null }
+  | { manifest: null; error: Error }
+)
+
+const bundledManifests: BundledManifest[] = (
+  JSON.parse(process.env.NEXT_PUBLIC_DEPLOYMENT_MANIFESTS || "[]") as { source: string; content: string }[]
+).map(({ source, content }) => {
+  try {
+    const manifest = parseManifestJson(content, source)
+    return { source, chainId: manifest.chainId, manifest, error: null }
+  } catch (error) {
+    let chainId: number | null = null
+    try {
+      const data: unknown = JSON.parse(content)
+      const raw = (data as { chainId?: unknown } | null)?.chainId
+      if (typeof raw === "number") chainId = raw
+    } catch {
+      // Not JSON at all; no chain to report it for
+    }
+    return { source, chainId, manifest: null, error: error instanceof Error ? error : new Error(String(error)) }
+  }
+})
+
+export const getDeploymentManifest = (chainId: number): DeploymentManifest | null => {
+  const forChain = bundledManifests.filter((bundled) => bundled.chainId === chainId)
+  const broken = forChain.find((bundled) => bundled.error)
+  if (broken?.error) throw broken.error
+
+  // Several manifests can share a chain (hardhat and localhost both use 31337); the newest one wins
+  const [latest] = forChain
+    .flatMap(({ source, manifest }) => (manifest ? [{ source, manifest }] : []))
+    .sort((a, b) => b.manifest.updatedAt.localeCompare(a.manifest.updatedAt))
+  if (!latest) return null
+  // A half-finished deployment is rejected rather than silently mixed with env-configured addresses
+  return checkManifestExpectations(latest.manifest, latest.source, { chainId, requireComplete: true })
+}
+
+export const isContractsDeployed = (chainId: number = config.chainId) => {
   // Check if contracts are deployed for the current network
+  if (getDeploymentManifest(chainId)) {
+    return true
+  }
   if (chainId === 11155111) {
     return Object.values(config.sepoliaContracts).every((address) => address && address !== "")
   }
   return Object.values(config.contracts).every((address) => address && address !== "")
 }
 
-export const getContractsForNetwork = (chainId: number) => {
+export const getContractsForNetwork = (chainId: number): Record<string, string> => {
+  const manifest = getDeploymentManifest(chainId)
+  if (manifest) {
+    return { ...config.contracts, ...getManifestContracts(manifest) }
+  }
   if (chainId === 11155111) {
     return config.sepoliaContracts
   }
@@ -0,0 +1,88 @@
+// Typed contract bundle used by the dashboard, built on the TypeChain bindings in typechain-types
+import type { ContractRunner } from "ethers"
+import {
+  ECashGovernanceToken__factory,
+  ECashGovernor__factory,
+  ECashTimelock__factory,
+  ECashToken__factory,
+  MockChainlinkOracle__factory,
+  OracleAggregator__factory,
+  StabilizationController__factory,
+  TestHelper__factory,
+  Treasury__factory,
+  type ECashGovernanceToken,
+  type ECashGovernor,
+  type ECashTimelock,
+  type ECashToken,
+  type MockChainlinkOracle,
+  type OracleAggregator,
+  type StabilizationController,
+  type TestHelper,
+  type Treasury,
+} from "../typechain-types"
+
+export interface ProtocolContracts {
+  ecashToken: ECashToken
+  oracleAggregator: OracleAggregator
+  stabilizationController: StabilizationController
+  treasury: Treasury
+  testHelper: TestHelper
+  chainlinkOracle: MockChainlinkOracle
+  // Networks configured through env variables may not list governance
+  governance?: ECashGovernor
+  governanceToken?: ECashGovernanceToken
+  timelock?: ECashTimelock
+}
+
+const coreContractKeys = [
+  "ecashToken",
+  "oracleAggregator",
+  "stabilizationController",
+  "treasury",
+  "testHelper",
+  "chainlinkOracle",
+] as const
+
+/**
+ * Fills in addresses that env-configured networks do not list but deployed contracts know: the mock oracle
+ * from TestHelper, the governance token and timelock from the governor.
+ */
+export async function resolveProtocolAddresses(addresses: Record<string, string>, runner: ContractRunner) {
+  const resolved = { ...addresses }
+
+  if (!resolved.chainlinkOracle && resolved.testHelper) {
+    resolved.chainlinkOracle = await TestHelper__factory.connect(resolved.testHelper, runner).chainlinkOracle()
+  }
+  if (resolved.governance && (!resolved.governanceToken || !resolved.timelock)) {
+    const governance = ECashGovernor__factory.connect(resolved.governance, runner)
+    resolved.governanceToken ||= await governance.token()
+    resolved.timelock ||= await governance.timelock()
+  }
+
+  return resolved
+}
+
+/**
+ * Connects the protocol contracts to a provider (read-only) or signer. Throws when a core contract has no
+ * address; governance contracts are optional.
+ */
+export function connectProtocolContracts(addresses: Record<string, string>, runner: ContractRunner): ProtocolContracts {
+  const missing = coreContractKeys.filter((key) => !addresses[key])
+  if (missing.length > 0) {
+    throw new Error(`Missing contract addresses: ${missing.join(", ")}`)
+  }
+
+  return {
+    ecashToken: ECashToken__factory.connect(addresses.ecashToken, runner),
+    oracleAggregator: OracleAggregator__factory.connect(addresses.oracleAggregator, runner),
+    stabilizationController: StabilizationController__factory.connect(addresses.stabilizationController, runner),
+    treasury: Treasury__factory.connect(addresses.treasury, runner),
+    testHelper: TestHelper__factory.connect(addresses.testHelper, runner),
+    chainlinkOracle: MockChainlinkOracle__factory.connect(addresses.chainlinkOracle, runner),
+    governance: addresses.governance ? ECashGovernor__factory.connect(addresses.governance, runner) : undefined,
+    governanceToken: addresses.governanceToken
+      ? ECashGovernanceToken__factory.connect(addresses.governanceToken, runner)
+      : undefined,
+    timelock: addresses.timelock ? ECashTimelock__factory.connect(addresses.timelock, runner) : undefined,
+  }
+}
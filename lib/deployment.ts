@@ -0,0 +1,287 @@
+// Browser-side deployment of the E-Cash protocol from compiled Hardhat artifacts
+import { ethers } from "ethers"
+import MockChainlinkOracleArtifact from "../artifacts/contracts/MockChainlinkOracle.sol/MockChainlinkOracle.json"
+import ECashTokenArtifact from "../artifacts/contracts/ECashToken.sol/ECashToken.json"
+import OracleAggregatorArtifact from "../artifacts/contracts/OracleAggregator.sol/OracleAggregator.json"
+import TreasuryArtifact from "../artifacts/contracts/Treasury.sol/Treasury.json"
+import StabilizationControllerArtifact from "../artifacts/contracts/StabilizationController.sol/StabilizationController.json"
+import TestHelperArtifact from "../artifacts/contracts/TestHelper.sol/TestHelper.json"
+import ECashGovernanceTokenArtifact from "../artifacts/contracts/ECashGovernanceToken.sol/ECashGovernanceToken.json"
+import ECashTimelockArtifact from "../artifacts/contracts/ECashTimelock.sol/ECashTimelock.json"
+import ECashGovernorArtifact from "../artifacts/contracts/ECashGovernor.sol/ECashGovernor.json"
+import { getGovernanceSettings, timelockRoleGrants } from "./governance"
+// Same proxy that `upgrades.deployProxy` deploys from the Hardhat scripts
+import TransparentUpgradeableProxyArtifact from "@openzeppelin/upgrades-core/artifacts/@openzeppelin/contracts-v5/proxy/transparent/TransparentUpgradeableProxy.sol/TransparentUpgradeableProxy.json"
+
+// EIP-1967 storage slots
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc"
+const ADMIN_SLOT = "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103"
+
+interface Artifact {
+  abi: ethers.InterfaceAbi
+  bytecode: string
+}
+
+export const deploymentStepNames = [
+  "MockChainlinkOracle",
+  "ECashToken",
+  "OracleAggregator",
+  "Treasury",
+  "StabilizationController",
+  "TestHelper",
+  "ECashGovernanceToken",
+  "ECashTimelock",
+  "ECashGovernor",
+] as const
+
+export type DeploymentStepName = (typeof deploymentStepNames)[number]
+
+export interface DeployedAddresses {
+  chainlinkOracle: string
+  ecashToken: string
+  oracleAggregator: string
+  treasury: string
+  stabilizationController: string
+  testHelper: string
+  governanceToken: string
+  timelock: string
+  governance: string
+}
+
+export interface DeploymentStepResult {
+  address: string
+  txHash: string
+  gasUsed: bigint
+  implementation?: string
+  proxyAdmin?: string
+}
+
+export interface DeploymentCallbacks {
+  onStepStart?: (index: number, name: DeploymentStepName) => void
+  onStepComplete?: (index: number, name: DeploymentStepName, result: DeploymentStepResult) => void
+}
+
+const waitForReceipt = async (tx: ethers.ContractTransactionResponse | ethers.TransactionResponse) => {
+  const receipt = await tx.wait()
+  if (!receipt || receipt.status !== 1) {
+    throw new Error(`Transaction ${tx.hash} failed`)
+  }
+  return receipt
+}
+
+const deployContract = async (artifact: Artifact, signer: ethers.Signer, args: unknown[]) => {
+  const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, signer)
+  const contract = await factory.deploy(...args)
+  const deploymentTx = contract.deploymentTransaction()
+  if (!deploymentTx) {
+    throw new Error("Missing deployment transaction")
+  }
+  const receipt = await waitForReceipt(deploymentTx)
+
+  return { contract: contract as ethers.Contract, receipt }
+}
+
+const readAddressSlot = async (provider: ethers.Provider, address: string, slot: string) => {
+  const value = await provider.getStorage(address, slot)
+  return ethers.getAddress(ethers.dataSlice(value, 12))
+}
+
+// Mirrors `upgrades.deployProxy`: implementation first, then a transparent proxy that runs the initializer
+const deployProxy = async (artifact: Artifact, signer: ethers.Signer, initializerArgs: unknown[]) => {
+  const owner = await signer.getAddress()
+  const { contract: implementation, receipt: implementationReceipt } = await deployContract(artifact, signer, [])
+  const implementationAddress = await implementation.getAddress()
+
+  const initData = new ethers.Interface(artifact.abi).encodeFunctionData("initialize", initializerArgs)
+  const { contract: proxy, receipt: proxyReceipt } = await deployContract(
+    TransparentUpgradeableProxyArtifact as Artifact,
+    signer,
+    [implementationAddress, owner, initData],
+  )
+  const proxyAddress = await proxy.getAddress()
+
+  const provider = signer.provider
+  if (!provider) {
+    throw new Error("Signer is not connected to a provider")
+  }
+
+  return {
+    contract: new ethers.Contract(proxyAddress, artifact.abi, signer),
+    result: {
+      address: proxyAddress,
+      txHash: proxyReceipt.hash,
+      gasUsed: implementationReceipt.gasUsed + proxyReceipt.gasUsed,
+      implementation: await readAddressSlot(provider, proxyAddress, IMPLEMENTATION_SLOT),
+      proxyAdmin: await readAddressSlot(provider, proxyAddress, ADMIN_SLOT),
+    } as DeploymentStepResult,
+  }
+}
+
+/**
+ * Deploys the full protocol from the connected signer, wiring roles and oracles exactly like scripts/deploy.ts.
+ * Each step reports the receipts of every transaction it sent, so gas figures include follow-up calls.
+ */
+export async function deployProtocol(signer: ethers.Signer, callbacks: DeploymentCallbacks = {}) {
+  const deployer = await signer.getAddress()
+  const addresses: Partial<DeployedAddresses> = {}
+  const results: Partial<Record<DeploymentStepName, DeploymentStepResult>> = {}
+
+  const runStep = async (index: number, step: () => Promise<DeploymentStepResult>) => {
+    const name = deploymentStepNames[index]
+    callbacks.onStepStart?.(index, name)
+    const result = await step()
+    results[name] = result
+    callbacks.onStepComplete?.(index, name, result)
+    return result
+  }
+
+  // Step 1: MockChainlinkOracle with an initial $1.00 answer
+  const oracle = await runStep(0, async () => {
+    const { contract, receipt } = await deployContract(MockChainlinkOracleArtifact as Artifact, signer, [8, "ETH/USD"])
+    const setPriceReceipt = await waitForReceipt(await contract.updateAnswer(100000000))
+    return {
+      address: await contract.getAddress(),
+      txHash: receipt.hash,
+      gasUsed: receipt.gasUsed + setPriceReceipt.gasUsed,
+    }
+  })
+  addresses.chainlinkOracle = oracle.address
+
+  // Step 2: ECashToken proxy
+  const token = await runStep(1, async () => {
+    const { result } = await deployProxy(ECashTokenArtifact as Artifact, signer, ["E-Cash", "ECASH", deployer])
+    return result
+  })
+  addresses.ecashToken = token.address
+
+  // Step 3: OracleAggregator proxy and oracle registration
+  const aggregator = await runStep(2, async () => {
+    const { contract, result } = await deployProxy(OracleAggregatorArtifact as Artifact, signer, [deployer])
+    const addOracleReceipt = await waitForReceipt(
+      await contract.addOracle(
+        "chainlink-eth-usd",
+        oracle.address,
+        100, // 100% weight
+        3600, // 1 hour heartbeat
+        8, // 8 decimals
+        "Chainlink ETH/USD",
+      ),
+    )
+    return { ...result, gasUsed: result.gasUsed + addOracleReceipt.gasUsed }
+  })
+  addresses.oracleAggregator = aggregator.address
+
+  // Step 4: Treasury proxy
+  const treasury = await runStep(3, async () => {
+    const { result } = await deployProxy(TreasuryArtifact as Artifact, signer, [deployer])
+    return result
+  })
+  addresses.treasury = treasury.address
+
+  // Step 5: StabilizationController proxy and REBASER_ROLE grant
+  const controller = await runStep(4, async () => {
+    const { result } = await deployProxy(StabilizationControllerArtifact as Artifact, signer, [
+      deployer,
+      token.address,
+      aggregator.address,
+      treasury.address,
+    ])
+    const ecashToken = new ethers.Contract(token.address, (ECashTokenArtifact as Artifact).abi, signer)
+    const rebaserRole = await ecashToken.REBASER_ROLE()
+    const grantRoleReceipt = await waitForReceipt(await ecashToken.grantRole(rebaserRole, result.address))
+    return { ...result, gasUsed: result.gasUsed + grantRoleReceipt.gasUsed }
+  })
+  addresses.stabilizationController = controller.address
+
+  // Step 6: TestHelper, with the OPERATOR_ROLE its stress tests rebase with
+  const testHelper = await runStep(5, async () => {
+    const { contract, receipt } = await deployContract(TestHelperArtifact as Artifact, signer, [
+      token.address,
+      aggregator.address,
+      controller.address,
+      treasury.address,
+      oracle.address,
+    ])
+    const testHelperAddress = await contract.getAddress()
+    const stabilizationController = new ethers.Contract(
+      controller.address,
+      (StabilizationControllerArtifact as Artifact).abi,
+      signer,
+    )
+    const operatorRole = await stabilizationController.OPERATOR_ROLE()
+    const grantRoleReceipt = await waitForReceipt(
+      await stabilizationController.grantRole(operatorRole, testHelperAddress),
+    )
+    return { address: testHelperAddress, txHash: receipt.hash, gasUsed: receipt.gasUsed + grantRoleReceipt.gasUsed }
+  })
+  addresses.testHelper = testHelper.address
+
+  const provider = signer.provider
+  if (!provider) {
+    throw new Error("Signer is not connected to a provider")
+  }
+  const settings = getGovernanceSettings(Number((await provider.getNetwork()).chainId))
+
+  // Step 7: governance token, with the deployer's votes delegated to itself
+  const governanceToken = await runStep(6, async () => {
+    const { contract, receipt } = await deployContract(ECashGovernanceTokenArtifact as Artifact, signer, [deployer])
+    const delegateReceipt = await waitForReceipt(await contract.delegate(deployer))
+    return {
+      address: await contract.getAddress(),
+      txHash: receipt.hash,
+      gasUsed: receipt.gasUsed + delegateReceipt.gasUsed,
+    }
+  })
+  addresses.governanceToken = governanceToken.address
+
+  // Step 8: timelock without initial proposers; anyone may execute once the delay has passed
+  const timelock = await runStep(7, async () => {
+    const { contract, receipt } = await deployContract(ECashTimelockArtifact as Artifact, signer, [
+      settings.timelockDelay,
+      [],
+      [ethers.ZeroAddress],
+      deployer,
+    ])
+    return { address: await contract.getAddress(), txHash: receipt.hash, gasUsed: receipt.gasUsed }
+  })
+  addresses.timelock = timelock.address
+
+  // Step 9: governor, made proposer of the timelock, which receives the protocol admin roles
+  const governance = await runStep(8, async () => {
+    const { contract, receipt } = await deployContract(ECashGovernorArtifact as Artifact, signer, [
+      governanceToken.address,
+      timelock.address,
+      settings.votingDelay,
+      settings.votingPeriod,
+      settings.quorumPercentage,
+    ])
+    const governorAddress = await contract.getAddress()
+    let gasUsed = receipt.gasUsed
+
+    const timelockContract = new ethers.Contract(timelock.address, (ECashTimelockArtifact as Artifact).abi, signer)
+    for (const role of ["PROPOSER_ROLE", "CANCELLER_ROLE"]) {
+      const grantReceipt = await waitForReceipt(
+        await timelockContract.grantRole(await timelockContract.getFunction(role)(), governorAddress),
+      )
+      gasUsed += grantReceipt.gasUsed
+    }
+
+    const protocolArtifacts: Record<string, Artifact> = {
+      ECashToken: ECashTokenArtifact as Artifact,
+      StabilizationController: StabilizationControllerArtifact as Artifact,
+      OracleAggregator: OracleAggregatorArtifact as Artifact,
+      Treasury: TreasuryArtifact as Artifact,
+    }
+    for (const { contract: key, contractName, role } of timelockRoleGrants) {
+      const target = new ethers.Contract(addresses[key]!, protocolArtifacts[contractName].abi, signer)
+      const roleId = role === "DEFAULT_ADMIN_ROLE" ? ethers.ZeroHash : await target.getFunction(role)()
+      const grantReceipt = await waitForReceipt(await target.grantRole(roleId, timelock.address))
+      gasUsed += grantReceipt.gasUsed
+    }
+
+    return { address: governorAddress, txHash: receipt.hash, gasUsed }
+  })
+  addresses.governance = governance.address
+
+  return { addresses: addresses as DeployedAddresses, results }
+}
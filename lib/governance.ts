@@ -0,0 +1,40 @@
+// Governance parameters and role hand-over shared by scripts/deploy.ts, the dashboard deployer and GovernancePanel
+
+export interface GovernanceSettings {
+  votingDelay: number // blocks between proposal and start of voting
+  votingPeriod: number // blocks voting stays open
+  quorumPercentage: number // share of the governance token supply that must vote
+  timelockDelay: number // seconds between queueing and execution
+}
+
+// Short periods on the local node so a proposal can go through in one session
+export const getGovernanceSettings = (chainId: number): GovernanceSettings =>
+  chainId === 31337
+    ? { votingDelay: 1, votingPeriod: 20, quorumPercentage: 4, timelockDelay: 60 }
+    : { votingDelay: 1, votingPeriod: 50400, quorumPercentage: 4, timelockDelay: 2 * 24 * 60 * 60 } // ~1 week, 2 days
+
+// Roles the timelock receives so passed proposals can administer the protocol
+export const timelockRoleGrants = [
+  { contract: "ecashToken", contractName: "ECashToken", role: "DEFAULT_ADMIN_ROLE" },
+  { contract: "stabilizationController", contractName: "StabilizationController", role: "DEFAULT_ADMIN_ROLE" },
+  { contract: "oracleAggregator", contractName: "OracleAggregator", role: "DEFAULT_ADMIN_ROLE" },
+  { contract: "oracleAggregator", contractName: "OracleAggregator", role: "ORACLE_MANAGER_ROLE" },
+  { contract: "treasury", contractName: "Treasury", role: "DEFAULT_ADMIN_ROLE" },
+] as const
+
+// Order of OpenZeppelin's IGovernor.ProposalState enum
+export const proposalStates = [
+  "Pending",
+  "Active",
+  "Canceled",
+  "Defeated",
+  "Succeeded",
+  "Queued",
+  "Expired",
+  "Executed",
+] as const
+
+export type ProposalState = (typeof proposalStates)[number]
+
+// Vote types of GovernorCountingSimple
+export const voteSupport = { against: 0, for: 1, abstain: 2 } as const
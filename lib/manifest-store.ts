@@ -0,0 +1,32 @@
+// Filesystem access to deployment manifests (Node only — used by the Hardhat scripts)
+import fs from "fs"
+import path from "path"
+import { parseManifestJson, type DeploymentManifest, type ManifestExpectations } from "./manifest"
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments")
+
+export const getManifestPath = (network: string) => path.join(DEPLOYMENTS_DIR, `${network}.json`)
+
+export function manifestExists(network: string) {
+  return fs.existsSync(getManifestPath(network))
+}
+
+export function loadManifest(network: string, expectations: ManifestExpectations = {}): DeploymentManifest {
+  const file = getManifestPath(network)
+  if (!fs.existsSync(file)) {
+    throw new Error(`No deployment manifest found for network "${network}" at ${file}. Please deploy contracts first.`)
+  }
+  return parseManifestJson(fs.readFileSync(file, "utf8"), file, expectations)
+}
+
+export function saveManifest(manifest: DeploymentManifest) {
+  const file = getManifestPath(manifest.network)
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  manifest.updatedAt = new Date().toISOString()
+
+  // Write-then-rename so an interrupted run never leaves a truncated manifest behind
+  const tmpFile = `${file}.tmp`
+  fs.writeFileSync(tmpFile, JSON.stringify(manifest, null, 2))
+  fs.renameSync(tmpFile, file)
+  return file
+}
@@ -0,0 +1,200 @@
+// Versioned deployment manifest shared by the Hardhat scripts and the dashboard
+import { z } from "zod"
+
+export const MANIFEST_VERSION = 1
+
+// Contracts every complete deployment must contain
+export const requiredContractKeys = [
+  "chainlinkOracle",
+  "ecashToken",
+  "oracleAggregator",
+  "treasury",
+  "stabilizationController",
+  "testHelper",
+  "governanceToken",
+  "timelock",
+  "governance",
+] as const
+
+export const proxyContractKeys = ["ecashToken", "oracleAggregator", "treasury", "stabilizationController"] as const
+
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "must be a 20-byte hex address")
+const txHash = z.string().regex(/^0x[0-9a-fA-F]{64}$/, "must be a 32-byte transaction hash")
+const uintString = z.string().regex(/^\d+$/, "must be a non-negative integer string")
+
+export const stepRecordSchema = z.object({
+  contract: z.string().optional(),
+  address: address.optional(),
+  txHash,
+  gasUsed: uintString,
+  args: z.array(z.unknown()),
+  completedAt: z.string().datetime(),
+})
+
+// One entry per implementation change; "prepared" means deployed and awaiting execution by the ProxyAdmin owner
+export const upgradeRecordSchema = z.object({
+  contract: z.string(),
+  previousImplementation: address,
+  implementation: address,
+  status: z.enum(["prepared", "upgraded"]),
+  txHash: txHash.optional(),
+  recordedAt: z.string().datetime(),
+})
+
+export const proxyRecordSchema = z.object({
+  address,
+  implementation: address,
+  admin: address,
+  history: z.array(upgradeRecordSchema).optional(),
+})
+
+export const roleGrantSchema = z.object({
+  contract: z.string(),
+  role: z.string(),
+  account: address,
+  txHash,
+})
+
+export const oracleRegistrationSchema = z.object({
+  key: z.string().min(1),
+  oracle: address,
+  weight: z.number().int().positive(),
+  heartbeat: z.number().int().nonnegative(),
+  decimals: z.number().int().min(0).max(255),
+  description: z.string(),
+  txHash,
+})
+
+// Desired StabilizationController policy in readable units, applied by scripts/apply-parameters.ts
+export const stabilizationParametersSchema = z.object({
+  targetPrice: z.number().positive(), // USD
+  maxRebasePercentage: z.number().positive(), // percent
+  bandThresholds: z.array(z.number().positive()).length(4), // percent, bands 1-4
+  bandDampings: z.array(z.number().nonnegative()).length(4), // percent, bands 1-4
+  rebaseCooldown: z.number().int().positive(), // seconds
+  minOracleConfidence: z.number().int().min(1).max(100),
+})
+
+export const deploymentManifestSchema = z
+  .object({
+    version: z.literal(MANIFEST_VERSION),
+    network: z.string().min(1),
+    chainId: z.number().int().positive(),
+    deployer: address,
+    startedAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+    completed: z.boolean(),
+    contracts: z.record(z.string(), address),
+    proxies: z.record(z.string(), proxyRecordSchema),
+    roles: z.array(roleGrantSchema),
+    oracles: z.array(oracleRegistrationSchema),
+    steps: z.record(z.string(), stepRecordSchema),
+    parameters: z.object({ stabilizationController: stabilizationParametersSchema.optional() }).optional(),
+  })
+  .superRefine((manifest, ctx) => {
+    if (!manifest.completed) return
+
+    for (const key of requiredContractKeys) {
+      if (!manifest.contracts[key]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["contracts", key], message: "missing from a completed deployment" })
+      }
+    }
+    for (const key of proxyContractKeys) {
+      if (!manifest.proxies[key]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["proxies", key], message: "missing from a completed deployment" })
+      } else if (manifest.proxies[key].address !== manifest.contracts[key]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["proxies", key, "address"],
+          message: `does not match contracts.${key}`,
+        })
+      }
+    }
+  })
+
+export type StepRecord = z.infer<typeof stepRecordSchema>
+export type UpgradeRecord = z.infer<typeof upgradeRecordSchema>
+export type ProxyRecord = z.infer<typeof proxyRecordSchema>
+export type RoleGrant = z.infer<typeof roleGrantSchema>
+export type OracleRegistration = z.infer<typeof oracleRegistrationSchema>
+export type StabilizationParameters = z.infer<typeof stabilizationParametersSchema>
+export type DeploymentManifest = z.infer<typeof deploymentManifestSchema>
+export type RequiredContractKey = (typeof requiredContractKeys)[number]
+export type ProtocolAddresses = Record<RequiredContractKey, string> & Record<string, string>
+
+export interface ManifestExpectations {
+  chainId?: number
+  requireComplete?: boolean
+}
+
+/**
+ * Validates raw manifest data and checks it against what the caller is connected to.
+ * Throws an Error naming the manifest source and every offending field.
+ */
+export function parseManifest(data: unknown, source: string, expectations: ManifestExpectations = {}) {
+  const version = (data as { version?: unknown } | null)?.version
+  if (version !== MANIFEST_VERSION) {
+    throw new Error(
+      `Deployment manifest ${source} has version ${JSON.stringify(version)}, expected ${MANIFEST_VERSION}. Redeploy with DEPLOY_FRESH=true to regenerate it.`,
+    )
+  }
+
+  const result = deploymentManifestSchema.safeParse(data)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    throw new Error(`Deployment manifest ${source} is invalid:\n${issues.join("\n")}`)
+  }
+
+  return checkManifestExpectations(result.data, source, expectations)
+}
+
+// Checks an already validated manifest against what the caller is connected to
+export function checkManifestExpectations(
+  manifest: DeploymentManifest,
+  source: string,
+  expectations: ManifestExpectations,
+) {
+  if (expectations.chainId !== undefined && manifest.chainId !== expectations.chainId) {
+    throw new Error(
+      `Deployment manifest ${source} was recorded on chain ${manifest.chainId}, but the connected chain is ${expectations.chainId}`,
+    )
+  }
+  if (expectations.requireComplete && !manifest.completed) {
+    throw new Error(`Deployment manifest ${source} is incomplete. Re-run the deploy script to resume it.`)
+  }
+
+  return manifest
+}
+
+export function parseManifestJson(json: string, source: string, expectations: ManifestExpectations = {}) {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (error: any) {
+    throw new Error(`Deployment manifest ${source} is not valid JSON: ${error.message}`)
+  }
+  return parseManifest(data, source, expectations)
+}
+
+export function createManifest(network: string, chainId: number, deployer: string): DeploymentManifest {
+  const now = new Date().toISOString()
+  return {
+    version: MANIFEST_VERSION,
+    network,
+    chainId,
+    deployer,
+    startedAt: now,
+    updatedAt: now,
+    completed: false,
+    contracts: {},
+    proxies: {},
+    roles: [],
+    oracles: [],
+    steps: {},
+  }
+}
+
+// Addresses of a completed deployment
+export function getManifestContracts(manifest: DeploymentManifest): ProtocolAddresses {
+  return manifest.contracts as ProtocolAddresses
+}
@@ -0,0 +1,263 @@
+// Monte Carlo simulation of the stabilization policy over stochastic price paths
+import { defaultPolicy, simulateRebase, type PolicyParameters } from "./stabilization-policy"
+
+const HOURS_PER_YEAR = 24 * 365
+
+// Drift, volatility and jump/reversion rates are annualized
+export type PriceModel =
+  | { type: "gbm"; drift: number; volatility: number }
+  | {
+      type: "jumpDiffusion"
+      drift: number
+      volatility: number
+      jumpIntensity: number // expected jumps per year
+      jumpMean: number // mean log jump size
+      jumpVolatility: number
+    }
+  | { type: "meanReverting"; speed: number; volatility: number } // Ornstein-Uhlenbeck on log price around $1.00
+
+export type PriceModelType = PriceModel["type"]
+
+/**
+ * How the market prices a change in supply: price ∝ (initial supply / perceived supply)^elasticity, where the
+ * perceived supply catches up with the actual supply with the given half-life. Elasticity 0 ignores rebases.
+ */
+export interface DemandModel {
+  elasticity: number
+  responseHalfLifeHours: number
+}
+
+export interface SimulationConfig {
+  model: PriceModel
+  demand: DemandModel
+  paths: number
+  horizonHours: number
+  stepHours: number
+  seed: number
+  // An operator resets a tripped circuit breaker after this long
+  breakerResetHours: number
+  policy: PolicyParameters
+}
+
+export interface PathResult {
+  prices: number[] // market price at each step
+  supplies: number[] // total supply at each step, in tokens
+  rebaseChanges: number[] // supply change of each executed rebase, in percent
+  pegEpisodes: number[] // hours from leaving band 0 to returning to it
+  unrecovered: boolean // still outside band 0 at the end of the path
+  breakerTrips: number
+  bandSteps: number[] // steps spent in each band 0-4
+}
+
+export interface MonteCarloReport {
+  model: PriceModelType
+  paths: number
+  steps: number
+  timeToPeg: { meanHours: number; medianHours: number; p95Hours: number; episodes: number; unrecovered: number }
+  supplyVolatility: number // standard deviation of per-rebase supply change, in percent
+  rebasesPerPath: number
+  breakerTripRate: number // share of paths that tripped the breaker at least once
+  breakerTripsPerPath: number
+  bandShare: number[] // share of all steps spent in each band 0-4
+  finalDeviation: { mean: number; max: number } // percent
+}
+
+export const defaultModels: Record<PriceModelType, PriceModel> = {
+  gbm: { type: "gbm", drift: 0, volatility: 0.6 },
+  jumpDiffusion: {
+    type: "jumpDiffusion",
+    drift: 0,
+    volatility: 0.4,
+    jumpIntensity: 12,
+    jumpMean: -0.05,
+    jumpVolatility: 0.1,
+  },
+  meanReverting: { type: "meanReverting", speed: 50, volatility: 0.8 },
+}
+
+export const defaultSimulationConfig: SimulationConfig = {
+  model: defaultModels.gbm,
+  demand: { elasticity: 1, responseHalfLifeHours: 6 },
+  paths: 1000,
+  horizonHours: 30 * 24,
+  stepHours: 1,
+  seed: 1,
+  breakerResetHours: 24,
+  policy: defaultPolicy,
+}
+
+// mulberry32: small, fast and reproducible across runs for a given seed
+export function createRandom(seed: number) {
+  let state = seed >>> 0
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  const normal = () => {
+    const u = uniform() || Number.MIN_VALUE
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * uniform())
+  }
+  const poisson = (mean: number) => {
+    const limit = Math.exp(-mean)
+    let count = 0
+    for (let product = uniform(); product > limit; product *= uniform()) count++
+    return count
+  }
+  return { uniform, normal, poisson }
+}
+
+export type Random = ReturnType<typeof createRandom>
+
+/**
+ * Generates the exogenous price path (before the market reacts to rebases), starting at $1.00.
+ */
+export function generatePricePath(model: PriceModel, steps: number, stepHours: number, random: Random) {
+  const dt = stepHours / HOURS_PER_YEAR
+  const path = [1]
+  let logPrice = 0
+
+  for (let step = 1; step < steps; step++) {
+    switch (model.type) {
+      case "gbm":
+        logPrice += (model.drift - model.volatility ** 2 / 2) * dt + model.volatility * Math.sqrt(dt) * random.normal()
+        break
+
+      case "jumpDiffusion": {
+        logPrice += (model.drift - model.volatility ** 2 / 2) * dt + model.volatility * Math.sqrt(dt) * random.normal()
+        const jumps = random.poisson(model.jumpIntensity * dt)
+        for (let jump = 0; jump < jumps; jump++) logPrice += model.jumpMean + model.jumpVolatility * random.normal()
+        break
+      }
+
+      case "meanReverting":
+        logPrice += -model.speed * logPrice * dt + model.volatility * Math.sqrt(dt) * random.normal()
+        break
+    }
+    path.push(Math.exp(logPrice))
+  }
+  return path
+}
+
+// Converts a USD price to the 18-decimal value the aggregator reports for an 8-decimal feed
+const toOraclePrice = (price: number) => BigInt(Math.max(Math.round(price * 1e8), 1)) * BigInt(1e10)
+
+/**
+ * Runs the policy over an exogenous price path: each step the market price reflects the shock and the perceived
+ * supply, and a rebase is attempted whenever the cooldown has passed and the breaker is clear.
+ */
+export function runPolicy(shocks: number[], config: Omit<SimulationConfig, "model" | "paths" | "seed">): PathResult {
+  const { demand, policy, stepHours } = config
+  const initialSupply = 1_000_000
+  const cooldownHours = policy.rebaseCooldown / 3600
+  const catchUp = demand.responseHalfLifeHours > 0 ? 1 - 0.5 ** (stepHours / demand.responseHalfLifeHours) : 1
+  const bandOneThreshold = Number(policy.bandThresholds[0]) / 1e18
+
+  let supply = BigInt(initialSupply) * BigInt(1e18)
+  let perceivedSupply = initialSupply
+  let lastRebaseHours = -Infinity
+  let breakerTrippedHours: number | null = null
+  let offPegSince: number | null = null
+
+  const result: PathResult = {
+    prices: [],
+    supplies: [],
+    rebaseChanges: [],
+    pegEpisodes: [],
+    unrecovered: false,
+    breakerTrips: 0,
+    bandSteps: [0, 0, 0, 0, 0],
+  }
+
+  shocks.forEach((shock, step) => {
+    const hours = step * stepHours
+    const supplyTokens = Number(supply) / 1e18
+    perceivedSupply += (supplyTokens - perceivedSupply) * catchUp
+
+    const price = shock * (initialSupply / perceivedSupply) ** demand.elasticity
+    const oraclePrice = toOraclePrice(price)
+    result.prices.push(price)
+    result.supplies.push(supplyTokens)
+
+    if (breakerTrippedHours !== null && hours - breakerTrippedHours >= config.breakerResetHours) {
+      breakerTrippedHours = null
+    }
+
+    const outcome = simulateRebase(oraclePrice, supply, policy)
+    result.bandSteps[outcome.stabilityBand]++
+
+    if (breakerTrippedHours === null && hours - lastRebaseHours >= cooldownHours) {
+      if (outcome.circuitBreaker) {
+        breakerTrippedHours = hours
+        result.breakerTrips++
+      } else if (outcome.supplyDelta !== BigInt(0)) {
+        // Like the controller, a rebase with no supply change doesn't restart the cooldown
+        result.rebaseChanges.push((Number(outcome.supplyDelta) / Number(supply)) * 100)
+        supply = outcome.newSupply
+        lastRebaseHours = hours
+      }
+    }
+
+    const offPeg = Math.abs(price - 1) >= bandOneThreshold
+    if (offPeg && offPegSince === null) offPegSince = hours
+    if (!offPeg && offPegSince !== null) {
+      result.pegEpisodes.push(hours - offPegSince)
+      offPegSince = null
+    }
+  })
+
+  result.unrecovered = offPegSince !== null
+  return result
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0)
+
+const quantile = (sorted: number[], q: number) =>
+  sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))] : 0
+
+const standardDeviation = (values: number[]) => {
+  const average = mean(values)
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)))
+}
+
+export function summarizePaths(model: PriceModelType, results: PathResult[]): MonteCarloReport {
+  const episodes = results.flatMap((result) => result.pegEpisodes).sort((a, b) => a - b)
+  const steps = results[0]?.prices.length ?? 0
+  const totalSteps = results.length * steps
+  const finalDeviations = results.map((result) => Math.abs(result.prices[result.prices.length - 1] - 1) * 100)
+
+  return {
+    model,
+    paths: results.length,
+    steps,
+    timeToPeg: {
+      meanHours: mean(episodes),
+      medianHours: quantile(episodes, 0.5),
+      p95Hours: quantile(episodes, 0.95),
+      episodes: episodes.length,
+      unrecovered: results.filter((result) => result.unrecovered).length,
+    },
+    supplyVolatility: standardDeviation(results.flatMap((result) => result.rebaseChanges)),
+    rebasesPerPath: mean(results.map((result) => result.rebaseChanges.length)),
+    breakerTripRate: results.filter((result) => result.breakerTrips > 0).length / (results.length || 1),
+    breakerTripsPerPath: mean(results.map((result) => result.breakerTrips)),
+    bandShare: [0, 1, 2, 3, 4].map(
+      (band) => results.reduce((sum, result) => sum + result.bandSteps[band], 0) / (totalSteps || 1),
+    ),
+    finalDeviation: { mean: mean(finalDeviations), max: Math.max(0, ...finalDeviations) },
+  }
+}
+
+export function runMonteCarlo(overrides: Partial<SimulationConfig> = {}): MonteCarloReport {
+  const config = { ...defaultSimulationConfig, ...overrides }
+  const random = createRandom(config.seed)
+  const steps = Math.floor(config.horizonHours / config.stepHours) + 1
+
+  const results: PathResult[] = []
+  for (let path = 0; path < config.paths; path++) {
+    results.push(runPolicy(generatePricePath(config.model, steps, config.stepHours, random), config))
+  }
+  return summarizePaths(config.model.type, results)
+}
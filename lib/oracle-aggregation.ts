@@ -0,0 +1,108 @@
+// Labels and readers for OracleAggregator's sources, aggregation mode, source exclusions and per-source diagnostics
+import { ethers } from "ethers"
+import type { OracleAggregator } from "../typechain-types"
+
+// In the order of OracleAggregator.AggregationMode
+export const aggregationModes = ["Weighted mean", "Weighted median", "Trimmed mean"] as const
+
+// In the order of OracleAggregator.ExclusionReason
+export const exclusionReasons = [
+  "Included",
+  "Inactive",
+  "Call failed",
+  "Invalid answer",
+  "Stale",
+  "Outlier",
+  "Trimmed",
+] as const
+
+export type ExclusionReason = (typeof exclusionReasons)[number]
+
+export interface AggregationReport {
+  price: string // USD
+  timestamp: number
+  confidence: number
+  excluded: { key: string; reason: ExclusionReason }[]
+}
+
+export async function fetchAggregationReport(aggregator: OracleAggregator): Promise<AggregationReport> {
+  const [price, timestamp, confidence, excludedKeys, reasons] = await aggregator.getAggregationReport()
+  return {
+    price: ethers.formatEther(price),
+    timestamp: Number(timestamp),
+    confidence: Number(confidence),
+    excluded: excludedKeys.map((key, i) => ({ key, reason: exclusionReasons[Number(reasons[i])] })),
+  }
+}
+
+export interface SourceDiagnostics {
+  key: string
+  oracle: string
+  answer: string // raw, in the feed's decimals
+  price: string // USD, "0.0" when unusable
+  weight: number
+  updatedAt: number
+  age: number // seconds
+  heartbeat: number // seconds
+  included: boolean
+  reason: ExclusionReason
+}
+
+export async function fetchSourceDiagnostics(aggregator: OracleAggregator): Promise<SourceDiagnostics[]> {
+  const readings = await aggregator.getSourceDiagnostics()
+  return readings.map((reading) => ({
+    key: reading.key,
+    oracle: reading.oracle,
+    answer: reading.answer.toString(),
+    price: ethers.formatEther(reading.price),
+    weight: Number(reading.weight),
+    updatedAt: Number(reading.updatedAt),
+    age: Number(reading.age),
+    heartbeat: Number(reading.heartbeat),
+    included: Number(reading.exclusion) === 0,
+    reason: exclusionReasons[Number(reading.exclusion)],
+  }))
+}
+
+// A registered source as configured on the aggregator, from getOracles()
+export interface OracleSource {
+  key: string
+  oracle: string
+  weight: number
+  heartbeat: number // seconds
+  decimals: number
+  description: string
+  isActive: boolean
+}
+
+export async function fetchOracleSources(aggregator: OracleAggregator): Promise<OracleSource[]> {
+  const [keys, configs] = await aggregator.getOracles()
+  return keys.map((key, i) => ({
+    key,
+    oracle: configs[i].oracle,
+    weight: Number(configs[i].weight),
+    heartbeat: Number(configs[i].heartbeat),
+    decimals: Number(configs[i].decimals),
+    description: configs[i].description,
+    isActive: configs[i].isActive,
+  }))
+}
+
+/**
+ * Checks a new or edited source before it is sent. The contract itself only rejects a zero address, a zero weight
+ * and a key that is already registered; a zero heartbeat would leave every answer stale.
+ */
+export function validateOracleSource(source: Omit<OracleSource, "isActive">, registeredKeys: string[] = []): string[] {
+  const errors: string[] = []
+  if (!source.key.trim()) errors.push("Key is required")
+  if (registeredKeys.includes(source.key)) errors.push(`Oracle ${source.key} already exists`)
+  if (!ethers.isAddress(source.oracle) || source.oracle === ethers.ZeroAddress) errors.push("Invalid oracle address")
+  if (!Number.isInteger(source.weight) || source.weight <= 0) errors.push("Weight must be a positive whole number")
+  if (!Number.isInteger(source.heartbeat) || source.heartbeat <= 0) {
+    errors.push("Heartbeat must be a positive whole number of seconds")
+  }
+  if (!Number.isInteger(source.decimals) || source.decimals < 0 || source.decimals > 255) {
+    errors.push("Decimals out of bounds (0 to 255)")
+  }
+  return errors
+}
@@ -0,0 +1,104 @@
+// Replays a price series through a set of policy parameters, for comparing tuned parameters with the deployed ones
+import { createRandom, generatePricePath, type PriceModel } from "./monte-carlo"
+import { simulateRebase, type PolicyParameters } from "./stabilization-policy"
+
+export interface PricePoint {
+  timestamp: number // seconds
+  price: number // USD
+}
+
+export interface ReplayPoint extends PricePoint {
+  supply: number // total supply after this point, in tokens
+  stabilityBand: number
+  rebased: boolean
+  breakerTripped: boolean
+}
+
+export interface ReplaySummary {
+  finalSupply: number
+  supplyChangePercent: number
+  rebases: number
+  breakerTrips: number
+  largestRebasePercent: number // largest single supply change, either direction
+}
+
+export interface ReplayOptions {
+  initialSupply?: number
+  // An operator resets a tripped circuit breaker after this long
+  breakerResetSeconds?: number
+}
+
+/**
+ * Applies the policy at every point of the series: a rebase is attempted whenever the cooldown has passed and the
+ * breaker is clear. Prices are taken as given, so the replay shows how supply would have moved, not how the market
+ * would have reacted to it.
+ */
+export function replayPriceSeries(
+  series: PricePoint[],
+  policy: PolicyParameters,
+  { initialSupply = 1_000_000, breakerResetSeconds = 24 * 60 * 60 }: ReplayOptions = {},
+): ReplayPoint[] {
+  let supply = BigInt(initialSupply) * BigInt(1e18)
+  let lastRebaseTime = -Infinity
+  let breakerTrippedAt: number | null = null
+
+  return series.map(({ timestamp, price }) => {
+    if (breakerTrippedAt !== null && timestamp - breakerTrippedAt >= breakerResetSeconds) breakerTrippedAt = null
+
+    // 8-decimal oracle answer, normalized to 18 decimals like the aggregator does
+    const oraclePrice = BigInt(Math.max(Math.round(price * 1e8), 1)) * BigInt(1e10)
+    const outcome = simulateRebase(oraclePrice, supply, policy)
+    let rebased = false
+    let breakerTripped = false
+
+    if (breakerTrippedAt === null && timestamp - lastRebaseTime >= policy.rebaseCooldown) {
+      if (outcome.circuitBreaker) {
+        breakerTrippedAt = timestamp
+        breakerTripped = true
+      } else if (outcome.supplyDelta !== BigInt(0)) {
+        supply = outcome.newSupply
+        lastRebaseTime = timestamp
+        rebased = true
+      }
+    }
+
+    return {
+      timestamp,
+      price,
+      supply: Number(supply) / 1e18,
+      stabilityBand: outcome.stabilityBand,
+      rebased,
+      breakerTripped,
+    }
+  })
+}
+
+export function summarizeReplay(points: ReplayPoint[], initialSupply = 1_000_000): ReplaySummary {
+  let previousSupply = initialSupply
+  let largestRebasePercent = 0
+  for (const point of points) {
+    if (point.rebased) {
+      const change = ((point.supply - previousSupply) / previousSupply) * 100
+      if (Math.abs(change) > Math.abs(largestRebasePercent)) largestRebasePercent = change
+    }
+    previousSupply = point.supply
+  }
+
+  const finalSupply = points.length ? points[points.length - 1].supply : initialSupply
+  return {
+    finalSupply,
+    supplyChangePercent: ((finalSupply - initialSupply) / initialSupply) * 100,
+    rebases: points.filter((point) => point.rebased).length,
+    breakerTrips: points.filter((point) => point.breakerTripped).length,
+    largestRebasePercent,
+  }
+}
+
+// An hourly series from one of the Monte Carlo price models, starting now
+export function syntheticPriceSeries(model: PriceModel, days: number, seed: number): PricePoint[] {
+  const start = Math.floor(Date.now() / 3600000) * 3600
+  return generatePricePath(model, days * 24 + 1, 1, createRandom(seed)).map((price, hour) => ({
+    timestamp: start + hour * 3600,
+    price,
+  }))
+}
@@ -0,0 +1,405 @@
+// Replays a historical price series into mock feeds on a local chain and records how the protocol responds,
+// shared by the dashboard and the Hardhat task
+import { ethers } from "ethers"
+import { z } from "zod"
+import type { MockChainlinkOracle, OracleAggregator } from "../typechain-types"
+import type { ProtocolContracts } from "./contracts"
+import { fetchOracleSources } from "./oracle-aggregation"
+import { formatProtocolStatus } from "./protocol-store"
+import type { TimeTravel } from "./time-travel"
+
+// A series column with this name is pushed to every replayed feed; any other column names the feed's aggregator key
+export const ALL_FEEDS_COLUMN = "price"
+
+export interface PriceSeriesPoint {
+  timestamp: number // seconds
+  prices: Record<string, number> // USD by column
+}
+
+// "cooldown" attempts a rebase at every point, so one goes through whenever the controller's cooldown allows; a number
+// attempts one only once that many seconds of series time have passed since the last attempt
+export type RebaseSchedule = "never" | "cooldown" | number
+
+export type ReplayRebaseOutcome = "executed" | "circuitBreaker" | "noChange" | "blocked" | "reverted"
+
+export interface RecordedPoint {
+  timestamp: number // from the series
+  chainTimestamp: number // block timestamp the answers were published at, their updatedAt
+  prices: Record<string, number> // USD by feed key, as published
+  aggregatedPrice: number | null // null when the aggregator refused to report one
+  confidence: number
+  totalSupply: number
+  stabilityBand: number
+  circuitBreakerActive: boolean
+  rebase: { outcome: ReplayRebaseOutcome; message: string; txHash?: string } | null
+}
+
+export interface ReplayRecording {
+  source: string
+  recordedAt: string // ISO date
+  feeds: string[]
+  rebaseSchedule: RebaseSchedule
+  initialSupply: number // before the first point
+  points: RecordedPoint[]
+}
+
+export interface ReplaySummary {
+  points: number
+  rebases: number
+  breakerTrips: number
+  initialSupply: number
+  finalSupply: number
+  supplyChangePercent: number
+}
+
+export interface ReplayComparison {
+  baseline: ReplaySummary
+  current: ReplaySummary
+  // Series timestamp of the first point where supply, band or breaker differ; null when they never do
+  divergedAt: number | null
+  // Points present in both recordings, matched by series timestamp
+  comparedPoints: number
+}
+
+export type PriceReplayContracts = Pick<
+  ProtocolContracts,
+  "ecashToken" | "oracleAggregator" | "stabilizationController" | "testHelper"
+>
+
+export interface PriceReplayEnvironment {
+  contracts: PriceReplayContracts
+  timeTravel: TimeTravel
+  // Mock feeds by aggregator key
+  feeds: Record<string, MockChainlinkOracle>
+}
+
+export interface PriceReplayCallbacks {
+  onPoint?: (point: RecordedPoint, index: number) => void
+  // Checked before each point; the recording ends with the points replayed so far
+  shouldStop?: () => boolean
+}
+
+// Unix seconds or milliseconds, as a number or numeric string, or anything Date.parse accepts
+const parseTimestamp = (value: number | string): number => {
+  const numeric = typeof value === "number" ? value : value.trim() !== "" ? Number(value) : Number.NaN
+  if (Number.isFinite(numeric)) return Math.floor(numeric > 1e11 ? numeric / 1000 : numeric)
+  const parsed = typeof value === "string" ? Date.parse(value) : Number.NaN
+  return Number.isNaN(parsed) ? Number.NaN : Math.floor(parsed / 1000)
+}
+
+const jsonRowSchema = z.object({ timestamp: z.union([z.number(), z.string()]) }).catchall(z.number().finite())
+
+const parseRows = (rows: Record<string, number | string>[], source: string): PriceSeriesPoint[] => {
+  if (rows.length === 0) throw new Error(`Price series ${source} has no rows`)
+
+  return rows.map((row, i) => {
+    const { timestamp, ...columns } = row
+    const prices: Record<string, number> = {}
+    for (const [column, value] of Object.entries(columns)) {
+      if (typeof value === "string" && value.trim() === "") continue // a feed without an update at this point
+      const price = Number(value)
+      if (!Number.isFinite(price)) throw new Error(`Price series ${source} row ${i + 1}: ${column} is not a number`)
+      prices[column] = price
+    }
+
+    const seconds = parseTimestamp(timestamp)
+    if (Number.isNaN(seconds)) throw new Error(`Price series ${source} row ${i + 1}: invalid timestamp "${timestamp}"`)
+    if (Object.keys(prices).length === 0) throw new Error(`Price series ${source} row ${i + 1} has no prices`)
+    return { timestamp: seconds, prices }
+  })
+}
+
+/**
+ * Reads a price series from CSV (a header row with a `timestamp` column and one column per feed, or a single
+ * `price` column for all of them) or JSON (an array of objects with the same fields). Timestamps must increase.
+ * Throws an Error naming the source and the offending row.
+ */
+export function parsePriceSeries(text: string, source: string): PriceSeriesPoint[] {
+  let points: PriceSeriesPoint[]
+  const trimmed = text.trim()
+
+  if (trimmed.startsWith("[")) {
+    let data: unknown
+    try {
+      data = JSON.parse(trimmed)
+    } catch (error: any) {
+      throw new Error(`Price series ${source} is not valid JSON: ${error.message}`)
+    }
+    const result = z.array(jsonRowSchema).safeParse(data)
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      throw new Error(`Price series ${source} is invalid:\n${issues.join("\n")}`)
+    }
+    points = parseRows(result.data, source)
+  } else {
+    const [header, ...lines] = trimmed.split(/\r?\n/).filter((line) => line.trim() !== "")
+    const columns = (header ?? "").split(",").map((column) => column.trim())
+    if (!columns.includes("timestamp")) throw new Error(`Price series ${source} needs a timestamp column`)
+
+    const rows = lines.map((line, i) => {
+      const values = line.split(",")
+      if (values.length !== columns.length) {
+        throw new Error(`Price series ${source} row ${i + 1} has ${values.length} values for ${columns.length} columns`)
+      }
+      return Object.fromEntries(columns.map((column, j) => [column, values[j].trim()]))
+    })
+    points = parseRows(rows, source)
+  }
+
+  points.forEach((point, i) => {
+    if (i > 0 && point.timestamp <= points[i - 1].timestamp) {
+      throw new Error(`Price series ${source} row ${i + 1}: timestamps must increase`)
+    }
+  })
+  return points
+}
+
+// Columns other than the shared price column, i.e. the feed keys the series names itself
+export const seriesFeedKeys = (series: PriceSeriesPoint[]) => [
+  ...new Set(series.flatMap((point) => Object.keys(point.prices)).filter((column) => column !== ALL_FEEDS_COLUMN)),
+]
+
+/**
+ * Connects the mock feeds registered on the aggregator under the given keys, or every active source without
+ * keys. Throws for keys the aggregator does not know.
+ */
+export async function resolveReplayFeeds(
+  aggregator: OracleAggregator,
+  keys: string[] | null,
+  connect: (address: string) => MockChainlinkOracle | Promise<MockChainlinkOracle>,
+): Promise<Record<string, MockChainlinkOracle>> {
+  const sources = await fetchOracleSources(aggregator)
+  const selected = keys ?? sources.filter((source) => source.isActive).map((source) => source.key)
+  const unknown = selected.filter((key) => !sources.some((source) => source.key === key))
+  if (unknown.length > 0) throw new Error(`No oracle registered under ${unknown.join(", ")}`)
+
+  const feeds: Record<string, MockChainlinkOracle> = {}
+  for (const key of selected) {
+    feeds[key] = await connect(sources.find((source) => source.key === key)!.oracle)
+  }
+  return feeds
+}
+
+// Feed answer for a USD price; parseUnits needs plain decimal notation, which toFixed gives up on from 1e21
+const toAnswer = (price: number, decimals: bigint) =>
+  ethers.parseUnits(
+    price.toLocaleString("en-US", { useGrouping: false, maximumFractionDigits: Number(decimals) }),
+    decimals,
+  )
+
+/**
+ * Publishes each point of the series to the mock feeds, with all of its answers in one block mined at the point's
+ * timestamp, so each feed's updatedAt matches the series. A series that starts before the latest block is shifted
+ * forward as a whole, keeping its spacing; a point that would land on or before an earlier block (e.g. the rebase
+ * after the previous point) is moved to the next free second. After each point a rebase is attempted if the schedule
+ * says so, and the protocol's state is recorded.
+ */
+export async function runPriceReplay(
+  series: PriceSeriesPoint[],
+  source: string,
+  environment: PriceReplayEnvironment,
+  rebaseSchedule: RebaseSchedule = "never",
+  callbacks: PriceReplayCallbacks = {},
+): Promise<ReplayRecording> {
+  const { contracts, timeTravel, feeds } = environment
+  const feedKeys = Object.keys(feeds)
+  const unknown = seriesFeedKeys(series).filter((column) => !feeds[column])
+  if (unknown.length > 0) throw new Error(`The series has prices for ${unknown.join(", ")}, which are not replayed`)
+
+  const decimals: Record<string, bigint> = {}
+  for (const key of feedKeys) decimals[key] = await feeds[key].decimals()
+
+  const initialSupply = Number(ethers.formatEther(await contracts.ecashToken.totalSupply()))
+  const latest = await timeTravel.getTimestamp()
+  const offset = series.length > 0 && series[0].timestamp <= latest ? latest + 1 - series[0].timestamp : 0
+  let lastRebaseAttempt: number | null = null
+  const points: RecordedPoint[] = []
+
+  for (const [index, point] of series.entries()) {
+    if (callbacks.shouldStop?.()) break
+
+    const prices: Record<string, number> = {}
+    for (const key of feedKeys) {
+      const price = point.prices[key] ?? point.prices[ALL_FEEDS_COLUMN]
+      if (price !== undefined) prices[key] = price
+    }
+
+    const chainTimestamp = Math.max(point.timestamp + offset, (await timeTravel.getTimestamp()) + 1)
+    const transactions: ethers.ContractTransactionResponse[] = []
+    // Reverted to if the point fails halfway, which drops the updates already queued for it; they would otherwise
+    // be mined with whatever comes next, at the wrong timestamp
+    const beforePoint = await timeTravel.snapshot()
+    await timeTravel.setAutomine(false)
+    try {
+      for (const [key, price] of Object.entries(prices)) {
+        const answer = toAnswer(price, decimals[key])
+        // Without a limit each queued update reserves the whole block gas limit, so only one would fit in the block
+        const gasLimit = ((await feeds[key].updateAnswer.estimateGas(answer)) * BigInt(12)) / BigInt(10)
+        transactions.push(await feeds[key].updateAnswer(answer, { gasLimit }))
+      }
+      await timeTravel.mineAt(chainTimestamp)
+    } catch (error) {
+      await timeTravel.revert(beforePoint)
+      throw error
+    } finally {
+      await timeTravel.setAutomine(true)
+    }
+    await Promise.all(transactions.map((tx) => tx.wait()))
+
+    let rebase: RecordedPoint["rebase"] = null
+    const rebaseDue =
+      rebaseSchedule === "cooldown" ||
+      (typeof rebaseSchedule === "number" &&
+        (lastRebaseAttempt === null || point.timestamp - lastRebaseAttempt >= rebaseSchedule))
+    if (rebaseDue) {
+      lastRebaseAttempt = point.timestamp
+      rebase = await attemptRebase(contracts)
+    }
+
+    const status = formatProtocolStatus(await contracts.testHelper.getProtocolStatus())
+    const recorded: RecordedPoint = {
+      timestamp: point.timestamp,
+      chainTimestamp,
+      prices,
+      aggregatedPrice: Number(status.currentPrice) > 0 ? Number(status.currentPrice) : null,
+      confidence: Number(status.oracleConfidence),
+      totalSupply: Number(status.totalSupply),
+      stabilityBand: status.stabilityBand,
+      circuitBreakerActive: status.circuitBreakerActive,
+      rebase,
+    }
+    points.push(recorded)
+    callbacks.onPoint?.(recorded, index)
+  }
+
+  return { source, recordedAt: new Date().toISOString(), feeds: feedKeys, rebaseSchedule, initialSupply, points }
+}
+
+// Rebases if the controller would accept it right now, mirroring the checks at the top of rebase()
+async function attemptRebase(contracts: PriceReplayContracts): Promise<NonNullable<RecordedPoint["rebase"]>> {
+  const controller = contracts.stabilizationController
+  const [preview, circuitBreakerActive, paused] = await Promise.all([
+    controller.previewRebase(),
+    controller.circuitBreakerActive(),
+    controller.paused(),
+  ])
+
+  const blockedBy = circuitBreakerActive
+    ? "circuit breaker active"
+    : paused
+      ? "controller paused"
+      : !preview.canExecute
+        ? "rebase on cooldown"
+        : preview.currentPrice === BigInt(0)
+          ? "no price with sufficient confidence"
+          : null
+  if (blockedBy) return { outcome: "blocked", message: `Rebase blocked (${blockedBy})` }
+
+  const supplyBefore = await contracts.ecashToken.totalSupply()
+  let receipt: ethers.ContractTransactionReceipt | null
+  try {
+    receipt = await (await controller.rebase()).wait()
+  } catch (error: any) {
+    return { outcome: "reverted", message: `Rebase reverted: ${error.reason || error.shortMessage || error.message}` }
+  }
+  if (!receipt) return { outcome: "reverted", message: "Rebase transaction was dropped" }
+
+  const events = receipt.logs.map((log) => {
+    try {
+      return controller.interface.parseLog(log)?.name
+    } catch {
+      return undefined
+    }
+  })
+  if (events.includes("CircuitBreakerTriggered")) {
+    return { outcome: "circuitBreaker", message: "Circuit breaker triggered", txHash: receipt.hash }
+  }
+  if (!events.includes("RebaseExecuted")) {
+    return { outcome: "noChange", message: "Price within target, supply unchanged", txHash: receipt.hash }
+  }
+
+  const supplyAfter = await contracts.ecashToken.totalSupply()
+  const change = (Number(supplyAfter - supplyBefore) / Number(supplyBefore)) * 100
+  return {
+    outcome: "executed",
+    message: `Supply ${change >= 0 ? "expanded" : "contracted"} by ${Math.abs(change).toFixed(2)}%`,
+    txHash: receipt.hash,
+  }
+}
+
+export function summarizeRecording({ points, initialSupply }: ReplayRecording): ReplaySummary {
+  const finalSupply = points.length ? points[points.length - 1].totalSupply : initialSupply
+  return {
+    points: points.length,
+    rebases: points.filter((point) => point.rebase?.outcome === "executed").length,
+    breakerTrips: points.filter((point) => point.rebase?.outcome === "circuitBreaker").length,
+    initialSupply,
+    finalSupply,
+    supplyChangePercent: initialSupply ? ((finalSupply - initialSupply) / initialSupply) * 100 : 0,
+  }
+}
+
+/**
+ * Compares two recordings of (usually) the same series, e.g. before and after a policy change. Points are
+ * matched by series timestamp.
+ */
+export function compareRecordings(baseline: ReplayRecording, current: ReplayRecording): ReplayComparison {
+  const byTimestamp = new Map(baseline.points.map((point) => [point.timestamp, point]))
+  let divergedAt: number | null = null
+  let comparedPoints = 0
+
+  for (const point of current.points) {
+    const other = byTimestamp.get(point.timestamp)
+    if (!other) continue
+    comparedPoints++
+    const differs =
+      point.totalSupply !== other.totalSupply ||
+      point.stabilityBand !== other.stabilityBand ||
+      point.circuitBreakerActive !== other.circuitBreakerActive
+    if (differs && divergedAt === null) divergedAt = point.timestamp
+  }
+
+  return { baseline: summarizeRecording(baseline), current: summarizeRecording(current), divergedAt, comparedPoints }
+}
+
+const recordedPointSchema: z.ZodType<RecordedPoint> = z.object({
+  timestamp: z.number(),
+  chainTimestamp: z.number(),
+  prices: z.record(z.string(), z.number()),
+  aggregatedPrice: z.number().nullable(),
+  confidence: z.number(),
+  totalSupply: z.number(),
+  stabilityBand: z.number(),
+  circuitBreakerActive: z.boolean(),
+  rebase: z
+    .object({
+      outcome: z.enum(["executed", "circuitBreaker", "noChange", "blocked", "reverted"]),
+      message: z.string(),
+      txHash: z.string().optional(),
+    })
+    .nullable(),
+})
+
+const recordingSchema: z.ZodType<ReplayRecording> = z.object({
+  source: z.string(),
+  recordedAt: z.string(),
+  feeds: z.array(z.string()),
+  rebaseSchedule: z.union([z.enum(["never", "cooldown"]), z.number()]),
+  initialSupply: z.number(),
+  points: z.array(recordedPointSchema),
+})
+
+export function parseRecordingJson(json: string, source: string): ReplayRecording {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (error: any) {
+    throw new Error(`Recording ${source} is not valid JSON: ${error.message}`)
+  }
+  const result = recordingSchema.safeParse(data)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    throw new Error(`Recording ${source} is not a price replay recording:\n${issues.join("\n")}`)
+  }
+  return result.data
+}
@@ -0,0 +1,269 @@
+// Client-side protocol state shared by the dashboard panels, updated from contract events and keyed by block
+import { ethers } from "ethers"
+import { config } from "./config"
+import type { ProtocolContracts } from "./contracts"
+import { fetchOracleSources } from "./oracle-aggregation"
+
+// TestHelper.getProtocolStatus formatted for display
+export interface ProtocolStatus {
+  currentPrice: string
+  targetPrice: string
+  totalSupply: string
+  deviation: string
+  canRebase: boolean
+  circuitBreakerActive: boolean
+  lastRebaseTime: string
+  rebaseCount: string
+  stabilityBand: number
+  oracleConfidence: string
+}
+
+export interface ProtocolSnapshot {
+  blockNumber: number
+  timestamp: number // block timestamp, seconds
+  status: ProtocolStatus
+}
+
+export interface ProtocolEvent {
+  blockNumber: number
+  transactionHash: string
+  contract: string
+  name: string
+}
+
+export type UpdateMode = "idle" | "events" | "polling"
+
+export interface ProtocolState {
+  status: ProtocolStatus | null
+  blockNumber: number
+  timestamp: number
+  history: ProtocolSnapshot[] // one entry per block that changed state, oldest first
+  events: ProtocolEvent[] // most recent first
+  mode: UpdateMode
+}
+
+export interface ProtocolStore {
+  getState: () => ProtocolState
+  subscribe: (listener: () => void) => () => void
+  start: () => Promise<void>
+  stop: () => void
+  // Re-reads the latest block, e.g. after the dashboard sent a transaction or reverted a local snapshot
+  refresh: () => Promise<void>
+}
+
+export const idleProtocolState: ProtocolState = {
+  status: null,
+  blockNumber: 0,
+  timestamp: 0,
+  history: [],
+  events: [],
+  mode: "idle",
+}
+
+const MAX_EVENTS = 50
+
+// Events that change what getProtocolStatus reports. Price updates come from the feeds themselves (AnswerUpdated),
+// since the aggregator computes its price in a view; see watchFeeds
+const watchedEvents: { contract: keyof ProtocolContracts; events: string[] }[] = [
+  { contract: "stabilizationController", events: ["RebaseExecuted", "CircuitBreakerTriggered", "CircuitBreakerReset"] },
+  { contract: "ecashToken", events: ["Rebase"] },
+  {
+    contract: "oracleAggregator",
+    events: [
+      "OracleAdded",
+      "OracleUpdated",
+      "OracleRemoved",
+      "OracleDeactivated",
+      "OracleActivated",
+      "AggregationModeUpdated",
+      "OutlierThresholdUpdated",
+    ],
+  },
+  { contract: "chainlinkOracle", events: ["FailureModeUpdated"] },
+]
+
+// Chainlink's round event; every feed the aggregator reads emits it, whatever its full ABI
+const feedAbi = ["event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt)"]
+
+/**
+ * True when the node accepts log filters, which ethers needs for contract event subscriptions.
+ * Some wallet-injected and public RPC endpoints reject eth_newFilter.
+ */
+export async function supportsSubscriptions(provider: ethers.Provider) {
+  if (!(provider instanceof ethers.JsonRpcApiProvider)) return false
+  try {
+    const filterId = await provider.send("eth_newFilter", [{ fromBlock: "latest", toBlock: "latest" }])
+    await provider.send("eth_uninstallFilter", [filterId]).catch(() => undefined)
+    return true
+  } catch {
+    return false
+  }
+}
+
+type RawProtocolStatus = Awaited<ReturnType<ProtocolContracts["testHelper"]["getProtocolStatus"]>>
+
+export const formatProtocolStatus = (status: RawProtocolStatus): ProtocolStatus => ({
+  currentPrice: ethers.formatEther(status.currentPrice),
+  targetPrice: ethers.formatEther(status.targetPrice),
+  totalSupply: ethers.formatEther(status.totalSupply),
+  deviation: ethers.formatEther(status.deviation),
+  canRebase: status.canRebase,
+  circuitBreakerActive: status.circuitBreakerActive,
+  lastRebaseTime: status.lastRebaseTime.toString(),
+  rebaseCount: status.rebaseCount.toString(),
+  stabilityBand: Number(status.stabilityBand),
+  oracleConfidence: status.oracleConfidence.toString(),
+})
+
+export function createProtocolStore(contracts: ProtocolContracts, provider: ethers.Provider): ProtocolStore {
+  let state = idleProtocolState
+  const listeners = new Set<() => void>()
+  const unsubscribers: (() => void)[] = []
+  let pollTimer: ReturnType<typeof setInterval> | null = null
+  let stopped = false
+
+  // Highest block an event or refresh asked for, and the read currently working towards it
+  let requestedBlock = 0
+  let draining: Promise<void> | null = null
+
+  const setState = (updates: Partial<ProtocolState>) => {
+    state = { ...state, ...updates }
+    listeners.forEach((listener) => listener())
+  }
+
+  const readBlock = async (blockNumber: number) => {
+    const [status, block] = await Promise.all([
+      contracts.testHelper.getProtocolStatus({ blockTag: blockNumber }),
+      provider.getBlock(blockNumber),
+    ])
+    if (stopped || blockNumber <= state.blockNumber) return
+
+    const snapshot: ProtocolSnapshot = {
+      blockNumber,
+      timestamp: block?.timestamp ?? Math.floor(Date.now() / 1000),
+      status: formatProtocolStatus(status),
+    }
+
+    setState({
+      status: snapshot.status,
+      blockNumber,
+      timestamp: snapshot.timestamp,
+      history: [...state.history, snapshot].slice(-config.dashboard.maxChartDataPoints),
+    })
+  }
+
+  // Several events in the same block (or a burst of blocks) collapse into one read of the newest block
+  const requestBlock = (blockNumber: number) => {
+    requestedBlock = Math.max(requestedBlock, blockNumber)
+    if (draining) return draining
+
+    draining = (async () => {
+      try {
+        while (!stopped && requestedBlock > state.blockNumber) {
+          await readBlock(requestedBlock)
+        }
+      } catch (error) {
+        console.error("Failed to read protocol status:", error)
+      } finally {
+        draining = null
+      }
+    })()
+    return draining
+  }
+
+  const refresh = async () => {
+    const blockNumber = await provider.getBlockNumber()
+    if (stopped) return
+    if (blockNumber < state.blockNumber) {
+      // A local chain was reverted to a snapshot: forget the blocks that no longer exist
+      requestedBlock = 0
+      setState({
+        blockNumber: 0,
+        history: state.history.filter((snapshot) => snapshot.blockNumber < blockNumber),
+        events: state.events.filter((event) => event.blockNumber <= blockNumber),
+      })
+    }
+    await requestBlock(blockNumber)
+  }
+
+  const watch = async (contract: ethers.BaseContract, label: string, name: string, onEvent?: () => void) => {
+    if (stopped) return
+    const listener = (...args: unknown[]) => {
+      const { log } = args[args.length - 1] as ethers.ContractEventPayload
+      setState({
+        events: [
+          { blockNumber: log.blockNumber, transactionHash: log.transactionHash, contract: label, name },
+          ...state.events,
+        ].slice(0, MAX_EVENTS),
+      })
+      requestBlock(log.blockNumber)
+      onEvent?.()
+    }
+    await contract.on(name, listener)
+    const unsubscribe = () => {
+      contract.off(name, listener)
+    }
+    // stop() ran while the subscription was being set up
+    if (stopped) unsubscribe()
+    else unsubscribers.push(unsubscribe)
+  }
+
+  // Every feed registered with the aggregator, once per address; called again when an oracle is added
+  const watchedFeeds = new Set<string>()
+  const watchFeeds = async () => {
+    for (const source of await fetchOracleSources(contracts.oracleAggregator)) {
+      const address = source.oracle.toLowerCase()
+      if (stopped || watchedFeeds.has(address)) continue
+      watchedFeeds.add(address)
+      await watch(new ethers.Contract(source.oracle, feedAbi, provider), source.key, "AnswerUpdated")
+    }
+  }
+
+  const subscribe = async () => {
+    for (const { contract: key, events } of watchedEvents) {
+      const contract = contracts[key] as unknown as ethers.BaseContract | undefined
+      if (!contract) continue
+
+      for (const name of events) {
+        const onEvent =
+          name === "OracleAdded"
+            ? () => watchFeeds().catch((error) => console.error("Failed to watch oracle feeds:", error))
+            : undefined
+        await watch(contract, key, name, onEvent)
+      }
+    }
+    await watchFeeds()
+  }
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    // stop() may come while start() is still awaiting, e.g. when React Strict Mode unmounts straight after mounting
+    start: async () => {
+      const subscriptions = await supportsSubscriptions(provider)
+      if (stopped) return
+      if (subscriptions) {
+        await subscribe()
+        if (stopped) return
+        setState({ mode: "events" })
+      } else {
+        pollTimer = setInterval(() => {
+          refresh().catch((error) => console.error("Failed to poll protocol status:", error))
+        }, config.dashboard.refreshInterval)
+        setState({ mode: "polling" })
+      }
+      await refresh()
+    },
+    stop: () => {
+      stopped = true
+      unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe())
+      if (pollTimer) clearInterval(pollTimer)
+    },
+    refresh,
+  }
+}
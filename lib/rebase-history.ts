@@ -0,0 +1,102 @@
+// Rebase history backfilled from StabilizationController.rebaseHistory, one record per executed rebase
+import { ethers } from "ethers"
+import type { StabilizationController } from "../typechain-types"
+
+export interface RebaseRecord {
+  epoch: number
+  timestamp: number // oracle timestamp of the price used, seconds
+  price: number
+  supplyDelta: number
+  newSupply: number
+  supplyDeltaPercent: number // supplyDelta relative to the supply before the rebase
+  stabilityBand: number
+}
+
+export type RebaseSortKey = "epoch" | "timestamp" | "price" | "supplyDelta" | "newSupply" | "stabilityBand"
+
+export interface RebaseFilter {
+  bands: number[] // empty means every band
+  from?: number // inclusive, seconds
+  to?: number // inclusive, seconds
+}
+
+export interface StabilityBand {
+  band: number
+  label: string
+  color: string
+}
+
+const stabilityBandColors = ["#10B981", "#3B82F6", "#F59E0B", "#EF4444"]
+
+export const stabilityBandColor = (band: number) => stabilityBandColors[band] ?? "#6B7280"
+
+/**
+ * The bands a rebase can execute in, labelled with the controller's band thresholds (1e18 = 100%). Band 4 trips
+ * the circuit breaker and never rebases.
+ */
+export function stabilityBands(bandThresholds: readonly bigint[]): StabilityBand[] {
+  const percent = (threshold: bigint) => Number(ethers.formatUnits(threshold, 16))
+  return stabilityBandColors.map((color, band) => ({
+    band,
+    label:
+      band === 0
+        ? `Band 0 (<${percent(bandThresholds[0])}%)`
+        : `Band ${band} (${percent(bandThresholds[band - 1])}-${percent(bandThresholds[band])}%)`,
+    color,
+  }))
+}
+
+// Epochs read in parallel per batch, to stay under public RPC rate limits
+const BACKFILL_BATCH_SIZE = 20
+
+/**
+ * Reads rebaseHistory for epochs fromEpoch..toEpoch (the controller numbers epochs from 1). Defaults to every
+ * epoch up to the controller's current rebaseCount.
+ */
+export async function fetchRebaseHistory(
+  controller: StabilizationController,
+  fromEpoch = 1,
+  toEpoch?: number,
+): Promise<RebaseRecord[]> {
+  const lastEpoch = toEpoch ?? Number(await controller.rebaseCount())
+  const records: RebaseRecord[] = []
+
+  for (let start = fromEpoch; start <= lastEpoch; start += BACKFILL_BATCH_SIZE) {
+    const epochs = Array.from({ length: Math.min(BACKFILL_BATCH_SIZE, lastEpoch - start + 1) }, (_, i) => start + i)
+    const batch = await Promise.all(
+      epochs.map(async (epoch) => {
+        const data = await controller.rebaseHistory(epoch)
+        const supplyDelta = Number(ethers.formatEther(data.supplyDelta))
+        const newSupply = Number(ethers.formatEther(data.newSupply))
+        const previousSupply = newSupply - supplyDelta
+
+        return {
+          epoch,
+          timestamp: Number(data.timestamp),
+          price: Number(ethers.formatEther(data.price)),
+          supplyDelta,
+          newSupply,
+          supplyDeltaPercent: previousSupply > 0 ? (supplyDelta / previousSupply) * 100 : 0,
+          stabilityBand: Number(data.stabilityBand),
+        }
+      }),
+    )
+    records.push(...batch)
+  }
+
+  return records
+}
+
+export function filterRebaseHistory(records: RebaseRecord[], filter: RebaseFilter) {
+  return records.filter(
+    (record) =>
+      (filter.bands.length === 0 || filter.bands.includes(record.stabilityBand)) &&
+      (filter.from === undefined || record.timestamp >= filter.from) &&
+      (filter.to === undefined || record.timestamp <= filter.to),
+  )
+}
+
+export function sortRebaseHistory(records: RebaseRecord[], key: RebaseSortKey, direction: "asc" | "desc") {
+  const sign = direction === "asc" ? 1 : -1
+  return [...records].sort((a, b) => (a[key] - b[key]) * sign || (a.epoch - b.epoch) * sign)
+}
@@ -0,0 +1,411 @@
+// Declarative protocol scenarios and the engine that runs them, shared by the dashboard and the Hardhat task
+import { ethers } from "ethers"
+import { z } from "zod"
+import type { ProtocolContracts } from "./contracts"
+
+const price = z.number().finite()
+
+// In the order of MockChainlinkOracle.FailureMode
+export const oracleFailureModes = [
+  "none",
+  "revert",
+  "zeroAnswer",
+  "negativeAnswer",
+  "staleTimestamp",
+  "incompleteRound",
+  "gasGriefing",
+] as const
+
+export type OracleFailureMode = (typeof oracleFailureModes)[number]
+
+export const scenarioStepSchema = z.discriminatedUnion("type", [
+  // Oracle answer in USD; zero and negative prices are allowed to exercise rejection
+  z.object({ type: z.literal("setPrice"), price, label: z.string().optional() }),
+  // Registers another mock feed with the aggregator at a fixed price; the feeds are removed when the scenario ends
+  z.object({
+    type: z.literal("addFeed"),
+    key: z.string().min(1),
+    price,
+    weight: z.number().int().positive().default(100),
+    label: z.string().optional(),
+  }),
+  // The mock feed misbehaves until set back to "none"; reset also clears it
+  z.object({ type: z.literal("setOracleFailure"), mode: z.enum(oracleFailureModes), label: z.string().optional() }),
+  // "cooldown" advances by the controller's rebaseCooldown
+  z.object({
+    type: z.literal("advanceTime"),
+    seconds: z.union([z.number().int().positive(), z.literal("cooldown")]),
+    label: z.string().optional(),
+  }),
+  // Without `expect` a rebase the controller would refuse is skipped; with it the outcome is asserted
+  z.object({
+    type: z.literal("rebase"),
+    expect: z.enum(["executed", "circuitBreaker", "noChange", "blocked"]).optional(),
+    label: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("assertSupply"),
+    change: z.enum(["increased", "decreased", "unchanged"]),
+    since: z.enum(["start", "lastRebase"]).default("lastRebase"),
+    label: z.string().optional(),
+  }),
+  z.object({ type: z.literal("assertBand"), band: z.number().int().min(0).max(4), label: z.string().optional() }),
+  z.object({ type: z.literal("assertCircuitBreaker"), active: z.boolean(), label: z.string().optional() }),
+  // Aggregated price bounds in USD, or `rejected` when the aggregator should refuse to report a price
+  z.object({
+    type: z.literal("assertPrice"),
+    min: price.optional(),
+    max: price.optional(),
+    rejected: z.boolean().optional(),
+    label: z.string().optional(),
+  }),
+  // Restores the target price, clears the oracle failure mode and the circuit breaker
+  z.object({ type: z.literal("reset"), label: z.string().optional() }),
+])
+
+export const scenarioSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(""),
+  steps: z.array(scenarioStepSchema).min(1),
+})
+
+export type ScenarioStep = z.infer<typeof scenarioStepSchema>
+export type ScenarioDefinition = z.input<typeof scenarioSchema>
+export type Scenario = z.infer<typeof scenarioSchema>
+
+export type StepStatus = "passed" | "failed" | "skipped"
+
+export interface StepResult {
+  index: number
+  label: string
+  status: StepStatus
+  message: string
+  durationMs: number
+  txHash?: string
+}
+
+export interface ScenarioResult {
+  name: string
+  passed: boolean
+  steps: StepResult[]
+  durationMs: number
+}
+
+export type ScenarioContracts = Pick<
+  ProtocolContracts,
+  "chainlinkOracle" | "ecashToken" | "oracleAggregator" | "stabilizationController" | "testHelper"
+>
+
+export interface ScenarioEnvironment {
+  contracts: ScenarioContracts
+  // Moves chain time forward; only local networks can, so advanceTime steps are skipped without it
+  advanceTime?: (seconds: number) => Promise<unknown>
+  // Deploys a mock feed for addFeed steps, which are skipped without it
+  deployFeed?: (decimals: number, description: string) => Promise<ScenarioContracts["chainlinkOracle"]>
+}
+
+export interface ScenarioCallbacks {
+  onStepStart?: (index: number) => void
+  onStepComplete?: (result: StepResult) => void
+}
+
+/**
+ * Validates a scenario authored as JSON or a plain object. Throws an Error naming the source and every
+ * offending field.
+ */
+export function parseScenario(data: unknown, source: string): Scenario {
+  const result = scenarioSchema.safeParse(data)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    throw new Error(`Scenario ${source} is invalid:\n${issues.join("\n")}`)
+  }
+  return result.data
+}
+
+export function parseScenarioJson(json: string, source: string) {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (error: any) {
+    throw new Error(`Scenario ${source} is not valid JSON: ${error.message}`)
+  }
+  // A file may hold one scenario or a list of them
+  return Array.isArray(data)
+    ? data.map((entry, i) => parseScenario(entry, `${source}[${i}]`))
+    : [parseScenario(data, source)]
+}
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`
+
+export function describeStep(step: ScenarioStep): string {
+  if (step.label) return step.label
+
+  switch (step.type) {
+    case "setPrice":
+      return `Set price to ${formatUsd(step.price)}`
+    case "addFeed":
+      return `Add feed ${step.key} at ${formatUsd(step.price)}`
+    case "setOracleFailure":
+      return step.mode === "none" ? "Restore normal oracle behavior" : `Make the oracle fail (${step.mode})`
+    case "advanceTime":
+      return step.seconds === "cooldown" ? "Advance past rebase cooldown" : `Advance time by ${step.seconds}s`
+    case "rebase":
+      return step.expect ? `Rebase (expect ${step.expect})` : "Execute rebase if possible"
+    case "assertSupply":
+      return `Assert supply ${step.change} since ${step.since === "start" ? "start" : "last rebase"}`
+    case "assertBand":
+      return `Assert stability band ${step.band}`
+    case "assertCircuitBreaker":
+      return `Assert circuit breaker ${step.active ? "active" : "inactive"}`
+    case "assertPrice":
+      if (step.rejected) return "Assert aggregator rejects price"
+      return `Assert price within ${step.min !== undefined ? formatUsd(step.min) : "-∞"}..${
+        step.max !== undefined ? formatUsd(step.max) : "∞"
+      }`
+    case "reset":
+      return "Reset to target price"
+  }
+}
+
+// Heartbeat of feeds added by addFeed steps, as deployments register the primary feed
+const ADDED_FEED_HEARTBEAT = 3600
+
+// Steps throw these to end as failed or skipped with a readable message
+type StepOutcome = Error & { stepStatus: Exclude<StepStatus, "passed"> }
+
+const stepOutcome = (stepStatus: StepOutcome["stepStatus"], message: string): StepOutcome =>
+  Object.assign(new Error(message), { stepStatus })
+
+const isStepOutcome = (error: unknown): error is StepOutcome => error instanceof Error && "stepStatus" in error
+
+const fail = (message: string): never => {
+  throw stepOutcome("failed", message)
+}
+
+const skip = (message: string): never => {
+  throw stepOutcome("skipped", message)
+}
+
+const percentChange = (before: bigint, after: bigint) =>
+  before === BigInt(0) ? 0 : (Number(after - before) / Number(before)) * 100
+
+/**
+ * Runs a scenario step by step, stopping at the first failed step. Callbacks report the step about to run
+ * and each result as it completes, so a UI can follow the engine's actual position.
+ */
+export async function runScenario(
+  scenario: Scenario,
+  environment: ScenarioEnvironment,
+  callbacks: ScenarioCallbacks = {},
+): Promise<ScenarioResult> {
+  const { contracts } = environment
+  const controller = contracts.stabilizationController
+  const startedAt = Date.now()
+  const results: StepResult[] = []
+
+  const startSupply = await contracts.ecashToken.totalSupply()
+  let supplyBeforeRebase = startSupply
+  let oracleDecimals: bigint | undefined
+  const addedFeeds: string[] = []
+
+  const send = async (transaction: Promise<ethers.ContractTransactionResponse>) => {
+    const tx = await transaction
+    const receipt = await tx.wait()
+    if (!receipt) fail(`Transaction ${tx.hash} was dropped`)
+    return receipt!
+  }
+
+  const setPrice = async (usd: number, feed = contracts.chainlinkOracle) => {
+    oracleDecimals ??= await contracts.chainlinkOracle.decimals()
+    const answer = ethers.parseUnits(usd.toFixed(Number(oracleDecimals)), oracleDecimals)
+    return send(feed.updateAnswer(answer))
+  }
+
+  const executeStep = async (step: ScenarioStep): Promise<{ message: string; txHash?: string }> => {
+    switch (step.type) {
+      case "setPrice": {
+        const receipt = await setPrice(step.price)
+        return { message: `Oracle answer set to ${formatUsd(step.price)}`, txHash: receipt.hash }
+      }
+
+      case "addFeed": {
+        if (!environment.deployFeed) skip("Adding feeds needs a local network")
+        oracleDecimals ??= await contracts.chainlinkOracle.decimals()
+        const feed = await environment.deployFeed!(Number(oracleDecimals), `Scenario feed ${step.key}`)
+        await setPrice(step.price, feed)
+        const receipt = await send(
+          contracts.oracleAggregator.addOracle(
+            step.key,
+            await feed.getAddress(),
+            step.weight,
+            ADDED_FEED_HEARTBEAT,
+            oracleDecimals,
+            `Scenario feed ${step.key}`,
+          ),
+        )
+        addedFeeds.push(step.key)
+        return { message: `Feed ${step.key} registered at ${formatUsd(step.price)}`, txHash: receipt.hash }
+      }
+
+      case "setOracleFailure": {
+        const receipt = await send(contracts.chainlinkOracle.setFailureMode(oracleFailureModes.indexOf(step.mode)))
+        return { message: `Oracle failure mode set to ${step.mode}`, txHash: receipt.hash }
+      }
+
+      case "advanceTime": {
+        if (!environment.advanceTime) skip("Advancing time needs a local network")
+        const seconds = step.seconds === "cooldown" ? Number(await controller.rebaseCooldown()) : step.seconds
+        await environment.advanceTime!(seconds)
+        return { message: `Advanced ${seconds}s` }
+      }
+
+      case "rebase": {
+        const [circuitBreakerActive, canRebase, paused, preview] = await Promise.all([
+          controller.circuitBreakerActive(),
+          controller.canRebase(),
+          controller.paused(),
+          controller.previewRebase(),
+        ])
+        const blockedBy = circuitBreakerActive
+          ? "circuit breaker active"
+          : paused
+            ? "controller paused"
+            : !canRebase
+              ? "rebase on cooldown"
+              : preview.currentPrice === BigInt(0)
+                ? "no price with sufficient confidence"
+                : null
+
+        if (blockedBy) {
+          if (step.expect === "blocked") return { message: `Rebase blocked as expected (${blockedBy})` }
+          if (step.expect) fail(`Expected ${step.expect}, but rebase is blocked (${blockedBy})`)
+          skip(`Rebase blocked (${blockedBy})`)
+        }
+        if (step.expect === "blocked") fail("Expected the rebase to be blocked, but it can execute")
+
+        const supplyBefore = await contracts.ecashToken.totalSupply()
+        const receipt = await send(controller.rebase())
+        supplyBeforeRebase = supplyBefore
+
+        const events = receipt.logs
+          .map((log) => {
+            try {
+              return controller.interface.parseLog(log)
+            } catch {
+              return null
+            }
+          })
+          .filter((event): event is ethers.LogDescription => !!event)
+        const outcome = events.some((event) => event.name === "CircuitBreakerTriggered")
+          ? "circuitBreaker"
+          : events.some((event) => event.name === "RebaseExecuted")
+            ? "executed"
+            : "noChange"
+
+        if (step.expect && step.expect !== outcome) fail(`Expected ${step.expect}, but the rebase resulted in ${outcome}`)
+
+        if (outcome === "executed") {
+          const change = percentChange(supplyBefore, await contracts.ecashToken.totalSupply())
+          return {
+            message: `Supply ${change >= 0 ? "expanded" : "contracted"} by ${Math.abs(change).toFixed(2)}%`,
+            txHash: receipt.hash,
+          }
+        }
+        return {
+          message: outcome === "circuitBreaker" ? "Circuit breaker triggered" : "Price at target, supply unchanged",
+          txHash: receipt.hash,
+        }
+      }
+
+      case "assertSupply": {
+        const baseline = step.since === "start" ? startSupply : supplyBeforeRebase
+        const supply = await contracts.ecashToken.totalSupply()
+        const actual = supply > baseline ? "increased" : supply < baseline ? "decreased" : "unchanged"
+        const detail = `${ethers.formatEther(baseline)} → ${ethers.formatEther(supply)}`
+        if (actual !== step.change) fail(`Expected supply ${step.change}, but it ${actual} (${detail})`)
+        return { message: `Supply ${actual} (${detail})` }
+      }
+
+      case "assertBand": {
+        const status = await contracts.testHelper.getProtocolStatus()
+        const band = Number(status.stabilityBand)
+        if (band !== step.band) fail(`Expected band ${step.band}, but the protocol is in band ${band}`)
+        return { message: `Protocol in band ${band}` }
+      }
+
+      case "assertCircuitBreaker": {
+        const active = await controller.circuitBreakerActive()
+        if (active !== step.active) {
+          fail(`Expected circuit breaker ${step.active ? "active" : "inactive"}, but it is ${active ? "active" : "inactive"}`)
+        }
+        return { message: `Circuit breaker ${active ? "active" : "inactive"}` }
+      }
+
+      case "assertPrice": {
+        let aggregated: number
+        try {
+          const [priceWei] = await contracts.oracleAggregator.getAggregatedPrice()
+          aggregated = Number(ethers.formatEther(priceWei))
+        } catch (error: any) {
+          if (step.rejected) return { message: `Aggregator rejected the price (${error.reason || error.shortMessage || error.message})` }
+          return fail(`Aggregator reverted: ${error.reason || error.shortMessage || error.message}`)
+        }
+
+        if (step.rejected) fail(`Expected the aggregator to reject the price, but it reported ${formatUsd(aggregated)}`)
+        if ((step.min !== undefined && aggregated < step.min) || (step.max !== undefined && aggregated > step.max)) {
+          fail(`Aggregated price ${formatUsd(aggregated)} is outside ${describeStep({ ...step, label: undefined })}`)
+        }
+        return { message: `Aggregated price ${formatUsd(aggregated)}` }
+      }
+
+      case "reset": {
+        const targetPrice = Number(ethers.formatEther(await controller.targetPrice()))
+        const restored = [`Price restored to ${formatUsd(targetPrice)}`]
+        if (Number(await contracts.chainlinkOracle.failureMode()) !== 0) {
+          await send(contracts.chainlinkOracle.setFailureMode(0))
+          restored.push("oracle failure mode cleared")
+        }
+        const receipt = await setPrice(targetPrice)
+        if (await controller.circuitBreakerActive()) {
+          await send(controller.resetCircuitBreaker())
+          restored.push("circuit breaker reset")
+        }
+        return { message: restored.join(", "), txHash: receipt.hash }
+      }
+    }
+  }
+
+  for (const [index, step] of scenario.steps.entries()) {
+    callbacks.onStepStart?.(index)
+    const stepStartedAt = Date.now()
+    const label = describeStep(step)
+
+    let result: StepResult
+    try {
+      const { message, txHash } = await executeStep(step)
+      result = { index, label, status: "passed", message, txHash, durationMs: Date.now() - stepStartedAt }
+    } catch (error: any) {
+      const status: StepStatus = isStepOutcome(error) ? error.stepStatus : "failed"
+      const message = isStepOutcome(error) ? error.message : error.reason || error.shortMessage || error.message
+      result = { index, label, status, message, durationMs: Date.now() - stepStartedAt }
+    }
+
+    results.push(result)
+    callbacks.onStepComplete?.(result)
+    if (result.status === "failed") break
+  }
+
+  // Leave the aggregator with the feeds it started with
+  for (const key of addedFeeds) {
+    await send(contracts.oracleAggregator.removeOracle(key)).catch((error) =>
+      console.error(`Failed to remove scenario feed ${key}:`, error),
+    )
+  }
+
+  return {
+    name: scenario.name,
+    passed: results.every((result) => result.status !== "failed"),
+    steps: results,
+    durationMs: Date.now() - startedAt,
+  }
+}
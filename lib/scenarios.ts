@@ -0,0 +1,113 @@
+// Built-in scenarios. Each starts from a reset so it does not depend on what ran before it.
+import type { ScenarioDefinition } from "./scenario"
+
+export const builtInScenarios: ScenarioDefinition[] = [
+  {
+    name: "Market Crash Simulation",
+    description: "Simulates a gradual market crash from $1.00 to $0.75",
+    steps: [
+      { type: "reset" },
+      { type: "advanceTime", seconds: "cooldown" },
+      { type: "setPrice", price: 0.95 },
+      { type: "assertBand", band: 2 },
+      { type: "rebase", expect: "executed" },
+      { type: "assertSupply", change: "decreased" },
+      { type: "advanceTime", seconds: "cooldown" },
+      { type: "setPrice", price: 0.9 },
+      { type: "rebase", expect: "executed" },
+      { type: "assertSupply", change: "decreased" },
+      { type: "advanceTime", seconds: "cooldown" },
+      { type: "setPrice", price: 0.85 },
+      { type: "rebase", expect: "executed" },
+      { type: "advanceTime", seconds: "cooldown" },
+      { type: "setPrice", price: 0.8 },
+      { type: "rebase", expect: "circuitBreaker", label: "Verify circuit breaker activation" },
+      { type: "assertCircuitBreaker", active: true },
+      { type: "setPrice", price: 0.75 },
+      { type: "rebase", expect: "blocked", label: "Confirm system protection" },
+      { type: "assertSupply", change: "decreased", since: "start" },
+    ],
+  },
+  {
+    name: "Bull Market Growth",
+    description: "Tests controlled supply expansion during price increases",
+    steps: [
+      { type: "reset" },
+      { type: "advanceTime", seconds: "cooldown" },
+      { type: "setPrice", price: 1.05 },
+      { type: "rebase", expect: "executed", label: "Execute rebase and monitor supply" },
+      { type: "assertSupply", change: "increased" },
+      { type: "advanceTime", seconds: "cooldown" },
+      { type: "setPrice", price: 1.1 },
+      { type: "rebase", expect: "executed", label: "Execute rebase with dampening" },
+      { type: "advanceTime", seconds: "cooldown" },
+      { type: "setPrice", price: 1.15 },
+      { type: "rebase", expect: "executed", label: "Execute rebase with higher dampening" },
+      { type: "advanceTime", seconds: "cooldown" },
+      { type: "setPrice", price: 1.2 },
+      { type: "rebase", expect: "circuitBreaker", label: "Verify circuit breaker activation" },
+      { type: "reset" },
+      { type: "assertCircuitBreaker", active: false, label: "Confirm system stability" },
+      { type: "assertSupply", change: "increased", since: "start" },
+    ],
+  },
+  {
+    name: "Oracle Manipulation Attack",
+    description: "Tests that honest feeds outvote a manipulated one",
+    steps: [
+      { type: "reset", label: "Set normal price $1.00" },
+      { type: "addFeed", key: "honest-feed-1", price: 1, label: "Add honest feed at $1.00" },
+      { type: "addFeed", key: "honest-feed-2", price: 1, label: "Add second honest feed at $1.00" },
+      { type: "setPrice", price: 10, label: "Inject extreme price $10.00" },
+      { type: "assertPrice", min: 0.99, max: 1.01, label: "Verify the manipulated feed is rejected" },
+      { type: "setPrice", price: -1, label: "Test with negative price" },
+      { type: "assertPrice", min: 0.99, max: 1.01, label: "Verify system resilience" },
+      { type: "reset", label: "Restore normal operation" },
+      { type: "assertPrice", min: 0.99, max: 1.01, label: "Confirm data integrity" },
+    ],
+  },
+  {
+    name: "Oracle Failure Modes",
+    description: "Puts the oracle through each failure mode and checks no price or rebase gets through",
+    steps: [
+      { type: "reset" },
+      { type: "advanceTime", seconds: "cooldown" },
+      { type: "setPrice", price: 1.03 },
+      { type: "setOracleFailure", mode: "revert" },
+      { type: "assertPrice", rejected: true },
+      { type: "rebase", expect: "blocked", label: "Verify rebase refused on a reverting feed" },
+      { type: "setOracleFailure", mode: "zeroAnswer" },
+      { type: "assertPrice", rejected: true },
+      { type: "setOracleFailure", mode: "negativeAnswer" },
+      { type: "assertPrice", rejected: true },
+      { type: "setOracleFailure", mode: "staleTimestamp" },
+      { type: "assertPrice", rejected: true },
+      { type: "rebase", expect: "blocked", label: "Verify rebase refused on a stale feed" },
+      { type: "setOracleFailure", mode: "incompleteRound" },
+      { type: "assertPrice", rejected: true },
+      { type: "setOracleFailure", mode: "gasGriefing" },
+      { type: "assertPrice", rejected: true, label: "Verify a gas-griefing feed cannot block the aggregator" },
+      { type: "setOracleFailure", mode: "none" },
+      { type: "assertPrice", min: 1.02, max: 1.04, label: "Confirm the feed is used again" },
+      { type: "rebase", expect: "executed" },
+      { type: "assertSupply", change: "increased" },
+    ],
+  },
+  {
+    name: "Recovery Procedure",
+    description: "Tests system recovery from circuit breaker state",
+    steps: [
+      { type: "reset" },
+      { type: "advanceTime", seconds: "cooldown" },
+      { type: "setPrice", price: 0.75 },
+      { type: "rebase", expect: "circuitBreaker", label: "Trigger circuit breaker" },
+      { type: "rebase", expect: "blocked", label: "Verify system pause" },
+      { type: "reset", label: "Reset circuit breaker and restore price" },
+      { type: "assertCircuitBreaker", active: false },
+      { type: "advanceTime", seconds: "cooldown" },
+      { type: "setPrice", price: 1 },
+      { type: "rebase", expect: "noChange", label: "Execute recovery rebase" },
+      { type: "assertBand", band: 0, label: "Confirm full recovery" },
+    ],
+  },
+]
@@ -0,0 +1,202 @@
+// Bit-exact port of StabilizationController's rebase math, for off-chain simulation and tuning.
+// All values are 18-decimal fixed point, and every division truncates exactly like Solidity's uint256.
+import { ethers } from "ethers"
+import type { StabilizationController } from "../typechain-types"
+
+export interface PolicyParameters {
+  targetPrice: bigint
+  maxRebasePercentage: bigint
+  bandThresholds: [bigint, bigint, bigint, bigint] // bands 1-4
+  bandDampings: [bigint, bigint, bigint, bigint] // bands 1-4
+  rebaseCooldown: number // seconds
+  minOracleConfidence: number // aggregator confidence required to rebase, 0 to 100
+}
+
+// Human-readable form used by the deployment manifest and the dashboard forms
+export interface PolicySettings {
+  targetPrice: number // USD
+  maxRebasePercentage: number // percent
+  bandThresholds: number[] // percent, bands 1-4
+  bandDampings: number[] // percent, bands 1-4
+  rebaseCooldown: number // seconds
+  minOracleConfidence: number // percent
+}
+
+export interface RebaseOutcome {
+  deviation: bigint
+  stabilityBand: number
+  supplyDelta: bigint // 0 when the circuit breaker trips
+  newSupply: bigint
+  circuitBreaker: boolean
+}
+
+const ONE = ethers.parseEther("1")
+export const percent = (value: number) => ethers.parseUnits(String(value), 16)
+
+// StabilizationController.defaultPolicyParameters(), set when a controller is initialized
+export const defaultPolicy: PolicyParameters = {
+  targetPrice: ONE,
+  maxRebasePercentage: percent(10),
+  bandThresholds: [percent(1), percent(5), percent(10), percent(20)],
+  bandDampings: [percent(10), percent(25), percent(50), percent(75)],
+  rebaseCooldown: 12 * 60 * 60,
+  minOracleConfidence: 50,
+}
+
+// Bounds StabilizationController.setPolicyParameters enforces
+export const policyBounds = {
+  targetPrice: { min: ethers.parseEther("0.5"), max: ethers.parseEther("2") },
+  rebaseCooldown: { min: 60 * 60, max: 7 * 24 * 60 * 60 },
+  maxRebasePercentage: percent(50),
+  bandThreshold: percent(50),
+  damping: percent(100),
+}
+
+/**
+ * Checks parameters against the controller's bounds before they are sent, returning one message per problem in
+ * the wording of the contract's revert reasons.
+ */
+export function validatePolicy(policy: PolicyParameters): string[] {
+  const errors: string[] = []
+  const { bandThresholds, bandDampings, rebaseCooldown } = policy
+
+  if (policy.targetPrice < policyBounds.targetPrice.min || policy.targetPrice > policyBounds.targetPrice.max) {
+    errors.push("Target price out of bounds ($0.50 to $2.00)")
+  }
+  if (rebaseCooldown < policyBounds.rebaseCooldown.min || rebaseCooldown > policyBounds.rebaseCooldown.max) {
+    errors.push("Rebase cooldown out of bounds (1 hour to 7 days)")
+  }
+  if (policy.maxRebasePercentage <= BigInt(0) || policy.maxRebasePercentage > policyBounds.maxRebasePercentage) {
+    errors.push("Max rebase percentage out of bounds (above 0% up to 50%)")
+  }
+  if (bandThresholds[0] <= BigInt(0)) errors.push("Band thresholds must be positive")
+  if (bandThresholds.some((threshold, i) => i > 0 && threshold <= bandThresholds[i - 1])) {
+    errors.push("Band thresholds must increase")
+  }
+  if (bandThresholds[3] > policyBounds.bandThreshold) errors.push("Band threshold out of bounds (up to 50%)")
+  if (bandDampings.some((damping) => damping < BigInt(0) || damping > policyBounds.damping)) {
+    errors.push("Damping factor out of bounds (0% to 100%)")
+  }
+  if (policy.minOracleConfidence <= 0 || policy.minOracleConfidence > 100) {
+    errors.push("Min oracle confidence out of bounds (1 to 100)")
+  }
+  return errors
+}
+
+const toPercent = (value: bigint) => Number(ethers.formatUnits(value, 16))
+
+export const policyToSettings = (policy: PolicyParameters): PolicySettings => ({
+  targetPrice: Number(ethers.formatEther(policy.targetPrice)),
+  maxRebasePercentage: toPercent(policy.maxRebasePercentage),
+  bandThresholds: policy.bandThresholds.map(toPercent),
+  bandDampings: policy.bandDampings.map(toPercent),
+  rebaseCooldown: policy.rebaseCooldown,
+  minOracleConfidence: policy.minOracleConfidence,
+})
+
+export const settingsToPolicy = (settings: PolicySettings): PolicyParameters => ({
+  targetPrice: ethers.parseEther(String(settings.targetPrice)),
+  maxRebasePercentage: percent(settings.maxRebasePercentage),
+  bandThresholds: settings.bandThresholds.map(percent) as PolicyParameters["bandThresholds"],
+  bandDampings: settings.bandDampings.map(percent) as PolicyParameters["bandDampings"],
+  rebaseCooldown: settings.rebaseCooldown,
+  minOracleConfidence: settings.minOracleConfidence,
+})
+
+// Argument for StabilizationController.setPolicyParameters
+export const toContractParameters = (policy: PolicyParameters) => ({
+  ...policy,
+  rebaseCooldown: BigInt(policy.rebaseCooldown),
+  minOracleConfidence: BigInt(policy.minOracleConfidence),
+})
+
+// Names of the parameters whose values differ, as emitted in ParameterUpdated
+export function diffPolicies(from: PolicyParameters, to: PolicyParameters) {
+  const changed: string[] = []
+  if (from.targetPrice !== to.targetPrice) changed.push("targetPrice")
+  if (from.rebaseCooldown !== to.rebaseCooldown) changed.push("rebaseCooldown")
+  if (from.maxRebasePercentage !== to.maxRebasePercentage) changed.push("maxRebasePercentage")
+  for (let i = 0; i < 4; i++) {
+    if (from.bandThresholds[i] !== to.bandThresholds[i]) changed.push(`bandThreshold${i + 1}`)
+    if (from.bandDampings[i] !== to.bandDampings[i]) changed.push(`bandDamping${i + 1}`)
+  }
+  if (from.minOracleConfidence !== to.minOracleConfidence) changed.push("minOracleConfidence")
+  return changed
+}
+
+export function calculateDeviation(price: bigint, policy: PolicyParameters = defaultPolicy) {
+  const target = policy.targetPrice
+  return price >= target ? ((price - target) * ONE) / target : ((target - price) * ONE) / target
+}
+
+export function getStabilityBand(deviation: bigint, policy: PolicyParameters = defaultPolicy) {
+  for (let band = 4; band >= 1; band--) {
+    if (deviation >= policy.bandThresholds[band - 1]) return band
+  }
+  return 0
+}
+
+export function getDampingFactor(band: number, policy: PolicyParameters = defaultPolicy) {
+  return band >= 1 && band <= 4 ? policy.bandDampings[band - 1] : BigInt(0)
+}
+
+// Mirrors _calculateSupplyDelta: positive for expansion, negative for contraction
+export function calculateSupplyDelta(
+  price: bigint,
+  stabilityBand: number,
+  currentSupply: bigint,
+  policy: PolicyParameters = defaultPolicy,
+) {
+  if (price === policy.targetPrice) return BigInt(0)
+
+  const deviation = calculateDeviation(price, policy)
+  const rawAdjustment = (currentSupply * deviation) / ONE
+  let dampedAdjustment = (rawAdjustment * getDampingFactor(stabilityBand, policy)) / ONE
+
+  const maxAdjustment = (currentSupply * policy.maxRebasePercentage) / ONE
+  if (dampedAdjustment > maxAdjustment) dampedAdjustment = maxAdjustment
+
+  return price > policy.targetPrice ? dampedAdjustment : -dampedAdjustment
+}
+
+// Mirrors ECashToken.rebase: a contraction larger than the supply floors at zero
+export function applySupplyDelta(currentSupply: bigint, supplyDelta: bigint) {
+  if (supplyDelta >= BigInt(0)) return currentSupply + supplyDelta
+  return currentSupply > -supplyDelta ? currentSupply + supplyDelta : BigInt(0)
+}
+
+// What StabilizationController.rebase does at a given price, once cooldown, breaker and confidence checks pass
+export function simulateRebase(
+  price: bigint,
+  currentSupply: bigint,
+  policy: PolicyParameters = defaultPolicy,
+): RebaseOutcome {
+  const deviation = calculateDeviation(price, policy)
+  const stabilityBand = getStabilityBand(deviation, policy)
+
+  if (deviation >= policy.bandThresholds[3]) {
+    return { deviation, stabilityBand, supplyDelta: BigInt(0), newSupply: currentSupply, circuitBreaker: true }
+  }
+
+  const supplyDelta = calculateSupplyDelta(price, stabilityBand, currentSupply, policy)
+  return {
+    deviation,
+    stabilityBand,
+    supplyDelta,
+    newSupply: applySupplyDelta(currentSupply, supplyDelta),
+    circuitBreaker: false,
+  }
+}
+
+// Reads the parameters a deployed controller is running with
+export async function fetchDeployedPolicy(controller: StabilizationController): Promise<PolicyParameters> {
+  const parameters = await controller.getPolicyParameters()
+  return {
+    targetPrice: parameters.targetPrice,
+    maxRebasePercentage: parameters.maxRebasePercentage,
+    bandThresholds: [...parameters.bandThresholds] as PolicyParameters["bandThresholds"],
+    bandDampings: [...parameters.bandDampings] as PolicyParameters["bandDampings"],
+    rebaseCooldown: Number(parameters.rebaseCooldown),
+    minOracleConfidence: Number(parameters.minOracleConfidence),
+  }
+}
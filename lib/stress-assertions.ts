@@ -0,0 +1,154 @@
+// Post-conditions for the TestHelper stress tests, checked against the state captured around each run
+import { ethers } from "ethers"
+import type { ProtocolContracts } from "./contracts"
+import type { ProtocolStateSnapshot, ResetReport } from "./test-isolation"
+
+export type HelperTestName = "Normal Rebase" | "Circuit Breaker" | "Oracle Failure"
+
+// Decoded TestHelper.TestExecuted(testName, success, result)
+export interface TestExecution {
+  testName: string
+  success: boolean
+  result: string
+}
+
+export interface PostCondition {
+  label: string
+  expected: string
+  actual: string
+  passed: boolean
+}
+
+export interface PostConditionContext {
+  before: ProtocolStateSnapshot
+  after: ProtocolStateSnapshot
+  reset: ResetReport
+}
+
+export function decodeTestExecuted(
+  testHelper: ProtocolContracts["testHelper"],
+  receipt: ethers.TransactionReceipt,
+): TestExecution | null {
+  for (const log of receipt.logs) {
+    try {
+      const event = testHelper.interface.parseLog(log)
+      if (event?.name === "TestExecuted") {
+        return { testName: event.args.testName, success: event.args.success, result: event.args.result }
+      }
+    } catch {
+      // Logs from the contracts TestHelper calls into
+    }
+  }
+  return null
+}
+
+const helperTestCalls: Record<
+  HelperTestName,
+  (testHelper: ProtocolContracts["testHelper"]) => Promise<ethers.ContractTransactionResponse>
+> = {
+  "Normal Rebase": (testHelper) => testHelper.testNormalRebase(),
+  "Circuit Breaker": (testHelper) => testHelper.testCircuitBreaker(),
+  "Oracle Failure": (testHelper) => testHelper.testOracleFailure(),
+}
+
+/**
+ * Sends a TestHelper stress test and decodes its TestExecuted event. A mined transaction is not a pass by itself;
+ * judge the execution with checkPostConditions.
+ */
+export async function runHelperTest(testHelper: ProtocolContracts["testHelper"], testName: HelperTestName) {
+  const receipt = (await (await helperTestCalls[testName](testHelper)).wait())!
+  return { gasUsed: receipt.gasUsed.toString(), execution: decodeTestExecuted(testHelper, receipt) }
+}
+
+const supplyDirection = (before: ProtocolStateSnapshot, after: ProtocolStateSnapshot) => {
+  const delta = ethers.parseEther(after.totalSupply) - ethers.parseEther(before.totalSupply)
+  return delta > BigInt(0) ? "increased" : delta < BigInt(0) ? "decreased" : "unchanged"
+}
+
+const condition = (label: string, expected: string, actual: string): PostCondition => ({
+  label,
+  expected,
+  actual,
+  passed: expected === actual,
+})
+
+const atLeast = (label: string, minimum: number, actual: number): PostCondition => ({
+  label,
+  expected: `≥ ${minimum}`,
+  actual: String(actual),
+  passed: actual >= minimum,
+})
+
+/**
+ * Checks what a TestHelper test should have left behind. When the reset could not clear the cooldown, breaker or
+ * pause (on a testnet without admin rights), the rebase is expected to be refused and the helper to report failure.
+ */
+export function checkPostConditions(
+  testName: HelperTestName,
+  execution: TestExecution | null,
+  { before, after, reset }: PostConditionContext,
+): PostCondition[] {
+  const rebaseBlocked = reset.cooldownRemaining > 0 || before.circuitBreakerActive || before.paused
+  const reported = execution ? `${execution.success} (${execution.result})` : "not emitted"
+  const reportedAs = (success: boolean): PostCondition => ({
+    label: "TestExecuted success",
+    expected: String(success),
+    actual: reported,
+    passed: execution?.success === success,
+  })
+  const supply = supplyDirection(before, after)
+
+  switch (testName) {
+    case "Normal Rebase":
+      // $1.02 is 2% above target: band 1, supply expands
+      if (rebaseBlocked) {
+        return [
+          reportedAs(false),
+          condition("Total supply", "unchanged", supply),
+          condition("Rebase count", String(before.rebaseCount), String(after.rebaseCount)),
+        ]
+      }
+      return [
+        reportedAs(true),
+        condition("Total supply", "increased", supply),
+        condition("Stability band", "1", String(after.stabilityBand)),
+        condition("Circuit breaker", "false", String(after.circuitBreakerActive)),
+        atLeast("Oracle confidence", after.minOracleConfidence, after.oracleConfidence),
+        condition("Rebase count", String(before.rebaseCount + 1), String(after.rebaseCount)),
+      ]
+
+    case "Circuit Breaker":
+      // $0.75 is 25% below target: band 4 trips the breaker instead of rebasing
+      if (rebaseBlocked) {
+        return [
+          reportedAs(false),
+          condition("Total supply", "unchanged", supply),
+          condition("Circuit breaker", String(before.circuitBreakerActive), String(after.circuitBreakerActive)),
+        ]
+      }
+      return [
+        reportedAs(true),
+        condition("Circuit breaker", "true", String(after.circuitBreakerActive)),
+        condition("Stability band", "4", String(after.stabilityBand)),
+        condition("Total supply", "unchanged", supply),
+        atLeast("Oracle confidence", after.minOracleConfidence, after.oracleConfidence),
+        condition("Rebase count", String(before.rebaseCount), String(after.rebaseCount)),
+      ]
+
+    case "Oracle Failure":
+      // The helper puts the feed back in order, so the aggregator should produce a confident price again
+      return [
+        reportedAs(true),
+        {
+          label: "Aggregated price",
+          expected: "> 0",
+          actual: after.aggregatedPrice,
+          passed: Number(after.aggregatedPrice) > 0,
+        },
+        atLeast("Oracle confidence", after.minOracleConfidence, after.oracleConfidence),
+        condition("Oracle answer", before.oracleAnswer, after.oracleAnswer),
+        condition("Total supply", "unchanged", supply),
+        condition("Circuit breaker", String(before.circuitBreakerActive), String(after.circuitBreakerActive)),
+      ]
+  }
+}
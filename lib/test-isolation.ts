@@ -0,0 +1,191 @@
+// Runs dashboard tests against a known protocol state and records what each one changed
+import { ethers } from "ethers"
+import type { ProtocolContracts } from "./contracts"
+import type { TimeTravel } from "./time-travel"
+
+export interface ProtocolStateSnapshot {
+  blockNumber: number
+  oracleAnswer: string // latest mock oracle answer in USD, "unavailable" if the feed could not be read
+  aggregatedPrice: string // 0 when the aggregator reverts
+  oracleConfidence: number
+  minOracleConfidence: number // governable on the controller
+  totalSupply: string
+  stabilityBand: number
+  circuitBreakerActive: boolean
+  paused: boolean
+  canRebase: boolean
+  lastRebaseTime: number
+  rebaseCount: number
+}
+
+export interface StateChange {
+  field: keyof ProtocolStateSnapshot
+  before: string | number | boolean
+  after: string | number | boolean
+}
+
+export interface ResetReport {
+  actions: string[]
+  // Conditions the reset could not restore, such as a missing admin role or the rebase cooldown
+  warnings: string[]
+  cooldownRemaining: number // seconds until a rebase is allowed, 0 if it is now
+}
+
+// "snapshot": run inside evm_snapshot/evm_revert on a local network; "reset": best-effort reset beforehand
+export type IsolationMode = "snapshot" | "reset"
+
+export interface IsolatedRun<T> {
+  isolation: IsolationMode
+  reset: ResetReport
+  before: ProtocolStateSnapshot
+  after: ProtocolStateSnapshot
+  diff: StateChange[]
+  value?: T
+  error?: Error
+}
+
+type IsolationContracts = Pick<
+  ProtocolContracts,
+  "chainlinkOracle" | "ecashToken" | "oracleAggregator" | "stabilizationController" | "testHelper"
+>
+
+export async function captureProtocolState(contracts: IsolationContracts): Promise<ProtocolStateSnapshot> {
+  const controller = contracts.stabilizationController
+  const oracle = contracts.chainlinkOracle
+  const [status, paused, minOracleConfidence, answer, decimals, blockNumber] = await Promise.all([
+    contracts.testHelper.getProtocolStatus(),
+    controller.paused(),
+    controller.minOracleConfidence(),
+    // Stored rounds, since latestRoundData reverts while a test leaves the mock in a failure mode
+    oracle
+      .latestRound()
+      .then((round) => oracle.rounds(round))
+      .then(
+        (round) => round.answer,
+        () => null,
+      ),
+    oracle.decimals(),
+    controller.runner!.provider!.getBlockNumber(),
+  ])
+
+  return {
+    blockNumber,
+    oracleAnswer: answer === null ? "unavailable" : ethers.formatUnits(answer, decimals),
+    aggregatedPrice: ethers.formatEther(status.currentPrice),
+    oracleConfidence: Number(status.oracleConfidence),
+    minOracleConfidence: Number(minOracleConfidence),
+    totalSupply: ethers.formatEther(status.totalSupply),
+    stabilityBand: Number(status.stabilityBand),
+    circuitBreakerActive: status.circuitBreakerActive,
+    paused,
+    canRebase: status.canRebase,
+    lastRebaseTime: Number(status.lastRebaseTime),
+    rebaseCount: Number(status.rebaseCount),
+  }
+}
+
+export function diffProtocolState(before: ProtocolStateSnapshot, after: ProtocolStateSnapshot): StateChange[] {
+  return (Object.keys(before) as (keyof ProtocolStateSnapshot)[])
+    .filter((field) => field !== "blockNumber" && before[field] !== after[field])
+    .map((field) => ({ field, before: before[field], after: after[field] }))
+}
+
+/**
+ * Best-effort return to a neutral state on a live network: the mock oracle working and back at $1.00, the circuit
+ * breaker reset and the controller unpaused. The last two need DEFAULT_ADMIN_ROLE and are reported as warnings
+ * without it. The rebase cooldown cannot be reset, so the time remaining is reported for tests to adjust their
+ * expectations.
+ */
+export async function resetProtocol(contracts: IsolationContracts, timeTravel: TimeTravel | null = null) {
+  const controller = contracts.stabilizationController
+  const report: ResetReport = { actions: [], warnings: [], cooldownRemaining: 0 }
+
+  const attempt = async (action: string, send: () => Promise<ethers.ContractTransactionResponse>) => {
+    try {
+      await (await send()).wait()
+      report.actions.push(action)
+    } catch (error: any) {
+      report.warnings.push(`Could not ${action.toLowerCase()}: ${error.reason || error.shortMessage || error.message}`)
+    }
+  }
+
+  if (!(await controller.canRebase())) {
+    const [lastRebaseTime, cooldown, block] = await Promise.all([
+      controller.lastRebaseTime(),
+      controller.rebaseCooldown(),
+      controller.runner!.provider!.getBlock("latest"),
+    ])
+    const remaining = Number(lastRebaseTime + cooldown) - (block?.timestamp ?? Math.floor(Date.now() / 1000))
+
+    if (timeTravel) {
+      await timeTravel.increaseTime(Math.max(remaining, 1))
+      report.actions.push(`Skip the remaining ${remaining}s of rebase cooldown`)
+    } else {
+      report.cooldownRemaining = Math.max(remaining, 0)
+      report.warnings.push(`Rebase cooldown has ${report.cooldownRemaining}s left; rebases will be refused until then`)
+    }
+  }
+
+  // Before reading the feed, which may be set to revert
+  if (Number(await contracts.chainlinkOracle.failureMode()) !== 0) {
+    await attempt("Clear the oracle failure mode", () => contracts.chainlinkOracle.setFailureMode(0))
+  }
+
+  // Republish $1.00 when the answer differs or has gone stale, e.g. after skipping the cooldown
+  const decimals = await contracts.chainlinkOracle.decimals()
+  const target = ethers.parseUnits("1", decimals)
+  const [, answer] = await contracts.chainlinkOracle.latestRoundData()
+  const isFresh = await contracts.oracleAggregator.getAggregatedPrice().then(
+    () => true,
+    () => false,
+  )
+  if (answer !== target || !isFresh) {
+    await attempt("Restore the oracle price to $1.00", () => contracts.chainlinkOracle.updateAnswer(target))
+  }
+  if (await controller.circuitBreakerActive()) {
+    await attempt("Reset the circuit breaker", () => controller.resetCircuitBreaker())
+  }
+  if (await controller.paused()) {
+    await attempt("Unpause the controller", () => controller.emergencyUnpause())
+  }
+
+  return report
+}
+
+/**
+ * Runs a test from a reset state and records the state before and after it. With time travel (local networks)
+ * the test runs inside a snapshot that is reverted afterwards, so it leaves no trace; otherwise the reset is
+ * best-effort and the test's effects remain on chain.
+ */
+export async function runIsolated<T>(
+  contracts: IsolationContracts,
+  timeTravel: TimeTravel | null,
+  test: () => Promise<T>,
+): Promise<IsolatedRun<T>> {
+  const snapshotId = timeTravel ? await timeTravel.snapshot() : null
+  try {
+    const reset = await resetProtocol(contracts, timeTravel)
+    const before = await captureProtocolState(contracts)
+
+    let value: T | undefined
+    let error: Error | undefined
+    try {
+      value = await test()
+    } catch (caught: any) {
+      error = caught instanceof Error ? caught : new Error(String(caught))
+    }
+
+    const after = await captureProtocolState(contracts)
+    return {
+      isolation: snapshotId ? "snapshot" : "reset",
+      reset,
+      before,
+      after,
+      diff: diffProtocolState(before, after),
+      value,
+      error,
+    }
+  } finally {
+    if (timeTravel && snapshotId) await timeTravel.revert(snapshotId)
+  }
+}
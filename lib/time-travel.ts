@@ -0,0 +1,69 @@
+// Chain time and snapshot controls for local Hardhat networks, used by the dashboard and scripts
+
+// Hardhat Network and `npx hardhat node`; other networks reject the evm_* methods
+export const LOCAL_CHAIN_ID = 31337
+
+// Anything that can send raw JSON-RPC: an ethers JsonRpcApiProvider, Hardhat's provider or network.provider
+export interface RpcProvider {
+  send: (method: string, params: any[]) => Promise<any>
+}
+
+export interface TimeTravel {
+  // Moves chain time forward and mines a block, so view calls see the new timestamp. Returns it.
+  increaseTime: (seconds: number) => Promise<number>
+  mine: (blocks?: number) => Promise<void>
+  // Mines one block at exactly this timestamp, which must be later than the latest block's
+  mineAt: (timestamp: number) => Promise<void>
+  // With automine off, transactions wait in the mempool until the next mine, so several can share a block
+  setAutomine: (enabled: boolean) => Promise<void>
+  // Returns an id for revert; Hardhat discards it (and any later snapshot) once reverted to
+  snapshot: () => Promise<string>
+  revert: (snapshotId: string) => Promise<void>
+  getTimestamp: () => Promise<number>
+}
+
+export const supportsTimeTravel = (chainId: number) => chainId === LOCAL_CHAIN_ID
+
+export function createTimeTravel(provider: RpcProvider): TimeTravel {
+  const mine = async (blocks = 1) => {
+    for (let i = 0; i < blocks; i++) {
+      await provider.send("evm_mine", [])
+    }
+  }
+
+  const getTimestamp = async () => {
+    const block = await provider.send("eth_getBlockByNumber", ["latest", false])
+    return Number(block.timestamp)
+  }
+
+  return {
+    increaseTime: async (seconds) => {
+      if (!Number.isInteger(seconds) || seconds <= 0) {
+        throw new Error(`Cannot advance time by ${seconds}s, expected a positive whole number of seconds`)
+      }
+      await provider.send("evm_increaseTime", [seconds])
+      await mine()
+      return getTimestamp()
+    },
+    mine,
+    mineAt: async (timestamp) => {
+      await provider.send("evm_mine", [timestamp])
+    },
+    setAutomine: async (enabled) => {
+      await provider.send("evm_setAutomine", [enabled])
+    },
+    snapshot: async () => provider.send("evm_snapshot", []),
+    revert: async (snapshotId) => {
+      const reverted = await provider.send("evm_revert", [snapshotId])
+      if (!reverted) {
+        throw new Error(`Snapshot ${snapshotId} no longer exists; it was reverted to already, or taken after one that was`)
+      }
+    },
+    getTimestamp,
+  }
+}
+
+// Time travel for the connected network, or null when it is not a local Hardhat network
+export function getTimeTravel(provider: RpcProvider | null, chainId: number) {
+  return provider && supportsTimeTravel(chainId) ? createTimeTravel(provider) : null
+}
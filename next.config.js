@@ -1,3 +1,18 @@
+const fs = require("fs")
+const path = require("path")
+
+// Deployment manifests written by scripts/deploy.ts, bundled raw so lib/manifest.ts can validate them in the browser
+const readDeploymentManifests = () => {
+  const deploymentsDir = path.join(__dirname, "deployments")
+  if (!fs.existsSync(deploymentsDir)) return "[]"
+
+  const manifests = fs
+    .readdirSync(deploymentsDir)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => ({ source: `deployments/${file}`, content: fs.readFileSync(path.join(deploymentsDir, file), "utf8") }))
+  return JSON.stringify(manifests)
+}
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
@@ -5,6 +20,7 @@ const nextConfig = {
   env: {
     NEXT_PUBLIC_CHAIN_ID: process.env.NEXT_PUBLIC_CHAIN_ID || "31337",
     NEXT_PUBLIC_RPC_URL: process.env.NEXT_PUBLIC_RPC_URL || "http://localhost:8545",
+    NEXT_PUBLIC_DEPLOYMENT_MANIFESTS: readDeploymentManifests(),
   },
   eslint: {
     ignoreDuringBuilds: true,
@@ -0,0 +1,86 @@
+import { ethers, network } from "hardhat"
+import type { Log } from "ethers"
+import type { DeploymentManifest } from "../lib/manifest"
+import { getManifestPath, loadManifest } from "../lib/manifest-store"
+import {
+  diffPolicies,
+  fetchDeployedPolicy,
+  policyToSettings,
+  settingsToPolicy,
+  toContractParameters,
+  validatePolicy,
+} from "../lib/stabilization-policy"
+
+// PARAMETERS_MODE: "apply" (default) sends setPolicyParameters when the signer is an admin, otherwise prints the
+// call for a governance proposal; "check" only compares the manifest with the deployed controller
+type ParametersMode = "apply" | "check"
+
+async function main() {
+  console.log("🎛️  Applying stabilization parameters...\n")
+
+  const mode = (process.env.PARAMETERS_MODE || "apply") as ParametersMode
+  if (!["apply", "check"].includes(mode)) {
+    throw new Error(`Unknown PARAMETERS_MODE "${mode}", expected apply or check`)
+  }
+
+  const chainId = Number((await ethers.provider.getNetwork()).chainId)
+  let manifest: DeploymentManifest
+  try {
+    manifest = loadManifest(network.name, { chainId, requireComplete: true })
+  } catch (error: any) {
+    console.error("❌", error.message)
+    process.exit(1)
+  }
+  console.log("📄 Using deployment file:", getManifestPath(network.name))
+
+  const settings = manifest.parameters?.stabilizationController
+  if (!settings) {
+    throw new Error(`The manifest has no parameters.stabilizationController section to apply`)
+  }
+
+  const desired = settingsToPolicy(settings)
+  const errors = validatePolicy(desired)
+  if (errors.length > 0) {
+    errors.forEach((error) => console.error(`❌ ${error}`))
+    throw new Error("The manifest parameters are outside the controller's bounds")
+  }
+
+  const controller = await ethers.getContractAt("StabilizationController", manifest.contracts.stabilizationController)
+  const current = await fetchDeployedPolicy(controller)
+  const changed = diffPolicies(current, desired)
+  if (changed.length === 0) {
+    console.log("✅ The controller already runs the manifest parameters")
+    return
+  }
+
+  const [before, after] = [policyToSettings(current), policyToSettings(desired)]
+  console.log("\n🔎 Changes:")
+  console.table(
+    (Object.keys(after) as (keyof typeof after)[])
+      .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+      .map((key) => ({ parameter: key, current: JSON.stringify(before[key]), manifest: JSON.stringify(after[key]) })),
+  )
+  if (mode === "check") return
+
+  const [signer] = await ethers.getSigners()
+  const parameters = toContractParameters(desired)
+  if (!(await controller.hasRole(await controller.DEFAULT_ADMIN_ROLE(), signer.address))) {
+    // After governance hand-over the timelock is the admin, so the change has to go through a proposal
+    console.log(`\n📋 ${signer.address} is not an admin of the controller. Propose this call through governance:`)
+    console.log(`   To: ${await controller.getAddress()}`)
+    console.log(`   Data: ${controller.interface.encodeFunctionData("setPolicyParameters", [parameters])}`)
+    return
+  }
+
+  const receipt = await (await controller.setPolicyParameters(parameters)).wait()
+  const updates = receipt!.logs.filter((log: Log) => controller.interface.parseLog(log)?.name === "ParameterUpdated")
+  console.log(`\n✅ Updated ${updates.length} parameters`)
+  console.log(`   Tx: ${receipt!.hash} | Gas used: ${receipt!.gasUsed}`)
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Applying parameters failed:", error)
+    process.exit(1)
+  })
@@ -1,16 +1,117 @@
-import { ethers, upgrades, network } from "hardhat"
+import { ethers, network } from "hardhat"
 import fs from "fs"
 import path from "path"
-
-interface DeploymentData {
-  network: string
-  chainId: number | undefined
-  deployer: string
-  timestamp: string
-  contracts: Record<string, string>
-  gasUsed: Record<string, string>
-  transactionHashes: Record<string, string>
-}
+import { getGovernanceSettings, timelockRoleGrants } from "../lib/governance"
+import { createManifest, getManifestContracts } from "../lib/manifest"
+import { loadManifest, manifestExists } from "../lib/manifest-store"
+import {
+  addOracleStep,
+  contractStep,
+  grantRoleStep,
+  proxyStep,
+  renounceRoleStep,
+  runPipeline,
+  transactionStep,
+  type DeploymentStep,
+} from "./lib/pipeline"
+
+const steps: DeploymentStep[] = [
+  contractStep("chainlinkOracle", "MockChainlinkOracle", () => [8, "ETH/USD"]),
+  transactionStep(
+    "chainlinkOracle:initialPrice",
+    "Set initial oracle price to $1.00",
+    () => [100000000], // $1.00 with 8 decimals
+    async (ctx) => {
+      const oracle = await ethers.getContractAt("MockChainlinkOracle", ctx.address("chainlinkOracle"))
+      return (await oracle.latestRound()) > BigInt(0)
+    },
+    async (ctx, [answer]) => {
+      const oracle = await ethers.getContractAt("MockChainlinkOracle", ctx.address("chainlinkOracle"))
+      return oracle.updateAnswer(answer as number)
+    },
+  ),
+  proxyStep("ecashToken", "ECashToken", (ctx) => ["E-Cash", "ECASH", ctx.deployer]),
+  proxyStep("oracleAggregator", "OracleAggregator", (ctx) => [ctx.deployer]),
+  addOracleStep("oracleAggregator:chainlink-eth-usd", "oracleAggregator", (ctx) => ({
+    key: "chainlink-eth-usd",
+    oracle: ctx.address("chainlinkOracle"),
+    weight: 100, // 100% weight
+    heartbeat: 3600, // 1 hour heartbeat
+    decimals: 8, // 8 decimals
+    description: "Chainlink ETH/USD",
+  })),
+  proxyStep("treasury", "Treasury", (ctx) => [ctx.deployer]),
+  proxyStep("stabilizationController", "StabilizationController", (ctx) => [
+    ctx.deployer,
+    ctx.address("ecashToken"),
+    ctx.address("oracleAggregator"),
+    ctx.address("treasury"),
+  ]),
+  grantRoleStep("ecashToken:rebaser", "ecashToken", "ECashToken", "REBASER_ROLE", (ctx) =>
+    ctx.address("stabilizationController"),
+  ),
+  contractStep("testHelper", "TestHelper", (ctx) => [
+    ctx.address("ecashToken"),
+    ctx.address("oracleAggregator"),
+    ctx.address("stabilizationController"),
+    ctx.address("treasury"),
+    ctx.address("chainlinkOracle"),
+  ]),
+  // The stress tests rebase through TestHelper
+  grantRoleStep(
+    "stabilizationController:testHelper:OPERATOR_ROLE",
+    "stabilizationController",
+    "StabilizationController",
+    "OPERATOR_ROLE",
+    (ctx) => ctx.address("testHelper"),
+  ),
+  // Governance: the timelock executes passed proposals and holds the protocol admin roles
+  contractStep("governanceToken", "ECashGovernanceToken", (ctx) => [ctx.deployer]),
+  transactionStep(
+    "governanceToken:delegate",
+    "Delegate deployer votes to itself",
+    (ctx) => [ctx.deployer],
+    async (ctx) => {
+      const token = await ethers.getContractAt("ECashGovernanceToken", ctx.address("governanceToken"))
+      return (await token.delegates(ctx.deployer)) === ctx.deployer
+    },
+    async (ctx, [delegatee]) => {
+      const token = await ethers.getContractAt("ECashGovernanceToken", ctx.address("governanceToken"))
+      return token.delegate(delegatee as string)
+    },
+  ),
+  // No initial proposers; anyone may execute once the delay has passed
+  contractStep("timelock", "ECashTimelock", (ctx) => [
+    getGovernanceSettings(ctx.manifest.chainId).timelockDelay,
+    [],
+    [ethers.ZeroAddress],
+    ctx.deployer,
+  ]),
+  contractStep("governance", "ECashGovernor", (ctx) => {
+    const settings = getGovernanceSettings(ctx.manifest.chainId)
+    return [
+      ctx.address("governanceToken"),
+      ctx.address("timelock"),
+      settings.votingDelay,
+      settings.votingPeriod,
+      settings.quorumPercentage,
+    ]
+  }),
+  grantRoleStep("timelock:proposer", "timelock", "ECashTimelock", "PROPOSER_ROLE", (ctx) => ctx.address("governance")),
+  grantRoleStep("timelock:canceller", "timelock", "ECashTimelock", "CANCELLER_ROLE", (ctx) => ctx.address("governance")),
+  ...timelockRoleGrants.map(({ contract, contractName, role }) =>
+    grantRoleStep(`${contract}:timelock:${role}`, contract, contractName, role, (ctx) => ctx.address("timelock")),
+  ),
+  // Set GOVERNANCE_HANDOVER=true to leave the timelock as the only admin
+  ...(process.env.GOVERNANCE_HANDOVER === "true"
+    ? [
+        ...timelockRoleGrants.map(({ contract, contractName, role }) =>
+          renounceRoleStep(`${contract}:deployer:${role}:renounce`, contract, contractName, role),
+        ),
+        renounceRoleStep("timelock:deployer:renounce", "timelock", "ECashTimelock", "TIMELOCK_ADMIN_ROLE"),
+      ]
+    : []),
+]
 
 async function main() {
   console.log("🚀 Starting E-Cash Protocol Deployment...\n")
@@ -19,120 +120,35 @@ async function main() {
   console.log("Deploying contracts with account:", deployer.address)
   console.log("Account balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "ETH")
   console.log("Network:", network.name)
-  console.log("Chain ID:", network.config.chainId)
-
-  const deploymentData: DeploymentData = {
-    network: network.name,
-    chainId: network.config.chainId,
-    deployer: deployer.address,
-    timestamp: new Date().toISOString(),
-    contracts: {},
-    gasUsed: {},
-    transactionHashes: {},
+  const chainId = Number((await ethers.provider.getNetwork()).chainId)
+  console.log("Chain ID:", chainId)
+
+  // Set DEPLOY_FRESH=true to ignore an existing manifest and deploy everything again
+  const resume = manifestExists(network.name) && process.env.DEPLOY_FRESH !== "true"
+  const manifest = resume
+    ? loadManifest(network.name, { chainId })
+    : createManifest(network.name, chainId, deployer.address)
+  if (resume) {
+    console.log("📄 Resuming from existing deployment manifest")
   }
 
-  // Deploy MockChainlinkOracle first
-  console.log("\n📊 Deploying MockChainlinkOracle...")
-  const MockChainlinkOracle = await ethers.getContractFactory("MockChainlinkOracle")
-  const chainlinkOracle = await MockChainlinkOracle.deploy(8, "ETH/USD")
-  const oracleReceipt = await chainlinkOracle.deploymentTransaction()?.wait()
-
-  const oracleAddress = await chainlinkOracle.getAddress()
-  deploymentData.contracts.chainlinkOracle = oracleAddress
-  deploymentData.gasUsed.chainlinkOracle = oracleReceipt?.gasUsed.toString() || "0"
-  deploymentData.transactionHashes.chainlinkOracle = oracleReceipt?.hash || ""
-  console.log("✅ MockChainlinkOracle deployed to:", oracleAddress)
-  console.log("   Gas used:", oracleReceipt?.gasUsed.toString())
-
-  // Set initial price to $1.00
-  const setPriceTx = await chainlinkOracle.updateAnswer(100000000) // $1.00 with 8 decimals
-  await setPriceTx.wait()
-  console.log("✅ Initial price set to $1.00")
-
-  // Deploy ECashToken
-  console.log("\n🪙 Deploying ECashToken...")
-  const ECashToken = await ethers.getContractFactory("ECashToken")
-  const ecashToken = await upgrades.deployProxy(ECashToken, ["E-Cash", "ECASH", deployer.address], {
-    initializer: "initialize",
-  })
-  await ecashToken.waitForDeployment()
+  const manifestFile = await runPipeline(steps, manifest)
 
-  const ecashAddress = await ecashToken.getAddress()
-  deploymentData.contracts.ecashToken = ecashAddress
-  console.log("✅ ECashToken deployed to:", ecashAddress)
+  const {
+    ecashToken: ecashAddress,
+    oracleAggregator: aggregatorAddress,
+    treasury: treasuryAddress,
+    stabilizationController: controllerAddress,
+    chainlinkOracle: oracleAddress,
+    testHelper: testHelperAddress,
+    governance: governanceAddress,
+    timelock: timelockAddress,
+    governanceToken: governanceTokenAddress,
+  } = getManifestContracts(manifest)
 
-  // Deploy OracleAggregator
-  console.log("\n🔮 Deploying OracleAggregator...")
-  const OracleAggregator = await ethers.getContractFactory("OracleAggregator")
-  const oracleAggregator = await upgrades.deployProxy(OracleAggregator, [deployer.address], {
-    initializer: "initialize",
-  })
-  await oracleAggregator.waitForDeployment()
-
-  const aggregatorAddress = await oracleAggregator.getAddress()
-  deploymentData.contracts.oracleAggregator = aggregatorAddress
-  console.log("✅ OracleAggregator deployed to:", aggregatorAddress)
-
-  // Add oracle to aggregator
-  const addOracleTx = await oracleAggregator.addOracle(
-    "chainlink-eth-usd",
-    oracleAddress,
-    100, // 100% weight
-    3600, // 1 hour heartbeat
-    8, // 8 decimals
-    "Chainlink ETH/USD",
-  )
-  await addOracleTx.wait()
-  console.log("✅ Oracle added to aggregator")
-
-  // Deploy Treasury
-  console.log("\n🏦 Deploying Treasury...")
-  const Treasury = await ethers.getContractFactory("Treasury")
-  const treasury = await upgrades.deployProxy(Treasury, [deployer.address], { initializer: "initialize" })
-  await treasury.waitForDeployment()
-
-  const treasuryAddress = await treasury.getAddress()
-  deploymentData.contracts.treasury = treasuryAddress
-  console.log("✅ Treasury deployed to:", treasuryAddress)
-
-  // Deploy StabilizationController
-  console.log("\n⚖️ Deploying StabilizationController...")
-  const StabilizationController = await ethers.getContractFactory("StabilizationController")
-  const stabilizationController = await upgrades.deployProxy(
-    StabilizationController,
-    [deployer.address, ecashAddress, aggregatorAddress, treasuryAddress],
-    { initializer: "initialize" },
-  )
-  await stabilizationController.waitForDeployment()
-
-  const controllerAddress = await stabilizationController.getAddress()
-  deploymentData.contracts.stabilizationController = controllerAddress
-  console.log("✅ StabilizationController deployed to:", controllerAddress)
-
-  // Grant REBASER_ROLE to StabilizationController
-  const REBASER_ROLE = await ecashToken.REBASER_ROLE()
-  const grantRoleTx = await ecashToken.grantRole(REBASER_ROLE, controllerAddress)
-  await grantRoleTx.wait()
-  console.log("✅ REBASER_ROLE granted to StabilizationController")
-
-  // Deploy TestHelper
-  console.log("\n🧪 Deploying TestHelper...")
-  const TestHelper = await ethers.getContractFactory("TestHelper")
-  const testHelper = await TestHelper.deploy(
-    ecashAddress,
-    aggregatorAddress,
-    controllerAddress,
-    treasuryAddress,
-    oracleAddress,
-  )
-  const testHelperReceipt = await testHelper.deploymentTransaction()?.wait()
-
-  const testHelperAddress = await testHelper.getAddress()
-  deploymentData.contracts.testHelper = testHelperAddress
-  deploymentData.gasUsed.testHelper = testHelperReceipt?.gasUsed.toString() || "0"
-  deploymentData.transactionHashes.testHelper = testHelperReceipt?.hash || ""
-  console.log("✅ TestHelper deployed to:", testHelperAddress)
-  console.log("   Gas used:", testHelperReceipt?.gasUsed.toString())
+  const ecashToken = await ethers.getContractAt("ECashToken", ecashAddress)
+  const oracleAggregator = await ethers.getContractAt("OracleAggregator", aggregatorAddress)
+  const stabilizationController = await ethers.getContractAt("StabilizationController", controllerAddress)
 
   // Summary
   console.log("\n🎉 Deployment Complete!")
@@ -144,21 +160,15 @@ async function main() {
   console.log("- Treasury:", treasuryAddress)
   console.log("- MockChainlinkOracle:", oracleAddress)
   console.log("- TestHelper:", testHelperAddress)
+  console.log("- ECashGovernor:", governanceAddress)
+  console.log("- ECashTimelock:", timelockAddress)
+  console.log("- ECashGovernanceToken:", governanceTokenAddress)
   console.log("=====================================")
 
   // Calculate total gas used
-  const totalGasUsed = Object.values(deploymentData.gasUsed).reduce((total, gas) => total + BigInt(gas), BigInt(0))
+  const totalGasUsed = Object.values(manifest.steps).reduce((total, step) => total + BigInt(step.gasUsed), BigInt(0))
   console.log("Total Gas Used:", totalGasUsed.toString())
-
-  // Save deployment data
-  const deploymentsDir = path.join(__dirname, "..", "deployments")
-  if (!fs.existsSync(deploymentsDir)) {
-    fs.mkdirSync(deploymentsDir, { recursive: true })
-  }
-
-  const deploymentFile = path.join(deploymentsDir, `${network.name}-${Date.now()}.json`)
-  fs.writeFileSync(deploymentFile, JSON.stringify(deploymentData, null, 2))
-  console.log("📝 Deployment data saved to:", deploymentFile)
+  console.log("📝 Deployment manifest saved to:", manifestFile)
 
   // Update .env file with contract addresses
   const envPath = path.join(__dirname, "..", ".env.local")
@@ -173,6 +183,7 @@ async function main() {
     NEXT_PUBLIC_ECASH_TOKEN_ADDRESS: ecashAddress,
     NEXT_PUBLIC_ORACLE_AGGREGATOR_ADDRESS: aggregatorAddress,
     NEXT_PUBLIC_STABILIZATION_CONTROLLER_ADDRESS: controllerAddress,
+    NEXT_PUBLIC_GOVERNANCE_ADDRESS: governanceAddress,
     NEXT_PUBLIC_TREASURY_ADDRESS: treasuryAddress,
     NEXT_PUBLIC_TEST_HELPER_ADDRESS: testHelperAddress,
   }
@@ -0,0 +1,119 @@
+// Minimal Etherscan contract-verification client; `apiUrl` can point at a local stand-in for tests
+
+export interface EtherscanOptions {
+  apiUrl: string
+  apiKey: string
+  pollIntervalMs?: number
+  maxPolls?: number
+}
+
+export interface SourceSubmission {
+  address: string
+  contractName: string // fully qualified, e.g. contracts/ECashToken.sol:ECashToken
+  compilerVersion: string // e.g. v0.8.19+commit.7dd6d404
+  standardJsonInput: unknown
+  constructorArguments: string // ABI-encoded, without 0x prefix
+}
+
+interface EtherscanResponse {
+  status: string
+  message: string
+  result: any
+}
+
+export const ETHERSCAN_API_URLS: Record<number, string> = {
+  1: "https://api.etherscan.io/api",
+  5: "https://api-goerli.etherscan.io/api",
+  11155111: "https://api-sepolia.etherscan.io/api",
+}
+
+const request = async (options: EtherscanOptions, params: Record<string, string>, method: "GET" | "POST") => {
+  const body = new URLSearchParams({ ...params, apikey: options.apiKey })
+  const response =
+    method === "GET"
+      ? await fetch(`${options.apiUrl}?${body.toString()}`)
+      : await fetch(options.apiUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: body.toString(),
+        })
+
+  if (!response.ok) {
+    throw new Error(`Etherscan API responded with HTTP ${response.status}`)
+  }
+  return (await response.json()) as EtherscanResponse
+}
+
+const isAlreadyVerified = (message: string) => /already verified/i.test(message)
+
+const poll = async (options: EtherscanOptions, params: Record<string, string>) => {
+  const maxPolls = options.maxPolls ?? 20
+  for (let attempt = 0; attempt < maxPolls; attempt++) {
+    const response = await request(options, params, "GET")
+    const result = String(response.result)
+    if (!/pending/i.test(result)) {
+      return response
+    }
+    await new Promise((resolve) => setTimeout(resolve, options.pollIntervalMs ?? 3000))
+  }
+  throw new Error(`Timed out waiting for Etherscan (${params.action})`)
+}
+
+export async function isSourceVerified(options: EtherscanOptions, address: string) {
+  const response = await request(options, { module: "contract", action: "getsourcecode", address }, "GET")
+  return response.status === "1" && Array.isArray(response.result) && !!response.result[0]?.SourceCode
+}
+
+/**
+ * Submits standard-JSON source for an address and waits for the verdict.
+ * Resolves to "already-verified" when Etherscan reports the source is known, throws on any failure.
+ */
+export async function verifySource(options: EtherscanOptions, submission: SourceSubmission) {
+  const response = await request(
+    options,
+    {
+      module: "contract",
+      action: "verifysourcecode",
+      contractaddress: submission.address,
+      sourceCode: JSON.stringify(submission.standardJsonInput),
+      codeformat: "solidity-standard-json-input",
+      contractname: submission.contractName,
+      compilerversion: submission.compilerVersion,
+      constructorArguements: submission.constructorArguments, // Etherscan's spelling
+    },
+    "POST",
+  )
+
+  if (response.status !== "1") {
+    if (isAlreadyVerified(String(response.result))) return "already-verified" as const
+    throw new Error(String(response.result || response.message))
+  }
+
+  const verdict = await poll(options, { module: "contract", action: "checkverifystatus", guid: response.result })
+  const result = String(verdict.result)
+  if (isAlreadyVerified(result)) return "already-verified" as const
+  if (verdict.status !== "1") {
+    throw new Error(result)
+  }
+  return "verified" as const
+}
+
+/**
+ * Asks Etherscan to mark `proxy` as a proxy of `implementation` so the "Read/Write as Proxy" tabs appear.
+ */
+export async function linkProxy(options: EtherscanOptions, proxy: string, implementation: string) {
+  const response = await request(
+    options,
+    { module: "contract", action: "verifyproxycontract", address: proxy, expectedimplementation: implementation },
+    "POST",
+  )
+  if (response.status !== "1") {
+    throw new Error(String(response.result || response.message))
+  }
+
+  const verdict = await poll(options, { module: "contract", action: "checkproxyverification", guid: response.result })
+  if (verdict.status !== "1") {
+    throw new Error(String(verdict.result))
+  }
+  return "verified" as const
+}
@@ -0,0 +1,406 @@
+// Off-chain keeper that calls StabilizationController.rebase() whenever previewRebase says a rebase would go through
+import http from "http"
+import type { AddressInfo } from "net"
+import { ethers } from "ethers"
+import type { StabilizationController } from "../../typechain-types"
+
+export interface KeeperOptions {
+  pollIntervalMs: number
+  // A rebase still pending after this long is resent with the same nonce and higher fees
+  replaceAfterMs: number
+  // Nodes only accept a replacement that raises the fees by at least 10%
+  gasBumpPercent: number
+  // Never bid more than this per gas; null for no limit
+  maxFeePerGas: bigint | null
+  maxReplacements: number
+  log: (message: string) => void
+}
+
+export type KeeperCheck =
+  | { action: "rebase"; price: bigint; stabilityBand: number; projectedSupplyDelta: bigint }
+  | { action: "wait"; reason: string }
+
+export interface KeeperMetrics {
+  startedAt: number // ms
+  checks: number
+  lastCheckAt: number | null // ms
+  lastCheckBlock: number | null
+  lastDecision: string | null
+  rebasesSubmitted: number
+  rebasesConfirmed: number
+  breakerTrips: number
+  replacements: number
+  reverts: Record<string, number> // by revert reason
+  errors: number
+  consecutiveErrors: number
+  lastError: string | null
+  lastRebaseTx: string | null
+  pendingTx: string | null
+}
+
+export interface Keeper {
+  // Reads the controller and decides whether a rebase would do anything
+  check: () => Promise<KeeperCheck>
+  // One check, followed by a rebase (waiting for it to be mined) when the check says so
+  tick: () => Promise<void>
+  start: () => void
+  // Stops polling and gives up on a pending transaction; resolves once the current tick has returned
+  stop: () => Promise<void>
+  getMetrics: () => KeeperMetrics
+  isHealthy: () => boolean
+}
+
+type Fees = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | { gasPrice: bigint }
+
+// The caller always passes its own log
+export const defaultKeeperOptions: Omit<KeeperOptions, "log"> = {
+  pollIntervalMs: 15_000,
+  replaceAfterMs: 60_000,
+  gasBumpPercent: 20,
+  maxFeePerGas: null,
+  maxReplacements: 5,
+}
+
+const MAX_CONSECUTIVE_ERRORS = 3
+
+export function createKeeper(
+  controller: StabilizationController,
+  signer: ethers.Signer,
+  overrides: Partial<KeeperOptions> & Pick<KeeperOptions, "log">,
+): Keeper {
+  const options: KeeperOptions = { ...defaultKeeperOptions, ...overrides }
+  const provider = signer.provider
+  if (!provider) throw new Error("The keeper signer must be connected to a provider")
+
+  const metrics: KeeperMetrics = {
+    startedAt: Date.now(),
+    checks: 0,
+    lastCheckAt: null,
+    lastCheckBlock: null,
+    lastDecision: null,
+    rebasesSubmitted: 0,
+    rebasesConfirmed: 0,
+    breakerTrips: 0,
+    replacements: 0,
+    reverts: {},
+    errors: 0,
+    consecutiveErrors: 0,
+    lastError: null,
+    lastRebaseTx: null,
+    pendingTx: null,
+  }
+
+  // Set by stop(), so a tick run directly (without start) still waits for its receipt
+  let stopped = false
+  let running: Promise<void> | null = null
+  let wake: (() => void) | null = null
+
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms)
+      wake = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+    })
+
+  // ethers decodes the reason for most providers; the Hardhat network throws its own error with only the revert data
+  const errorReason = (error: unknown): string => {
+    if (!(error instanceof Error)) return String(error)
+    const { reason, data, shortMessage } = error as Error & {
+      reason?: string | null
+      data?: unknown
+      shortMessage?: string
+    }
+    if (reason) return reason
+    if (typeof data === "string") {
+      try {
+        const decoded = controller.interface.parseError(data)
+        if (decoded) return decoded.name === "Error" ? decoded.args[0] : decoded.signature
+      } catch {
+        // Not ABI-encoded revert data
+      }
+    }
+    return shortMessage || error.message
+  }
+
+  const recordRevert = (reason: string) => {
+    metrics.reverts[reason] = (metrics.reverts[reason] ?? 0) + 1
+    options.log(`⛔ Rebase would revert: ${reason}`)
+  }
+
+  const check = async (): Promise<KeeperCheck> => {
+    const [preview, canRebase, breakerActive, paused] = await Promise.all([
+      controller.previewRebase(),
+      controller.canRebase(),
+      controller.circuitBreakerActive(),
+      controller.paused(),
+    ])
+
+    if (paused) return { action: "wait", reason: "Controller paused" }
+    if (breakerActive) return { action: "wait", reason: "Circuit breaker active" }
+    if (!canRebase) return { action: "wait", reason: "Cooldown not elapsed" }
+    // previewRebase reports no price when the aggregator reverts or its confidence is below the controller's minimum
+    if (!preview.canExecute) return { action: "wait", reason: "Oracle price unavailable" }
+    if (preview.currentPrice === BigInt(0)) return { action: "wait", reason: "Insufficient oracle confidence" }
+    // A rebase without a supply change succeeds but does nothing, and doesn't restart the cooldown
+    if (preview.projectedSupplyDelta === BigInt(0)) return { action: "wait", reason: "No supply change at this price" }
+
+    return {
+      action: "rebase",
+      price: preview.currentPrice,
+      stabilityBand: Number(preview.stabilityBand),
+      projectedSupplyDelta: preview.projectedSupplyDelta,
+    }
+  }
+
+  const bump = (value: bigint, latest: bigint | null | undefined) => {
+    const bumped = (value * BigInt(100 + options.gasBumpPercent) + BigInt(99)) / BigInt(100)
+    return latest && latest > bumped ? latest : bumped
+  }
+
+  const initialFees = async (): Promise<Fees> => {
+    const feeData = await provider.getFeeData()
+    const cap = options.maxFeePerGas
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      const maxFeePerGas = cap !== null && feeData.maxFeePerGas > cap ? cap : feeData.maxFeePerGas
+      const maxPriorityFeePerGas =
+        feeData.maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : feeData.maxPriorityFeePerGas
+      return { maxFeePerGas, maxPriorityFeePerGas }
+    }
+    const gasPrice = feeData.gasPrice ?? BigInt(0)
+    return { gasPrice: cap !== null && gasPrice > cap ? cap : gasPrice }
+  }
+
+  // Fees for the replacement, or null when they would pass maxFeePerGas
+  const bumpFees = async (fees: Fees): Promise<Fees | null> => {
+    const feeData = await provider.getFeeData()
+    const next: Fees =
+      "gasPrice" in fees
+        ? { gasPrice: bump(fees.gasPrice, feeData.gasPrice) }
+        : {
+            maxFeePerGas: bump(fees.maxFeePerGas, feeData.maxFeePerGas),
+            maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas),
+          }
+    const bid = "gasPrice" in next ? next.gasPrice : next.maxFeePerGas
+    return options.maxFeePerGas !== null && bid > options.maxFeePerGas ? null : next
+  }
+
+  // Polls for a receipt of any of the transactions sharing the nonce; null after the timeout or when stopped
+  const waitForReceipt = async (hashes: string[], timeoutMs: number) => {
+    const deadline = Date.now() + timeoutMs
+    const interval = Math.max(50, Math.min(1000, Math.floor(timeoutMs / 4)))
+    for (;;) {
+      for (const hash of hashes) {
+        const receipt = await provider.getTransactionReceipt(hash)
+        if (receipt) return receipt
+      }
+      if (stopped || Date.now() >= deadline) return null
+      await new Promise((resolve) => setTimeout(resolve, interval))
+    }
+  }
+
+  const sendRebase = async (): Promise<ethers.TransactionReceipt | null> => {
+    const from = await signer.getAddress()
+    const nonce = await provider.getTransactionCount(from, "pending")
+    const gasLimit = ((await controller.rebase.estimateGas()) * BigInt(12)) / BigInt(10)
+    const request = {
+      to: await controller.getAddress(),
+      data: controller.interface.encodeFunctionData("rebase"),
+      nonce,
+      gasLimit,
+    }
+
+    let fees: Fees | null = await initialFees()
+    const hashes: string[] = []
+    for (let attempt = 0; ; attempt++) {
+      if (fees) {
+        try {
+          const tx = await signer.sendTransaction({ ...request, ...fees })
+          hashes.push(tx.hash)
+          metrics.pendingTx = tx.hash
+          if (attempt === 0) {
+            metrics.rebasesSubmitted++
+            options.log(`📤 Rebase submitted: ${tx.hash} (nonce ${nonce})`)
+          } else {
+            metrics.replacements++
+            options.log(`⛽ Rebase resent with higher fees: ${tx.hash} (nonce ${nonce})`)
+          }
+        } catch (error: any) {
+          // An earlier attempt was mined in the meantime, or the node wants a bigger bump; the receipt check decides
+          if (!["NONCE_EXPIRED", "REPLACEMENT_UNDERPRICED"].includes(error?.code) || hashes.length === 0) throw error
+          options.log(`⚠️  Replacement rejected: ${errorReason(error)}`)
+        }
+      }
+
+      const receipt = await waitForReceipt(hashes, options.replaceAfterMs)
+      if (receipt) return receipt
+      if (stopped) {
+        options.log(`🛑 Stopped with rebase ${hashes[hashes.length - 1]} still pending`)
+        return null
+      }
+
+      // Someone else used the nonce (e.g. a manual transaction from the same account)
+      if ((await provider.getTransactionCount(from, "latest")) > nonce) {
+        const late = await waitForReceipt(hashes, 0)
+        if (late) return late
+        throw new Error(`Nonce ${nonce} was used by another transaction; the rebase was dropped`)
+      }
+
+      fees = attempt < options.maxReplacements ? await bumpFees(fees ?? (await initialFees())) : null
+      if (!fees) options.log(`⏳ Rebase still pending, waiting without raising the fees further`)
+    }
+  }
+
+  const handleReceipt = async (receipt: ethers.TransactionReceipt) => {
+    metrics.lastRebaseTx = receipt.hash
+    if (receipt.status !== 1) {
+      // The receipt has no reason; simulating again usually shows which condition changed under us
+      const reason = await controller.rebase.staticCall().then(
+        () => "Reverted on chain",
+        (error: unknown) => errorReason(error),
+      )
+      recordRevert(reason)
+      return
+    }
+
+    const events = receipt.logs
+      .map((log) => {
+        try {
+          return controller.interface.parseLog(log)
+        } catch {
+          return null
+        }
+      })
+      .filter((event): event is ethers.LogDescription => !!event)
+    if (events.some((event) => event.name === "CircuitBreakerTriggered")) {
+      metrics.breakerTrips++
+      options.log(`🚨 Rebase tripped the circuit breaker in block ${receipt.blockNumber}`)
+      return
+    }
+    const executed = events.find((event) => event.name === "RebaseExecuted")
+    metrics.rebasesConfirmed++
+    options.log(
+      `✅ Rebase confirmed in block ${receipt.blockNumber}` +
+        (executed ? `: epoch ${executed.args.epoch}, supply ${ethers.formatEther(executed.args.newSupply)}` : ""),
+    )
+  }
+
+  const tick = async () => {
+    try {
+      const decision = await check()
+      metrics.checks++
+      metrics.lastCheckAt = Date.now()
+      metrics.lastCheckBlock = await provider.getBlockNumber()
+      metrics.lastDecision = decision.action === "rebase" ? "rebase" : decision.reason
+
+      if (decision.action === "rebase") {
+        options.log(
+          `🔄 Rebasing at $${ethers.formatEther(decision.price)} (band ${decision.stabilityBand}, ` +
+            `projected delta ${ethers.formatEther(decision.projectedSupplyDelta)})`,
+        )
+        // Surfaces "Circuit breaker active", "Insufficient oracle confidence" etc. without paying for a failed tx
+        const simulated = await controller.rebase.staticCall().then(
+          () => null,
+          (error: unknown) => errorReason(error),
+        )
+        if (simulated !== null) {
+          recordRevert(simulated)
+        } else {
+          const receipt = await sendRebase()
+          if (receipt) await handleReceipt(receipt)
+        }
+      }
+      metrics.consecutiveErrors = 0
+    } catch (error) {
+      metrics.errors++
+      metrics.consecutiveErrors++
+      metrics.lastError = errorReason(error)
+      options.log(`❌ Keeper error: ${metrics.lastError}`)
+    } finally {
+      metrics.pendingTx = null
+    }
+  }
+
+  return {
+    check,
+    tick,
+    start: () => {
+      if (running) return
+      stopped = false
+      running = (async () => {
+        while (!stopped) {
+          await tick()
+          if (!stopped) await sleep(options.pollIntervalMs)
+        }
+      })()
+    },
+    stop: async () => {
+      stopped = true
+      wake?.()
+      await running
+      running = null
+    },
+    getMetrics: () => ({ ...metrics, reverts: { ...metrics.reverts } }),
+    // A long-pending rebase counts as alive; repeated errors or checks that stopped happening do not
+    isHealthy: () =>
+      metrics.consecutiveErrors < MAX_CONSECUTIVE_ERRORS &&
+      (metrics.pendingTx !== null ||
+        (metrics.lastCheckAt !== null && Date.now() - metrics.lastCheckAt < 3 * options.pollIntervalMs)),
+  }
+}
+
+// Prometheus text exposition of the keeper metrics
+export function formatPrometheusMetrics(metrics: KeeperMetrics, healthy: boolean) {
+  const lines: string[] = []
+  const metric = (name: string, type: "counter" | "gauge", value: number, labels = "") => {
+    if (!lines.some((line) => line === `# TYPE ${name} ${type}`)) lines.push(`# TYPE ${name} ${type}`)
+    lines.push(`${name}${labels} ${value}`)
+  }
+
+  metric("ecash_keeper_up", "gauge", healthy ? 1 : 0)
+  metric("ecash_keeper_checks_total", "counter", metrics.checks)
+  metric("ecash_keeper_last_check_timestamp_seconds", "gauge", Math.floor((metrics.lastCheckAt ?? 0) / 1000))
+  metric("ecash_keeper_last_check_block", "gauge", metrics.lastCheckBlock ?? 0)
+  metric("ecash_keeper_rebases_submitted_total", "counter", metrics.rebasesSubmitted)
+  metric("ecash_keeper_rebases_confirmed_total", "counter", metrics.rebasesConfirmed)
+  metric("ecash_keeper_breaker_trips_total", "counter", metrics.breakerTrips)
+  metric("ecash_keeper_replacements_total", "counter", metrics.replacements)
+  for (const [reason, count] of Object.entries(metrics.reverts)) {
+    metric("ecash_keeper_reverts_total", "counter", count, `{reason=${JSON.stringify(reason)}}`)
+  }
+  metric("ecash_keeper_errors_total", "counter", metrics.errors)
+  metric("ecash_keeper_pending_transactions", "gauge", metrics.pendingTx ? 1 : 0)
+  return lines.join("\n") + "\n"
+}
+
+/**
+ * Serves GET /health (JSON metrics, 503 when unhealthy) and GET /metrics (Prometheus) for the keeper.
+ * Port 0 picks a free port.
+ */
+export async function startKeeperServer(keeper: Keeper, port: number, host = "127.0.0.1") {
+  const server = http.createServer((req, res) => {
+    const healthy = keeper.isHealthy()
+    const metrics = keeper.getMetrics()
+
+    if (req.url === "/health") {
+      res.statusCode = healthy ? 200 : 503
+      res.setHeader("Content-Type", "application/json")
+      res.end(JSON.stringify({ healthy, ...metrics }))
+    } else if (req.url === "/metrics") {
+      res.setHeader("Content-Type", "text/plain; version=0.0.4")
+      res.end(formatPrometheusMetrics(metrics, healthy))
+    } else {
+      res.statusCode = 404
+      res.end()
+    }
+  })
+
+  await new Promise<void>((resolve) => server.listen(port, host, resolve))
+  const address = server.address() as AddressInfo
+
+  return {
+    url: `http://${host}:${address.port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
@@ -0,0 +1,57 @@
+// Deploys a fresh protocol on the in-process Hardhat network for unattended runs; no manifest is written
+import type { HardhatRuntimeEnvironment } from "hardhat/types"
+import type { ECashToken, OracleAggregator, StabilizationController } from "../../typechain-types"
+import type { ScenarioContracts } from "../../lib/scenario"
+
+export async function deployLocalProtocol(hre: HardhatRuntimeEnvironment): Promise<ScenarioContracts> {
+  const { ethers, upgrades } = hre
+  const [owner] = await ethers.getSigners()
+
+  const MockChainlinkOracle = await ethers.getContractFactory("MockChainlinkOracle")
+  const chainlinkOracle = await MockChainlinkOracle.deploy(8, "ETH/USD")
+  await chainlinkOracle.updateAnswer(100000000) // $1.00
+
+  const ECashToken = await ethers.getContractFactory("ECashToken")
+  const ecashToken = (await upgrades.deployProxy(ECashToken, ["E-Cash", "ECASH", owner.address], {
+    initializer: "initialize",
+  })) as unknown as ECashToken
+
+  const OracleAggregator = await ethers.getContractFactory("OracleAggregator")
+  const oracleAggregator = (await upgrades.deployProxy(OracleAggregator, [owner.address], {
+    initializer: "initialize",
+  })) as unknown as OracleAggregator
+  await oracleAggregator.addOracle(
+    "chainlink-eth-usd",
+    await chainlinkOracle.getAddress(),
+    100,
+    3600,
+    8,
+    "Chainlink ETH/USD",
+  )
+
+  const Treasury = await ethers.getContractFactory("Treasury")
+  const treasury = await upgrades.deployProxy(Treasury, [owner.address], { initializer: "initialize" })
+
+  const StabilizationController = await ethers.getContractFactory("StabilizationController")
+  const stabilizationController = (await upgrades.deployProxy(
+    StabilizationController,
+    [owner.address, await ecashToken.getAddress(), await oracleAggregator.getAddress(), await treasury.getAddress()],
+    { initializer: "initialize" },
+  )) as unknown as StabilizationController
+  await ecashToken.grantRole(await ecashToken.REBASER_ROLE(), await stabilizationController.getAddress())
+
+  const TestHelper = await ethers.getContractFactory("TestHelper")
+  const testHelper = await TestHelper.deploy(
+    await ecashToken.getAddress(),
+    await oracleAggregator.getAddress(),
+    await stabilizationController.getAddress(),
+    await treasury.getAddress(),
+    await chainlinkOracle.getAddress(),
+  )
+  await stabilizationController.grantRole(
+    await stabilizationController.OPERATOR_ROLE(),
+    await testHelper.getAddress(),
+  )
+
+  return { chainlinkOracle, ecashToken, oracleAggregator, stabilizationController, testHelper }
+}
@@ -0,0 +1,276 @@
+import { ethers, upgrades, artifacts } from "hardhat"
+import type { Contract, ContractTransactionResponse, TransactionReceipt } from "ethers"
+import { saveManifest } from "../../lib/manifest-store"
+import type { DeploymentManifest, OracleRegistration, StepRecord } from "../../lib/manifest"
+
+export interface StepContext {
+  deployer: string
+  manifest: DeploymentManifest
+  address: (step: string) => string
+}
+
+export interface DeploymentStep {
+  name: string
+  description: string
+  // Returns true when the recorded result is still valid on-chain and the step can be skipped
+  isComplete: (ctx: StepContext, record: StepRecord | undefined) => Promise<boolean>
+  run: (ctx: StepContext) => Promise<Omit<StepRecord, "completedAt">>
+  // Copies a freshly completed step into the structured sections of the manifest
+  record?: (manifest: DeploymentManifest, record: StepRecord) => void | Promise<void>
+}
+
+const sameArgs = (a: unknown[], b: unknown[]) => JSON.stringify(a) === JSON.stringify(b)
+
+const requireReceipt = (receipt: TransactionReceipt | null | undefined, description: string) => {
+  if (!receipt || receipt.status !== 1) {
+    throw new Error(`${description}: transaction failed or was dropped`)
+  }
+  return receipt
+}
+
+const hasExpectedBytecode = async (address: string | undefined, contractName: string) => {
+  if (!address) return false
+  const [code, artifact] = await Promise.all([ethers.provider.getCode(address), artifacts.readArtifact(contractName)])
+  return code.toLowerCase() === artifact.deployedBytecode.toLowerCase()
+}
+
+/**
+ * Plain contract deployment, skipped when the recorded address already holds the expected runtime bytecode
+ * and was deployed with the same constructor arguments.
+ */
+export function contractStep(
+  name: string,
+  contractName: string,
+  args: (ctx: StepContext) => unknown[],
+): DeploymentStep {
+  return {
+    name,
+    description: `Deploy ${contractName}`,
+    isComplete: async (ctx, record) =>
+      !!record && sameArgs(record.args, args(ctx)) && (await hasExpectedBytecode(record.address, contractName)),
+    run: async (ctx) => {
+      const constructorArgs = args(ctx)
+      const factory = await ethers.getContractFactory(contractName)
+      const contract = await factory.deploy(...constructorArgs)
+      const receipt = requireReceipt(await contract.deploymentTransaction()?.wait(), `Deploy ${contractName}`)
+
+      return {
+        contract: contractName,
+        address: await contract.getAddress(),
+        txHash: receipt.hash,
+        gasUsed: receipt.gasUsed.toString(),
+        args: constructorArgs,
+      }
+    },
+    record: (manifest, record) => {
+      manifest.contracts[name] = record.address!
+    },
+  }
+}
+
+/**
+ * Transparent proxy deployment through the upgrades plugin, skipped when the recorded proxy still points
+ * at an implementation with the expected runtime bytecode.
+ */
+export function proxyStep(
+  name: string,
+  contractName: string,
+  args: (ctx: StepContext) => unknown[],
+): DeploymentStep {
+  return {
+    name,
+    description: `Deploy ${contractName} proxy`,
+    isComplete: async (ctx, record) => {
+      if (!record?.address || !sameArgs(record.args, args(ctx))) return false
+      if ((await ethers.provider.getCode(record.address)) === "0x") return false
+
+      const implementation = await upgrades.erc1967.getImplementationAddress(record.address).catch(() => undefined)
+      return hasExpectedBytecode(implementation, contractName)
+    },
+    run: async (ctx) => {
+      const initializerArgs = args(ctx)
+      const factory = await ethers.getContractFactory(contractName)
+      const proxy = await upgrades.deployProxy(factory, initializerArgs, { initializer: "initialize" })
+      await proxy.waitForDeployment()
+      const receipt = requireReceipt(await proxy.deploymentTransaction()?.wait(), `Deploy ${contractName} proxy`)
+
+      return {
+        contract: contractName,
+        address: await proxy.getAddress(),
+        txHash: receipt.hash,
+        gasUsed: receipt.gasUsed.toString(),
+        args: initializerArgs,
+      }
+    },
+    record: async (manifest, record) => {
+      const proxy = record.address!
+      manifest.contracts[name] = proxy
+      manifest.proxies[name] = {
+        address: proxy,
+        implementation: await upgrades.erc1967.getImplementationAddress(proxy),
+        admin: await upgrades.erc1967.getAdminAddress(proxy),
+      }
+    },
+  }
+}
+
+/**
+ * Post-deployment wiring call. `isApplied` reads chain state, so the call is only repeated when it is
+ * actually missing (e.g. the target contract was redeployed).
+ */
+export function transactionStep(
+  name: string,
+  description: string,
+  args: (ctx: StepContext) => unknown[],
+  isApplied: (ctx: StepContext) => Promise<boolean>,
+  send: (ctx: StepContext, args: unknown[]) => Promise<ContractTransactionResponse>,
+  record?: DeploymentStep["record"],
+): DeploymentStep {
+  return {
+    name,
+    description,
+    isComplete: async (ctx) => isApplied(ctx),
+    run: async (ctx) => {
+      const callArgs = args(ctx)
+      const receipt = requireReceipt(await (await send(ctx, callArgs)).wait(), description)
+
+      return {
+        txHash: receipt.hash,
+        gasUsed: receipt.gasUsed.toString(),
+        args: callArgs,
+      }
+    },
+    record,
+  }
+}
+
+// DEFAULT_ADMIN_ROLE has no getter on AccessControl, every other role is a public constant
+const roleId = async (contract: Contract, roleName: string): Promise<string> =>
+  roleName === "DEFAULT_ADMIN_ROLE" ? ethers.ZeroHash : contract.getFunction(roleName)()
+
+/**
+ * Grants `roleName` on an AccessControl contract and records the grant in the manifest's roles section.
+ */
+export function grantRoleStep(
+  name: string,
+  contractStepName: string,
+  contractName: string,
+  roleName: string,
+  account: (ctx: StepContext) => string,
+): DeploymentStep {
+  const getContract = (ctx: StepContext) => ethers.getContractAt(contractName, ctx.address(contractStepName))
+  const getRole = async (ctx: StepContext) => roleId(await getContract(ctx), roleName)
+
+  return transactionStep(
+    name,
+    `Grant ${roleName} on ${contractName}`,
+    (ctx) => [roleName, account(ctx)],
+    async (ctx) => (await getContract(ctx)).hasRole(await getRole(ctx), account(ctx)),
+    async (ctx, [, grantee]) => (await getContract(ctx)).grantRole(await getRole(ctx), grantee as string),
+    (manifest, record) => {
+      const grantee = record.args[1] as string
+      manifest.roles = manifest.roles.filter(
+        (grant) => !(grant.contract === contractStepName && grant.role === roleName && grant.account === grantee),
+      )
+      manifest.roles.push({ contract: contractStepName, role: roleName, account: grantee, txHash: record.txHash })
+    },
+  )
+}
+
+/**
+ * Drops the deployer's own `roleName`, e.g. once governance holds admin rights. Not recorded in the
+ * manifest's roles section, which only lists grants.
+ */
+export function renounceRoleStep(
+  name: string,
+  contractStepName: string,
+  contractName: string,
+  roleName: string,
+): DeploymentStep {
+  const getContract = (ctx: StepContext) => ethers.getContractAt(contractName, ctx.address(contractStepName))
+  const getRole = async (ctx: StepContext) => roleId(await getContract(ctx), roleName)
+
+  return transactionStep(
+    name,
+    `Renounce deployer's ${roleName} on ${contractName}`,
+    (ctx) => [roleName, ctx.deployer],
+    async (ctx) => !(await (await getContract(ctx)).hasRole(await getRole(ctx), ctx.deployer)),
+    async (ctx) => (await getContract(ctx)).renounceRole(await getRole(ctx), ctx.deployer),
+  )
+}
+
+type OracleArgs = [string, string, number, number, number, string]
+
+/**
+ * Registers a price feed on the OracleAggregator and records it in the manifest's oracles section.
+ */
+export function addOracleStep(
+  name: string,
+  aggregatorStepName: string,
+  registration: (ctx: StepContext) => Omit<OracleRegistration, "txHash">,
+): DeploymentStep {
+  const getAggregator = (ctx: StepContext) => ethers.getContractAt("OracleAggregator", ctx.address(aggregatorStepName))
+
+  return transactionStep(
+    name,
+    "Register oracle on OracleAggregator",
+    (ctx) => {
+      const { key, oracle, weight, heartbeat, decimals, description } = registration(ctx)
+      return [key, oracle, weight, heartbeat, decimals, description]
+    },
+    async (ctx) => {
+      const { key, oracle } = registration(ctx)
+      const config = await (await getAggregator(ctx)).oracles(key)
+      return config.isActive && config.oracle === oracle
+    },
+    async (ctx, args) => (await getAggregator(ctx)).addOracle(...(args as OracleArgs)),
+    (manifest, record) => {
+      const [key, oracle, weight, heartbeat, decimals, description] = record.args as OracleArgs
+      manifest.oracles = manifest.oracles.filter((registered) => registered.key !== key)
+      manifest.oracles.push({ key, oracle, weight, heartbeat, decimals, description, txHash: record.txHash })
+    },
+  )
+}
+
+/**
+ * Runs every step in order, persisting the manifest after each completed step so a failed run can be
+ * resumed from where it stopped. Returns the manifest file path.
+ */
+export async function runPipeline(steps: DeploymentStep[], manifest: DeploymentManifest) {
+  const ctx: StepContext = {
+    deployer: manifest.deployer,
+    manifest,
+    address: (step) => {
+      const address = manifest.steps[step]?.address
+      if (!address) {
+        throw new Error(`Step "${step}" has no recorded address`)
+      }
+      return address
+    },
+  }
+
+  manifest.completed = false
+
+  for (const [index, step] of steps.entries()) {
+    const label = `[${index + 1}/${steps.length}] ${step.description}`
+    const existing = manifest.steps[step.name]
+
+    if (await step.isComplete(ctx, existing)) {
+      console.log(`⏭️  ${label} — already done${existing?.address ? ` (${existing.address})` : ""}`)
+      continue
+    }
+
+    console.log(`\n▶️  ${label}...`)
+    const result = await step.run(ctx)
+    const record: StepRecord = { ...result, completedAt: new Date().toISOString() }
+    manifest.steps[step.name] = record
+    await step.record?.(manifest, record)
+    saveManifest(manifest)
+
+    console.log(`✅ ${step.description}${result.address ? `: ${result.address}` : ""}`)
+    console.log(`   Tx: ${result.txHash} | Gas used: ${result.gasUsed}`)
+  }
+
+  manifest.completed = true
+  return saveManifest(manifest)
+}
@@ -0,0 +1,74 @@
+// JUnit XML and JSON reports for headless scenario runs
+import type { Scenario, ScenarioResult } from "../../lib/scenario"
+import { describeStep } from "../../lib/scenario"
+
+export interface ScenarioReportEntry {
+  scenario: Scenario
+  result: ScenarioResult
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3)
+
+/**
+ * One testsuite per scenario and one testcase per step. Steps after a failure never ran and are reported as
+ * skipped, so every step of the definition appears in the report.
+ */
+export function toJUnitXml(entries: ScenarioReportEntry[]) {
+  const suites = entries.map(({ scenario, result }) => {
+    const cases = scenario.steps.map((step, index) => {
+      const stepResult = result.steps.find((r) => r.index === index)
+      const name = escapeXml(`${index + 1}. ${stepResult?.label ?? describeStep(step)}`)
+      const time = seconds(stepResult?.durationMs ?? 0)
+      const attributes = `classname="${escapeXml(scenario.name)}" name="${name}" time="${time}"`
+
+      if (!stepResult) return `    <testcase ${attributes}>\n      <skipped message="Not run" />\n    </testcase>`
+      if (stepResult.status === "failed") {
+        const message = escapeXml(stepResult.message)
+        return `    <testcase ${attributes}>\n      <failure message="${message}">${message}</failure>\n    </testcase>`
+      }
+      if (stepResult.status === "skipped") {
+        const message = escapeXml(stepResult.message)
+        return `    <testcase ${attributes}>\n      <skipped message="${message}" />\n    </testcase>`
+      }
+      return `    <testcase ${attributes} />`
+    })
+
+    const failures = result.steps.filter((step) => step.status === "failed").length
+    const notRun = scenario.steps.length - result.steps.length
+    const skipped = notRun + result.steps.filter((step) => step.status === "skipped").length
+    const counts = `tests="${scenario.steps.length}" failures="${failures}" skipped="${skipped}"`
+    return [
+      `  <testsuite name="${escapeXml(scenario.name)}" ${counts} time="${seconds(result.durationMs)}">`,
+      ...cases,
+      "  </testsuite>",
+    ].join("\n")
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<testsuites name="E-Cash scenarios">',
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n")
+}
+
+export function toJsonReport(entries: ScenarioReportEntry[]) {
+  return JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      passed: entries.every(({ result }) => result.passed),
+      scenarios: entries.map(({ result }) => result),
+    },
+    null,
+    2,
+  )
+}
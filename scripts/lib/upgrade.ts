@@ -0,0 +1,267 @@
+import { ethers, upgrades, artifacts } from "hardhat"
+import type { BaseContract, ContractTransactionReceipt, ContractTransactionResponse } from "ethers"
+import { proxyContractKeys, type DeploymentManifest, type UpgradeRecord } from "../../lib/manifest"
+
+export interface UpgradeTarget {
+  key: string // manifest key of the proxy, e.g. "stabilizationController"
+  contractName: string // artifact of the new implementation
+  proxy: string
+  admin: string
+}
+
+export interface ProtocolInvariants {
+  totalSupply: string
+  tokenRebaseCount: string
+  controllerRebaseCount: string
+  controllerTargetPrice: string | null // null while the controller runs an implementation without stored parameters
+  roles: Record<string, boolean> // "<contract>:<role>:<account>" -> hasRole
+  oracles: Record<string, { oracle: string; weight: string; isActive: boolean }>
+}
+
+const PROXY_ADMIN_ABI = [
+  "function owner() view returns (address)",
+  "function upgradeAndCall(address proxy, address implementation, bytes data) payable",
+]
+
+/**
+ * Parses a comma-separated list of manifest keys, optionally renamed to a new artifact
+ * (`stabilizationController=StabilizationControllerV2`). Defaults to every protocol proxy with its
+ * recorded contract name.
+ */
+export function resolveUpgradeTargets(manifest: DeploymentManifest, spec?: string): UpgradeTarget[] {
+  const entries = spec
+    ? spec
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    : [...proxyContractKeys]
+
+  return entries.map((entry) => {
+    const [key, contractName] = entry.split("=").map((part) => part.trim())
+    const record = manifest.proxies[key]
+    if (!record) {
+      throw new Error(`"${key}" is not a proxy in the deployment manifest (known: ${Object.keys(manifest.proxies).join(", ")})`)
+    }
+    return {
+      key,
+      contractName: contractName || manifest.steps[key]?.contract || key,
+      proxy: record.address,
+      admin: record.admin,
+    }
+  })
+}
+
+/**
+ * Compares the proxy's EIP-1967 implementation with the manifest. An implementation that was prepared
+ * for a multisig and has since been executed is accepted and marked as upgraded; anything else is an error.
+ * Returns the current implementation address.
+ */
+export async function reconcileImplementation(manifest: DeploymentManifest, target: UpgradeTarget) {
+  const record = manifest.proxies[target.key]
+  const onChain = await upgrades.erc1967.getImplementationAddress(target.proxy)
+  if (onChain.toLowerCase() === record.implementation.toLowerCase()) return onChain
+
+  const prepared = record.history?.find(
+    (entry) => entry.status === "prepared" && entry.implementation.toLowerCase() === onChain.toLowerCase(),
+  )
+  if (!prepared) {
+    throw new Error(
+      `${target.key} proxy points at ${onChain}, but the manifest records ${record.implementation}. Resolve the mismatch before upgrading.`,
+    )
+  }
+
+  prepared.status = "upgraded"
+  prepared.recordedAt = new Date().toISOString()
+  record.implementation = onChain
+  console.log(`ℹ️  ${target.key}: prepared implementation ${onChain} has been executed`)
+  return onChain
+}
+
+// True when the current implementation already runs the target artifact's bytecode
+export async function isUpToDate(implementation: string, contractName: string) {
+  const [code, artifact] = await Promise.all([ethers.provider.getCode(implementation), artifacts.readArtifact(contractName)])
+  return code.toLowerCase() === artifact.deployedBytecode.toLowerCase()
+}
+
+/**
+ * Storage-layout and upgrade-safety check of the new implementation against the layout the upgrades
+ * plugin recorded for the proxy's current implementation in `.openzeppelin/`.
+ */
+export async function validateTarget(target: UpgradeTarget) {
+  const factory = await ethers.getContractFactory(target.contractName)
+  try {
+    await upgrades.validateUpgrade(target.proxy, factory, { kind: "transparent" })
+  } catch (error: any) {
+    if (/not registered/i.test(error.message)) {
+      throw new Error(
+        `${target.key}: no storage layout recorded for the current implementation. Import it with upgrades.forceImport using the previously deployed source, then retry.`,
+      )
+    }
+    throw new Error(`${target.key}: ${error.message}`)
+  }
+}
+
+export async function getProxyAdminOwner(admin: string): Promise<string> {
+  const proxyAdmin = await ethers.getContractAt(PROXY_ADMIN_ABI, admin)
+  return proxyAdmin.owner()
+}
+
+/**
+ * Function the upgrade transaction has to call on the new implementation, if any. StabilizationController's policy
+ * parameters moved from constants into storage, so a proxy upgraded from an implementation without them reads a
+ * zero target price, and cannot rebase, until `initializePolicyParameters` loads the defaults.
+ */
+export async function resolveUpgradeCall(target: UpgradeTarget): Promise<string | undefined> {
+  const factory = await ethers.getContractFactory(target.contractName)
+  if (!factory.interface.getFunction("initializePolicyParameters")) return undefined
+
+  const controller = await ethers.getContractAt(["function targetPrice() view returns (uint256)"], target.proxy)
+  // Implementations from before the parameters were stored have no targetPrice getter
+  const targetPrice: bigint = await controller.targetPrice().catch(() => BigInt(0))
+  return targetPrice === BigInt(0) ? "initializePolicyParameters" : undefined
+}
+
+// Transaction the ProxyAdmin owner (e.g. a multisig) has to submit to activate a prepared implementation
+export async function encodeUpgradeTransaction(target: UpgradeTarget, implementation: string) {
+  const call = await resolveUpgradeCall(target)
+  const factory = await ethers.getContractFactory(target.contractName)
+  return {
+    to: target.admin,
+    value: "0",
+    data: new ethers.Interface(PROXY_ADMIN_ABI).encodeFunctionData("upgradeAndCall", [
+      target.proxy,
+      implementation,
+      call ? factory.interface.encodeFunctionData(call) : "0x",
+    ]),
+  }
+}
+
+export function recordUpgrade(manifest: DeploymentManifest, target: UpgradeTarget, entry: Omit<UpgradeRecord, "recordedAt">) {
+  const record = manifest.proxies[target.key]
+  record.history = [...(record.history || []), { ...entry, recordedAt: new Date().toISOString() }]
+  if (entry.status === "upgraded") {
+    record.implementation = entry.implementation
+  }
+  if (manifest.steps[target.key]) {
+    manifest.steps[target.key].contract = entry.contract
+  }
+}
+
+/**
+ * Upgrades the proxy to the target artifact from the signer (the ProxyAdmin owner), running the initializer the
+ * new implementation needs in the same transaction, and records the upgrade, with its transaction hash, in the
+ * manifest. The caller saves the manifest.
+ */
+export async function upgradeTarget(
+  manifest: DeploymentManifest,
+  target: UpgradeTarget,
+  previousImplementation: string,
+  options: Omit<NonNullable<Parameters<typeof upgrades.upgradeProxy>[2]>, "kind"> = {},
+): Promise<{ implementation: string; receipt: ContractTransactionReceipt | null }> {
+  const factory = await ethers.getContractFactory(target.contractName)
+  const call = await resolveUpgradeCall(target)
+  const upgraded = await upgrades.upgradeProxy(target.proxy, factory, { call, ...options, kind: "transparent" })
+  // The plugin attaches the upgrade transaction to the instance it returns without declaring it
+  const { deployTransaction } = upgraded as typeof upgraded & { deployTransaction?: ContractTransactionResponse }
+  const receipt = (await deployTransaction?.wait()) ?? null
+  const implementation = await upgrades.erc1967.getImplementationAddress(target.proxy)
+
+  recordUpgrade(manifest, target, {
+    contract: target.contractName,
+    previousImplementation,
+    implementation,
+    status: "upgraded",
+    txHash: receipt?.hash,
+  })
+  return { implementation, receipt }
+}
+
+const roleId = (contract: BaseContract, role: string): Promise<string> =>
+  role === "DEFAULT_ADMIN_ROLE" ? Promise.resolve(ethers.ZeroHash) : contract.getFunction(role).staticCall()
+
+/**
+ * Reads the state an upgrade must never change: token supply, rebase counters, every role grant recorded
+ * in the manifest (plus the deployer's admin role on each proxy) and the aggregator's registered oracles. Also
+ * reads the controller's target price, which must never be zero.
+ */
+export async function captureInvariants(manifest: DeploymentManifest): Promise<ProtocolInvariants> {
+  const ecashToken = await ethers.getContractAt("ECashToken", manifest.contracts.ecashToken)
+  const stabilizationController = await ethers.getContractAt(
+    "StabilizationController",
+    manifest.contracts.stabilizationController,
+  )
+  const oracleAggregator = await ethers.getContractAt("OracleAggregator", manifest.contracts.oracleAggregator)
+
+  const grants = [
+    ...manifest.roles.map(({ contract, role, account }) => ({ contract, role, account })),
+    ...proxyContractKeys.map((contract) => ({ contract, role: "DEFAULT_ADMIN_ROLE", account: manifest.deployer })),
+  ]
+  const roles: ProtocolInvariants["roles"] = {}
+  for (const { contract, role, account } of grants) {
+    const instance = await ethers.getContractAt(manifest.steps[contract]?.contract || contract, manifest.contracts[contract])
+    roles[`${contract}:${role}:${account}`] = await instance.hasRole(await roleId(instance, role), account)
+  }
+
+  const oracles: ProtocolInvariants["oracles"] = {}
+  const oracleCount = await oracleAggregator.getOracleCount()
+  for (let i = 0; i < Number(oracleCount); i++) {
+    const key = await oracleAggregator.oracleKeys(i)
+    const config = await oracleAggregator.oracles(key)
+    oracles[key] = { oracle: config.oracle, weight: config.weight.toString(), isActive: config.isActive }
+  }
+
+  return {
+    totalSupply: (await ecashToken.totalSupply()).toString(),
+    tokenRebaseCount: (await ecashToken.rebaseCount()).toString(),
+    controllerRebaseCount: (await stabilizationController.rebaseCount()).toString(),
+    controllerTargetPrice: await stabilizationController.targetPrice().then(String, () => null),
+    roles,
+    oracles,
+  }
+}
+
+/**
+ * Returns a description of every broken invariant. Without `before` only the manifest's expectations
+ * are checked (recorded roles granted, recorded oracles registered and active) and that the controller's policy
+ * parameters are initialized.
+ */
+export function checkInvariants(
+  manifest: DeploymentManifest,
+  after: ProtocolInvariants,
+  before?: ProtocolInvariants,
+): string[] {
+  const violations: string[] = []
+
+  for (const { contract, role, account } of manifest.roles) {
+    if (!after.roles[`${contract}:${role}:${account}`]) {
+      violations.push(`${contract}: ${account} no longer has ${role}`)
+    }
+  }
+  for (const registration of manifest.oracles) {
+    const oracle = after.oracles[registration.key]
+    if (!oracle || !oracle.isActive || oracle.oracle.toLowerCase() !== registration.oracle.toLowerCase()) {
+      violations.push(`oracleAggregator: oracle "${registration.key}" is no longer registered and active`)
+    }
+  }
+  if (after.controllerTargetPrice === "0") {
+    violations.push("stabilizationController: targetPrice is 0, the policy parameters were never initialized")
+  }
+
+  if (!before) return violations
+
+  const compare = (label: string, previous: string, current: string) => {
+    if (previous !== current) violations.push(`${label} changed from ${previous} to ${current}`)
+  }
+  compare("ECashToken totalSupply", before.totalSupply, after.totalSupply)
+  compare("ECashToken rebaseCount", before.tokenRebaseCount, after.tokenRebaseCount)
+  compare("StabilizationController rebaseCount", before.controllerRebaseCount, after.controllerRebaseCount)
+  for (const [grant, granted] of Object.entries(before.roles)) {
+    compare(`Role ${grant}`, String(granted), String(after.roles[grant]))
+  }
+  compare("Oracle keys", Object.keys(before.oracles).join(","), Object.keys(after.oracles).join(","))
+  for (const [key, oracle] of Object.entries(before.oracles)) {
+    compare(`Oracle "${key}"`, JSON.stringify(oracle), JSON.stringify(after.oracles[key]))
+  }
+
+  return violations
+}
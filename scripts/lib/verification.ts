@@ -0,0 +1,136 @@
+import { ethers, upgrades, artifacts } from "hardhat"
+import type { DeploymentManifest } from "../../lib/manifest"
+import { isSourceVerified, linkProxy, verifySource, type EtherscanOptions } from "./etherscan"
+
+export type VerificationStatus = "verified" | "already-verified" | "failed"
+
+export interface VerificationTarget {
+  name: string
+  kind: "contract" | "implementation" | "proxy"
+  address: string
+  contractName: string
+  constructorArgs: unknown[]
+  implementation?: string
+  admin?: string
+}
+
+export interface VerificationResult extends Omit<VerificationTarget, "constructorArgs"> {
+  status: VerificationStatus
+  reason?: string
+}
+
+/**
+ * Every contract recorded in the manifest. Proxies expand into their implementation plus the proxy
+ * itself, with implementation and admin read from the EIP-1967 slots rather than trusted from the file.
+ */
+export async function resolveVerificationTargets(manifest: DeploymentManifest): Promise<VerificationTarget[]> {
+  const targets: VerificationTarget[] = []
+
+  for (const [name, record] of Object.entries(manifest.steps)) {
+    if (!record.contract || !record.address) continue
+
+    if (!manifest.proxies[name]) {
+      targets.push({
+        name: record.contract,
+        kind: "contract",
+        address: record.address,
+        contractName: record.contract,
+        constructorArgs: record.args,
+      })
+      continue
+    }
+
+    const implementation = await upgrades.erc1967.getImplementationAddress(record.address)
+    const admin = await upgrades.erc1967.getAdminAddress(record.address)
+    if (implementation.toLowerCase() !== manifest.proxies[name].implementation.toLowerCase()) {
+      console.log(`⚠️ ${record.contract} proxy points at ${implementation}, manifest records ${manifest.proxies[name].implementation}`)
+    }
+
+    targets.push(
+      {
+        name: `${record.contract} implementation`,
+        kind: "implementation",
+        address: implementation,
+        contractName: record.contract,
+        constructorArgs: [],
+      },
+      {
+        name: `${record.contract} proxy`,
+        kind: "proxy",
+        address: record.address,
+        contractName: record.contract,
+        constructorArgs: [],
+        implementation,
+        admin,
+      },
+    )
+  }
+
+  return targets
+}
+
+const buildSubmission = async (target: VerificationTarget) => {
+  const artifact = await artifacts.readArtifact(target.contractName)
+  const fullyQualifiedName = `${artifact.sourceName}:${artifact.contractName}`
+  const buildInfo = await artifacts.getBuildInfo(fullyQualifiedName)
+  if (!buildInfo) {
+    throw new Error(`No build info for ${fullyQualifiedName}, run "npx hardhat compile" first`)
+  }
+
+  return {
+    address: target.address,
+    contractName: fullyQualifiedName,
+    compilerVersion: `v${buildInfo.solcLongVersion}`,
+    standardJsonInput: buildInfo.input,
+    constructorArguments: new ethers.Interface(artifact.abi).encodeDeploy(target.constructorArgs).slice(2),
+  }
+}
+
+/**
+ * Verifies each target in order. Failures are captured per contract instead of aborting the run;
+ * a proxy is only linked once its implementation is verified.
+ */
+export async function verifyTargets(targets: VerificationTarget[], options: EtherscanOptions) {
+  const results: VerificationResult[] = []
+  const verifiedImplementations = new Set<string>()
+
+  for (const { constructorArgs, ...target } of targets) {
+    try {
+      let status: VerificationStatus
+
+      if (target.kind === "proxy") {
+        if (!verifiedImplementations.has(target.implementation!.toLowerCase())) {
+          throw new Error("Implementation is not verified, proxy not linked")
+        }
+        status = await linkProxy(options, target.address, target.implementation!)
+      } else if (await isSourceVerified(options, target.address)) {
+        status = "already-verified"
+      } else {
+        status = await verifySource(options, await buildSubmission({ ...target, constructorArgs }))
+      }
+
+      if (target.kind === "implementation") {
+        verifiedImplementations.add(target.address.toLowerCase())
+      }
+      results.push({ ...target, status })
+    } catch (error: any) {
+      results.push({ ...target, status: "failed", reason: error.message })
+    }
+  }
+
+  return results
+}
+
+export function formatReport(results: VerificationResult[]) {
+  const icons: Record<VerificationStatus, string> = { verified: "✅", "already-verified": "ℹ️", failed: "❌" }
+
+  return results
+    .map((result) => {
+      const lines = [`${icons[result.status]} ${result.name} (${result.address}): ${result.status}`]
+      if (result.implementation) lines.push(`   Implementation: ${result.implementation}`)
+      if (result.admin) lines.push(`   Admin: ${result.admin}`)
+      if (result.reason) lines.push(`   Reason: ${result.reason}`)
+      return lines.join("\n")
+    })
+    .join("\n")
+}
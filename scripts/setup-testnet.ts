@@ -1,6 +1,6 @@
 import { ethers, network } from "hardhat"
-import fs from "fs"
-import path from "path"
+import { getManifestContracts, type DeploymentManifest } from "../lib/manifest"
+import { getManifestPath, loadManifest } from "../lib/manifest-store"
 
 async function main() {
   console.log("🚀 Setting up E-Cash Protocol for Testnet Testing...\n")
@@ -10,27 +10,20 @@ async function main() {
     process.exit(1)
   }
 
-  // Load deployment data
-  const deploymentsDir = path.join(__dirname, "..", "deployments")
-  const deploymentFiles = fs
-    .readdirSync(deploymentsDir)
-    .filter((file) => file.startsWith(network.name) && file.endsWith(".json"))
-    .sort()
-    .reverse()
-
-  if (deploymentFiles.length === 0) {
-    console.error("❌ No deployment files found. Please deploy contracts first.")
+  // Load deployment manifest
+  const chainId = Number((await ethers.provider.getNetwork()).chainId)
+  let deploymentData: DeploymentManifest
+  try {
+    deploymentData = loadManifest(network.name, { chainId, requireComplete: true })
+  } catch (error: any) {
+    console.error("❌", error.message)
     process.exit(1)
   }
 
-  const latestDeployment = deploymentFiles[0]
-  const deploymentPath = path.join(deploymentsDir, latestDeployment)
-  const deploymentData = JSON.parse(fs.readFileSync(deploymentPath, "utf8"))
-
-  console.log("📄 Using deployment:", latestDeployment)
+  console.log("📄 Using deployment:", getManifestPath(network.name))
 
   const [deployer] = await ethers.getSigners()
-  const contracts = deploymentData.contracts
+  const contracts = getManifestContracts(deploymentData)
 
   // Get contract instances
   const ecashToken = await ethers.getContractAt("ECashToken", contracts.ecashToken)
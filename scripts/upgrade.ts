@@ -0,0 +1,144 @@
+import { ethers, network, upgrades } from "hardhat"
+import fs from "fs"
+import type { DeploymentManifest } from "../lib/manifest"
+import { getManifestPath, loadManifest, saveManifest } from "../lib/manifest-store"
+import {
+  captureInvariants,
+  checkInvariants,
+  encodeUpgradeTransaction,
+  getProxyAdminOwner,
+  isUpToDate,
+  reconcileImplementation,
+  recordUpgrade,
+  resolveUpgradeTargets,
+  upgradeTarget,
+  validateTarget,
+  type UpgradeTarget,
+} from "./lib/upgrade"
+
+// UPGRADE_MODE: "upgrade" (default) sends the upgrades, "prepare" only deploys implementations for the
+// ProxyAdmin owner to execute, "check" reconciles the manifest and checks invariants without changes
+type UpgradeMode = "upgrade" | "prepare" | "check"
+
+async function main() {
+  console.log("⬆️  Starting E-Cash Protocol Upgrade...\n")
+
+  const mode = (process.env.UPGRADE_MODE || "upgrade") as UpgradeMode
+  if (!["upgrade", "prepare", "check"].includes(mode)) {
+    throw new Error(`Unknown UPGRADE_MODE "${mode}", expected upgrade, prepare or check`)
+  }
+
+  // Load deployment manifest
+  const chainId = Number((await ethers.provider.getNetwork()).chainId)
+  let manifest: DeploymentManifest
+  try {
+    manifest = loadManifest(network.name, { chainId, requireComplete: true })
+  } catch (error: any) {
+    console.error("❌", error.message)
+    process.exit(1)
+  }
+
+  const [signer] = await ethers.getSigners()
+  console.log("📄 Using deployment file:", getManifestPath(network.name))
+  console.log("🌐 Network:", network.name)
+  console.log("👤 Signer:", signer.address)
+  console.log("🛠️  Mode:", mode)
+
+  // UPGRADE_CONTRACTS=ecashToken,stabilizationController=StabilizationControllerV2 limits and renames targets
+  const targets = resolveUpgradeTargets(manifest, process.env.UPGRADE_CONTRACTS)
+
+  console.log("\n🔎 Checking recorded implementations...")
+  const pending: { target: UpgradeTarget; implementation: string }[] = []
+  for (const target of targets) {
+    const implementation = await reconcileImplementation(manifest, target)
+    if (await isUpToDate(implementation, target.contractName)) {
+      console.log(`⏭️  ${target.key}: already running ${target.contractName} (${implementation})`)
+      continue
+    }
+    pending.push({ target, implementation })
+  }
+  saveManifest(manifest)
+
+  const before = await captureInvariants(manifest)
+
+  if (mode === "check" || pending.length === 0) {
+    const violations = checkInvariants(manifest, before)
+    reportInvariants(violations)
+    if (pending.length > 0) {
+      console.log(`\nℹ️  ${pending.length} proxies differ from the compiled sources:`)
+      pending.forEach(({ target }) => console.log(`   - ${target.key} (${target.contractName})`))
+    }
+    return
+  }
+
+  console.log("\n🧱 Validating storage layouts...")
+  for (const { target } of pending) {
+    await validateTarget(target)
+    console.log(`✅ ${target.key}: ${target.contractName} is upgrade safe`)
+  }
+
+  if (mode === "prepare") {
+    const transactions = []
+    for (const { target, implementation: previousImplementation } of pending) {
+      const factory = await ethers.getContractFactory(target.contractName)
+      const implementation = (await upgrades.prepareUpgrade(target.proxy, factory, { kind: "transparent" })) as string
+      recordUpgrade(manifest, target, {
+        contract: target.contractName,
+        previousImplementation,
+        implementation,
+        status: "prepared",
+      })
+      saveManifest(manifest)
+
+      const transaction = await encodeUpgradeTransaction(target, implementation)
+      transactions.push({ proxy: target.key, implementation, ...transaction })
+      console.log(`\n📦 ${target.key}: implementation deployed at ${implementation}`)
+      console.log(`   ProxyAdmin owner: ${await getProxyAdminOwner(target.admin)}`)
+      console.log(`   To: ${transaction.to}`)
+      console.log(`   Data: ${transaction.data}`)
+    }
+
+    if (process.env.UPGRADE_PROPOSAL) {
+      fs.writeFileSync(process.env.UPGRADE_PROPOSAL, JSON.stringify({ chainId, transactions }, null, 2))
+      console.log("\n📝 Upgrade proposal saved to:", process.env.UPGRADE_PROPOSAL)
+    }
+    console.log("\n📋 Submit the transactions above from the ProxyAdmin owner, then run again with UPGRADE_MODE=check")
+    return
+  }
+
+  for (const { target } of pending) {
+    const owner = await getProxyAdminOwner(target.admin)
+    if (owner.toLowerCase() !== signer.address.toLowerCase()) {
+      throw new Error(`${target.key}: ProxyAdmin is owned by ${owner}, not the signer. Use UPGRADE_MODE=prepare instead.`)
+    }
+  }
+
+  for (const { target, implementation: previousImplementation } of pending) {
+    console.log(`\n▶️  Upgrading ${target.key} to ${target.contractName}...`)
+    const { implementation, receipt } = await upgradeTarget(manifest, target, previousImplementation)
+    saveManifest(manifest)
+    console.log(`✅ ${target.key}: ${previousImplementation} → ${implementation}`)
+    if (receipt) console.log(`   Tx: ${receipt.hash} | Gas used: ${receipt.gasUsed}`)
+  }
+
+  console.log("\n🔍 Checking post-upgrade invariants...")
+  const violations = checkInvariants(manifest, await captureInvariants(manifest), before)
+  reportInvariants(violations)
+
+  console.log("\n🎉 Upgrade Complete!")
+}
+
+function reportInvariants(violations: string[]) {
+  if (violations.length > 0) {
+    violations.forEach((violation) => console.error(`❌ ${violation}`))
+    throw new Error(`${violations.length} protocol invariants violated`)
+  }
+  console.log("✅ Supply, rebase counters, roles, oracle registrations and policy parameters are intact")
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Upgrade failed:", error)
+    process.exit(1)
+  })
@@ -1,68 +1,56 @@
-import { run, network } from "hardhat"
+import { ethers, network } from "hardhat"
 import fs from "fs"
-import path from "path"
+import type { DeploymentManifest } from "../lib/manifest"
+import { getManifestPath, loadManifest } from "../lib/manifest-store"
+import { ETHERSCAN_API_URLS } from "./lib/etherscan"
+import { formatReport, resolveVerificationTargets, verifyTargets } from "./lib/verification"
 
 async function main() {
   console.log("🔍 Starting Contract Verification...\n")
 
-  // Load deployment data
-  const deploymentsDir = path.join(__dirname, "..", "deployments")
-  const deploymentFiles = fs
-    .readdirSync(deploymentsDir)
-    .filter((file) => file.startsWith(network.name) && file.endsWith(".json"))
-    .sort()
-    .reverse() // Get the latest deployment
-
-  if (deploymentFiles.length === 0) {
-    console.error("❌ No deployment files found for network:", network.name)
+  // Load deployment manifest
+  const chainId = Number((await ethers.provider.getNetwork()).chainId)
+  let deploymentData: DeploymentManifest
+  try {
+    deploymentData = loadManifest(network.name, { chainId, requireComplete: true })
+  } catch (error: any) {
+    console.error("❌", error.message)
     process.exit(1)
   }
 
-  const latestDeployment = deploymentFiles[0]
-  const deploymentPath = path.join(deploymentsDir, latestDeployment)
-  const deploymentData = JSON.parse(fs.readFileSync(deploymentPath, "utf8"))
-
-  console.log("📄 Using deployment file:", latestDeployment)
+  console.log("📄 Using deployment file:", getManifestPath(network.name))
   console.log("🌐 Network:", deploymentData.network)
-  console.log("⏰ Deployed at:", deploymentData.timestamp)
+  console.log("⏰ Deployed at:", deploymentData.updatedAt)
 
-  const contracts = deploymentData.contracts
+  const apiUrl = process.env.ETHERSCAN_API_URL || ETHERSCAN_API_URLS[chainId]
+  if (!apiUrl) {
+    console.error("❌ No Etherscan API known for chain", chainId, "- set ETHERSCAN_API_URL")
+    process.exit(1)
+  }
 
-  try {
-    // Verify MockChainlinkOracle
-    console.log("\n📊 Verifying MockChainlinkOracle...")
-    await run("verify:verify", {
-      address: contracts.chainlinkOracle,
-      constructorArguments: [8, "ETH/USD"],
-    })
-    console.log("✅ MockChainlinkOracle verified")
+  // Resolve implementation and admin addresses of every proxy from chain
+  console.log("\n🔎 Resolving contracts...")
+  const targets = await resolveVerificationTargets(deploymentData)
 
-    // Verify TestHelper
-    console.log("\n🧪 Verifying TestHelper...")
-    await run("verify:verify", {
-      address: contracts.testHelper,
-      constructorArguments: [
-        contracts.ecashToken,
-        contracts.oracleAggregator,
-        contracts.stabilizationController,
-        contracts.treasury,
-        contracts.chainlinkOracle,
-      ],
-    })
-    console.log("✅ TestHelper verified")
+  console.log(`\n📤 Verifying ${targets.length} contracts via ${apiUrl}...`)
+  const results = await verifyTargets(targets, { apiUrl, apiKey: process.env.ETHERSCAN_API_KEY || "" })
 
-    // Note: Proxy contracts (ECashToken, OracleAggregator, etc.) need special verification
-    console.log("\n📝 Note: Upgradeable proxy contracts require manual verification")
-    console.log("   Use the Etherscan UI or hardhat-upgrades plugin for proxy verification")
+  console.log("\n📋 Verification Report")
+  console.log("=====================================")
+  console.log(formatReport(results))
+  console.log("=====================================")
 
-    console.log("\n🎉 Verification Complete!")
-  } catch (error: any) {
-    console.error("❌ Verification failed:", error.message)
+  if (process.env.VERIFICATION_REPORT) {
+    fs.writeFileSync(process.env.VERIFICATION_REPORT, JSON.stringify(results, null, 2))
+    console.log("📝 Report saved to:", process.env.VERIFICATION_REPORT)
+  }
 
-    if (error.message.includes("Already Verified")) {
-      console.log("ℹ️ Some contracts were already verified")
-    }
+  const failed = results.filter((result) => result.status === "failed")
+  if (failed.length > 0) {
+    throw new Error(`${failed.length} of ${results.length} contracts failed verification`)
   }
+
+  console.log("\n🎉 Verification Complete!")
 }
 
 main()
@@ -0,0 +1,75 @@
+import { task, types } from "hardhat/config"
+import { getManifestPath, loadManifest } from "../lib/manifest-store"
+import { createKeeper, defaultKeeperOptions, startKeeperServer } from "../scripts/lib/keeper"
+
+interface KeeperArgs {
+  controller?: string
+  interval: number
+  replaceAfter: number
+  bump: number
+  maxFeeGwei?: number
+  metricsPort: number
+  once: boolean
+}
+
+task("keeper", "Watches previewRebase() and calls rebase() whenever it would go through")
+  .addOptionalParam("controller", "StabilizationController address (defaults to the network's deployment manifest)")
+  .addOptionalParam("interval", "Seconds between checks", defaultKeeperOptions.pollIntervalMs / 1000, types.int)
+  .addOptionalParam(
+    "replaceAfter",
+    "Seconds before a pending rebase is resent with higher fees",
+    defaultKeeperOptions.replaceAfterMs / 1000,
+    types.int,
+  )
+  .addOptionalParam("bump", "Fee increase per replacement, in percent", defaultKeeperOptions.gasBumpPercent, types.int)
+  .addOptionalParam("maxFeeGwei", "Highest fee per gas the keeper will bid, in gwei", undefined, types.float)
+  .addOptionalParam("metricsPort", "Port for /health and /metrics (0 to disable)", 9464, types.int)
+  .addFlag("once", "Run a single check and exit")
+  .setAction(async (args: KeeperArgs, hre) => {
+    const { ethers, network } = hre
+    if (args.bump < 10) throw new Error("--bump must be at least 10, or nodes reject the replacement")
+
+    let controllerAddress = args.controller
+    if (!controllerAddress) {
+      const chainId = Number((await ethers.provider.getNetwork()).chainId)
+      controllerAddress = loadManifest(network.name, { chainId, requireComplete: true }).contracts
+        .stabilizationController
+      console.log("📄 Using deployment file:", getManifestPath(network.name))
+    }
+
+    const [signer] = await ethers.getSigners()
+    const controller = await ethers.getContractAt("StabilizationController", controllerAddress!, signer)
+    if (!(await controller.hasRole(await controller.OPERATOR_ROLE(), signer.address))) {
+      throw new Error(`${signer.address} does not have OPERATOR_ROLE on the controller and cannot rebase`)
+    }
+
+    const keeper = createKeeper(controller, signer, {
+      pollIntervalMs: args.interval * 1000,
+      replaceAfterMs: args.replaceAfter * 1000,
+      gasBumpPercent: args.bump,
+      maxFeePerGas: args.maxFeeGwei !== undefined ? ethers.parseUnits(String(args.maxFeeGwei), "gwei") : null,
+      log: console.log,
+    })
+    console.log(`🤖 Keeper for ${controllerAddress} on ${network.name} as ${signer.address}`)
+
+    if (args.once) {
+      await keeper.tick()
+      console.log("📊", keeper.getMetrics().lastDecision)
+      return
+    }
+
+    const server = args.metricsPort ? await startKeeperServer(keeper, args.metricsPort) : null
+    if (server) console.log(`📈 Health at ${server.url}/health, metrics at ${server.url}/metrics`)
+
+    keeper.start()
+    await new Promise<void>((resolve) => {
+      const shutdown = () => {
+        console.log("\n🛑 Stopping keeper...")
+        resolve()
+      }
+      process.once("SIGINT", shutdown)
+      process.once("SIGTERM", shutdown)
+    })
+    await keeper.stop()
+    await server?.close()
+  })
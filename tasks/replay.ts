@@ -0,0 +1,135 @@
+import fs from "fs"
+import path from "path"
+import { task } from "hardhat/config"
+import { getManifestPath, loadManifest } from "../lib/manifest-store"
+import {
+  compareRecordings,
+  parsePriceSeries,
+  parseRecordingJson,
+  resolveReplayFeeds,
+  runPriceReplay,
+  summarizeRecording,
+  type PriceReplayContracts,
+  type RebaseSchedule,
+} from "../lib/price-replay"
+import { createTimeTravel, supportsTimeTravel } from "../lib/time-travel"
+import { deployLocalProtocol } from "../scripts/lib/local-protocol"
+
+interface ReplayArgs {
+  file: string
+  feeds?: string
+  rebase: string
+  out?: string
+  compare?: string
+}
+
+const parseSchedule = (value: string): RebaseSchedule => {
+  if (value === "never" || value === "cooldown") return value
+  const seconds = Number(value)
+  if (!Number.isInteger(seconds) || seconds <= 0) {
+    throw new Error(`--rebase must be "never", "cooldown" or a positive number of seconds, got "${value}"`)
+  }
+  return seconds
+}
+
+const formatPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`
+
+task("replay", "Replays a CSV or JSON price series into the mock feeds of a local network and records the response")
+  .addParam("file", "Price series file (.csv or .json)")
+  .addOptionalParam("feeds", "Comma-separated aggregator keys to publish to (defaults to every active source)")
+  .addOptionalParam(
+    "rebase",
+    'Rebase schedule: "never", "cooldown" (whenever allowed) or seconds of series time between attempts',
+    "never",
+  )
+  .addOptionalParam("out", "Write the recording to this JSON file")
+  .addOptionalParam("compare", "A previous recording to compare the new one against")
+  .setAction(async (args: ReplayArgs, hre) => {
+    const { ethers, network } = hre
+    const chainId = Number((await ethers.provider.getNetwork()).chainId)
+    if (!supportsTimeTravel(chainId)) {
+      throw new Error(`Replaying sets block timestamps, which ${network.name} (chain ${chainId}) does not support`)
+    }
+
+    const series = parsePriceSeries(fs.readFileSync(args.file, "utf8"), args.file)
+    const rebaseSchedule = parseSchedule(args.rebase)
+    const baseline = args.compare ? parseRecordingJson(fs.readFileSync(args.compare, "utf8"), args.compare) : null
+
+    // The in-process network starts empty; a node deployed with the deploy script has a manifest
+    let contracts: PriceReplayContracts
+    if (network.name === "hardhat") {
+      await hre.run("compile", { quiet: true })
+      console.log("🚀 Deploying protocol on the in-process Hardhat network...")
+      contracts = await deployLocalProtocol(hre)
+    } else {
+      const manifest = loadManifest(network.name, { chainId, requireComplete: true })
+      console.log("📄 Using deployment file:", getManifestPath(network.name))
+      contracts = {
+        ecashToken: await ethers.getContractAt("ECashToken", manifest.contracts.ecashToken),
+        oracleAggregator: await ethers.getContractAt("OracleAggregator", manifest.contracts.oracleAggregator),
+        stabilizationController: await ethers.getContractAt(
+          "StabilizationController",
+          manifest.contracts.stabilizationController,
+        ),
+        testHelper: await ethers.getContractAt("TestHelper", manifest.contracts.testHelper),
+      }
+    }
+
+    const [signer] = await ethers.getSigners()
+    const controller = contracts.stabilizationController
+    if (rebaseSchedule !== "never" && !(await controller.hasRole(await controller.OPERATOR_ROLE(), signer.address))) {
+      throw new Error(`${signer.address} does not have OPERATOR_ROLE on the controller and cannot rebase`)
+    }
+
+    const feedKeys = args.feeds ? args.feeds.split(",").map((key) => key.trim()) : null
+    const feeds = await resolveReplayFeeds(contracts.oracleAggregator, feedKeys, (address) =>
+      ethers.getContractAt("MockChainlinkOracle", address),
+    )
+    console.log(`🎞️  Replaying ${series.length} points from ${args.file} into ${Object.keys(feeds).join(", ")}`)
+
+    const recording = await runPriceReplay(
+      series,
+      path.basename(args.file),
+      { contracts, timeTravel: createTimeTravel(ethers.provider), feeds },
+      rebaseSchedule,
+      {
+        onPoint: (point) => {
+          if (!point.rebase || point.rebase.outcome === "blocked") return
+          const { outcome, message } = point.rebase
+          const icon = { executed: "✅", circuitBreaker: "🚨", reverted: "❌", noChange: "➖" }[outcome]
+          const time = new Date(point.timestamp * 1000).toISOString()
+          console.log(`  ${icon} ${time} $${point.aggregatedPrice?.toFixed(4) ?? "-"}: ${message}`)
+        },
+      },
+    )
+
+    const summary = summarizeRecording(recording)
+    console.log(`\n📊 ${summary.points} points, ${summary.rebases} rebases, ${summary.breakerTrips} breaker trips`)
+    console.log(
+      `   Supply ${summary.initialSupply} → ${summary.finalSupply} (${formatPercent(summary.supplyChangePercent)})`,
+    )
+
+    if (baseline) {
+      const comparison = compareRecordings(baseline, recording)
+      console.log(`\n🔍 Compared with ${args.compare} over ${comparison.comparedPoints} points`)
+      console.log(
+        `   Rebases ${comparison.baseline.rebases} → ${comparison.current.rebases}, breaker trips ` +
+          `${comparison.baseline.breakerTrips} → ${comparison.current.breakerTrips}`,
+      )
+      console.log(
+        `   Supply change ${formatPercent(comparison.baseline.supplyChangePercent)} → ` +
+          formatPercent(comparison.current.supplyChangePercent),
+      )
+      console.log(
+        comparison.divergedAt === null
+          ? "   No difference in supply, band or breaker"
+          : `   First difference at ${new Date(comparison.divergedAt * 1000).toISOString()}`,
+      )
+    }
+
+    if (args.out) {
+      fs.mkdirSync(path.dirname(path.resolve(args.out)), { recursive: true })
+      fs.writeFileSync(args.out, JSON.stringify(recording, null, 2))
+      console.log("📄 Recording:", args.out)
+    }
+  })
@@ -0,0 +1,84 @@
+import fs from "fs"
+import path from "path"
+import { task } from "hardhat/config"
+import { parseScenario, parseScenarioJson, runScenario, type Scenario } from "../lib/scenario"
+import { builtInScenarios } from "../lib/scenarios"
+import { deployLocalProtocol } from "../scripts/lib/local-protocol"
+import { toJsonReport, toJUnitXml, type ScenarioReportEntry } from "../scripts/lib/scenario-report"
+
+const writeReport = (file: string, contents: string) => {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true })
+  fs.writeFileSync(file, contents)
+}
+
+task("scenarios", "Runs dashboard scenarios against a fresh protocol on the in-process Hardhat network")
+  .addOptionalParam("files", "Comma-separated scenario JSON files (defaults to the built-in scenarios)")
+  .addOptionalParam("only", "Comma-separated scenario names to run")
+  .addOptionalParam("junit", "Write a JUnit XML report to this path")
+  .addOptionalParam("json", "Write a JSON report to this path")
+  .setAction(async (args: { files?: string; only?: string; junit?: string; json?: string }, hre) => {
+    if (hre.network.name !== "hardhat") {
+      throw new Error(`The scenarios task deploys its own protocol and only runs on --network hardhat`)
+    }
+    // Loaded here rather than at the top, since the helpers need the runtime environment
+    const { takeSnapshot, time } = await import("@nomicfoundation/hardhat-network-helpers")
+
+    let scenarios: Scenario[] = args.files
+      ? args.files.split(",").flatMap((file) => parseScenarioJson(fs.readFileSync(file.trim(), "utf8"), file.trim()))
+      : builtInScenarios.map((definition) => parseScenario(definition, definition.name))
+    if (args.only) {
+      const names = args.only.split(",").map((name) => name.trim())
+      const unknown = names.filter((name) => !scenarios.some((scenario) => scenario.name === name))
+      if (unknown.length > 0) throw new Error(`Unknown scenarios: ${unknown.join(", ")}`)
+      scenarios = scenarios.filter((scenario) => names.includes(scenario.name))
+    }
+
+    await hre.run("compile", { quiet: true })
+    console.log("🚀 Deploying protocol on the in-process Hardhat network...")
+    const contracts = await deployLocalProtocol(hre)
+    const deployed = await takeSnapshot()
+
+    const entries: ScenarioReportEntry[] = []
+    for (const scenario of scenarios) {
+      // Every scenario starts from the freshly deployed state
+      await deployed.restore()
+
+      console.log(`\n🎬 ${scenario.name}`)
+      const result = await runScenario(
+        scenario,
+        {
+          contracts,
+          // Steps past the rebase cooldown by moving the next block's timestamp
+          advanceTime: async (seconds) => {
+            await time.increase(seconds)
+          },
+          deployFeed: async (decimals, description) => {
+            const MockChainlinkOracle = await hre.ethers.getContractFactory("MockChainlinkOracle")
+            return (await MockChainlinkOracle.deploy(decimals, description)).waitForDeployment()
+          },
+        },
+        {
+          onStepComplete: (step) => {
+            const icon = step.status === "passed" ? "✅" : step.status === "failed" ? "❌" : "⏭️ "
+            console.log(`  ${icon} ${step.label}: ${step.message}`)
+          },
+        },
+      )
+      entries.push({ scenario, result })
+    }
+
+    const failed = entries.filter(({ result }) => !result.passed)
+    console.log(`\n📊 ${entries.length - failed.length}/${entries.length} scenarios passed`)
+    failed.forEach(({ scenario }) => console.log(`  ❌ ${scenario.name}`))
+
+    if (args.junit) {
+      writeReport(args.junit, toJUnitXml(entries))
+      console.log("📄 JUnit report:", args.junit)
+    }
+    if (args.json) {
+      writeReport(args.json, toJsonReport(entries))
+      console.log("📄 JSON report:", args.json)
+    }
+
+    if (failed.length > 0) process.exitCode = 1
+  })
@@ -0,0 +1,67 @@
+import fs from "fs"
+import path from "path"
+import { task, types } from "hardhat/config"
+import { defaultModels, defaultSimulationConfig, runMonteCarlo, type PriceModelType } from "../lib/monte-carlo"
+
+const models = Object.keys(defaultModels) as PriceModelType[]
+
+interface SimulateArgs {
+  model?: string
+  paths: number
+  days: number
+  seed: number
+  elasticity: number
+  json?: string
+}
+
+const formatPercent = (share: number) => `${(share * 100).toFixed(1)}%`
+
+task("simulate", "Runs Monte Carlo price paths through an off-chain copy of the stabilization policy")
+  .addOptionalParam("model", `One of ${models.join(", ")} (defaults to all)`)
+  .addOptionalParam("paths", "Price paths per model", defaultSimulationConfig.paths, types.int)
+  .addOptionalParam("days", "Length of each path in days", defaultSimulationConfig.horizonHours / 24, types.int)
+  .addOptionalParam("seed", "Random seed", defaultSimulationConfig.seed, types.int)
+  .addOptionalParam("elasticity", "Price response to supply", defaultSimulationConfig.demand.elasticity, types.float)
+  .addOptionalParam("json", "Write the reports as JSON to this path")
+  .setAction(async (args: SimulateArgs) => {
+    if (args.model && !models.includes(args.model as PriceModelType)) {
+      throw new Error(`Unknown model "${args.model}", expected ${models.join(", ")}`)
+    }
+
+    const reports = (args.model ? [args.model as PriceModelType] : models).map((model) => {
+      console.log(`🎲 Simulating ${args.paths} ${model} paths over ${args.days} days...`)
+      return runMonteCarlo({
+        model: defaultModels[model],
+        paths: args.paths,
+        horizonHours: args.days * 24,
+        seed: args.seed,
+        demand: { ...defaultSimulationConfig.demand, elasticity: args.elasticity },
+      })
+    })
+
+    for (const report of reports) {
+      const { timeToPeg, finalDeviation } = report
+      console.log(`\n📊 ${report.model}`)
+      console.log(
+        `  Time to peg: mean ${timeToPeg.meanHours.toFixed(1)}h, median ${timeToPeg.medianHours}h, ` +
+          `p95 ${timeToPeg.p95Hours}h over ${timeToPeg.episodes} episodes ` +
+          `(${timeToPeg.unrecovered} paths end off-peg)`,
+      )
+      console.log(
+        `  Supply volatility: ${report.supplyVolatility.toFixed(3)}% per rebase, ` +
+          `${report.rebasesPerPath.toFixed(1)} rebases per path`,
+      )
+      console.log(
+        `  Circuit breaker: tripped on ${formatPercent(report.breakerTripRate)} of paths, ` +
+          `${report.breakerTripsPerPath.toFixed(2)} trips per path`,
+      )
+      console.log(`  Time in bands 0-4: ${report.bandShare.map(formatPercent).join(" / ")}`)
+      console.log(`  Final deviation: mean ${finalDeviation.mean.toFixed(2)}%, max ${finalDeviation.max.toFixed(2)}%`)
+    }
+
+    if (args.json) {
+      fs.mkdirSync(path.dirname(path.resolve(args.json)), { recursive: true })
+      fs.writeFileSync(args.json, JSON.stringify(reports, null, 2))
+      console.log("\n📄 JSON report:", args.json)
+    }
+  })
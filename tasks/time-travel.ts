@@ -0,0 +1,58 @@
+import { task } from "hardhat/config"
+import { loadManifest } from "../lib/manifest-store"
+import { createTimeTravel, supportsTimeTravel } from "../lib/time-travel"
+
+const actions = ["now", "increase", "mine", "snapshot", "revert"]
+
+task("time", "Moves a local node's clock, mines blocks, or takes and reverts snapshots")
+  .addPositionalParam("action", `One of ${actions.join(", ")}`)
+  .addOptionalPositionalParam("value", "Seconds for increase, block count for mine, snapshot id for revert")
+  .addFlag("cooldown", "With increase, advance by the deployed controller's rebase cooldown")
+  .setAction(async (args: { action: string; value?: string; cooldown: boolean }, hre) => {
+    const chainId = Number((await hre.ethers.provider.getNetwork()).chainId)
+    if (!supportsTimeTravel(chainId)) {
+      throw new Error(`Network ${hre.network.name} (chain ${chainId}) does not support time travel`)
+    }
+    if (!actions.includes(args.action)) {
+      throw new Error(`Unknown action "${args.action}", expected ${actions.join(", ")}`)
+    }
+
+    const timeTravel = createTimeTravel(hre.ethers.provider)
+    const formatTime = (timestamp: number) => `${timestamp} (${new Date(timestamp * 1000).toISOString()})`
+
+    switch (args.action) {
+      case "now":
+        console.log("🕒 Chain time:", formatTime(await timeTravel.getTimestamp()))
+        break
+
+      case "increase": {
+        let seconds = Number(args.value ?? Number.NaN)
+        if (args.cooldown) {
+          // Read from the controller recorded in this network's deployment manifest
+          const manifest = loadManifest(hre.network.name, { chainId, requireComplete: true })
+          const controller = await hre.ethers.getContractAt("StabilizationController", manifest.contracts.stabilizationController)
+          seconds = Number(await controller.rebaseCooldown())
+        }
+        const timestamp = await timeTravel.increaseTime(seconds)
+        console.log(`⏩ Advanced ${seconds}s, chain time now`, formatTime(timestamp))
+        break
+      }
+
+      case "mine": {
+        const blocks = Number(args.value ?? 1)
+        await timeTravel.mine(blocks)
+        console.log(`⛏️  Mined ${blocks} block(s)`)
+        break
+      }
+
+      case "snapshot":
+        console.log("📸 Snapshot id:", await timeTravel.snapshot())
+        break
+
+      case "revert":
+        if (!args.value) throw new Error("Pass the snapshot id to revert to")
+        await timeTravel.revert(args.value)
+        console.log("⏪ Reverted to snapshot", args.value, "- chain time", formatTime(await timeTravel.getTimestamp()))
+        break
+    }
+  })
@@ -0,0 +1,123 @@
+import { expect } from "chai"
+import hre from "hardhat"
+import {
+  createNotifications,
+  defaultAlertThresholds,
+  diffAlerts,
+  evaluateAlerts,
+  sendAlertWebhook,
+  type AlertNotification,
+} from "../lib/alerts"
+import { formatProtocolStatus, type ProtocolStatus } from "../lib/protocol-store"
+import { deployLocalProtocol } from "../scripts/lib/local-protocol"
+import { startMockWebhook, type MockWebhook } from "./helpers/mockWebhook"
+
+describe("Alerts", () => {
+  const now = 1_700_000_000
+  const status: ProtocolStatus = {
+    currentPrice: "1.0",
+    targetPrice: "1.0",
+    totalSupply: "1000000.0",
+    deviation: "0.0",
+    canRebase: true,
+    circuitBreakerActive: false,
+    lastRebaseTime: String(now - 3600),
+    rebaseCount: "1",
+    stabilityBand: 0,
+    oracleConfidence: "100",
+  }
+  const kinds = (updates: Partial<ProtocolStatus>, timestamp = now) =>
+    evaluateAlerts({ ...status, ...updates }, timestamp, defaultAlertThresholds).map((alert) => alert.kind)
+
+  let webhook: MockWebhook
+
+  beforeEach(async () => {
+    webhook = await startMockWebhook()
+  })
+
+  afterEach(async () => {
+    await webhook.close()
+  })
+
+  it("Should raise nothing on target", () => {
+    expect(kinds({})).to.deep.equal([])
+  })
+
+  it("Should check each threshold", () => {
+    expect(kinds({ currentPrice: "1.03", deviation: "0.03", stabilityBand: 1 })).to.deep.equal(["deviation"])
+    expect(kinds({ currentPrice: "0.94", deviation: "0.06", stabilityBand: 2 })).to.deep.equal([
+      "deviation",
+      "stabilityBand",
+    ])
+    expect(kinds({ oracleConfidence: "50" })).to.deep.equal(["oracleConfidence"])
+    expect(kinds({}, now + 24 * 3600)).to.deep.equal(["rebaseOverdue"])
+    expect(kinds({ lastRebaseTime: "0", rebaseCount: "0" }, now + 48 * 3600)).to.deep.equal([])
+    expect(kinds({ circuitBreakerActive: true })).to.deep.equal(["circuitBreaker"])
+  })
+
+  it("Should skip disabled thresholds", () => {
+    const alerts = evaluateAlerts(
+      { ...status, deviation: "0.25", stabilityBand: 4, circuitBreakerActive: true },
+      now,
+      { ...defaultAlertThresholds, deviationPercent: null, circuitBreaker: false },
+    )
+    expect(alerts.map((alert) => alert.kind)).to.deep.equal(["stabilityBand"])
+    expect(alerts[0].severity).to.equal("critical")
+  })
+
+  it("Should raise alerts once and again on escalation", () => {
+    const band2 = evaluateAlerts({ ...status, deviation: "0.06", stabilityBand: 2 }, now, defaultAlertThresholds)
+    const band3 = evaluateAlerts({ ...status, deviation: "0.12", stabilityBand: 3 }, now, defaultAlertThresholds)
+    const band4 = evaluateAlerts({ ...status, deviation: "0.22", stabilityBand: 4 }, now, defaultAlertThresholds)
+
+    expect(diffAlerts([], band2).raised).to.have.lengthOf(2)
+    expect(diffAlerts(band2, band3)).to.deep.equal({ raised: [], resolved: [] })
+    expect(diffAlerts(band3, band4).raised.map((alert) => alert.kind)).to.deep.equal(["stabilityBand"])
+    expect(diffAlerts(band4, []).resolved.map((alert) => alert.kind)).to.deep.equal(["deviation", "stabilityBand"])
+  })
+
+  it("Should post notifications to the webhook", async () => {
+    const tripped = evaluateAlerts({ ...status, circuitBreakerActive: true }, now, defaultAlertThresholds)
+    const changes = diffAlerts([], tripped)
+    const [notification] = createNotifications(31337, { blockNumber: 12, timestamp: now }, changes)
+
+    await sendAlertWebhook(webhook.url, notification)
+    expect(webhook.received).to.deep.equal([notification])
+
+    webhook.failWith = 500
+    await sendAlertWebhook(webhook.url, notification).then(
+      () => expect.fail("Expected the webhook post to fail"),
+      (error) => expect(error.message).to.include("500"),
+    )
+  })
+
+  it("Should alert on a tripped breaker read from the chain", async () => {
+    const { chainlinkOracle, stabilizationController, testHelper } = await deployLocalProtocol(hre)
+    const readAlerts = async () => {
+      const block = await hre.ethers.provider.getBlock("latest")
+      const current = formatProtocolStatus(await testHelper.getProtocolStatus())
+      return { block: block!, alerts: evaluateAlerts(current, block!.timestamp, defaultAlertThresholds) }
+    }
+
+    const before = await readAlerts()
+    await chainlinkOracle.updateAnswer(75000000) // $0.75
+    await stabilizationController.rebase()
+    const after = await readAlerts()
+
+    const changes = diffAlerts(before.alerts, after.alerts)
+    const raised = changes.raised.map((alert) => alert.kind)
+    expect(raised).to.have.members(["deviation", "stabilityBand", "circuitBreaker"])
+
+    const snapshot = { blockNumber: after.block.number, timestamp: after.block.timestamp }
+    for (const notification of createNotifications(31337, snapshot, changes)) {
+      await sendAlertWebhook(webhook.url, notification)
+    }
+    const received = webhook.received as AlertNotification[]
+    expect(received.map((notification) => notification.type)).to.deep.equal([
+      "alert.raised",
+      "alert.raised",
+      "alert.raised",
+    ])
+    expect(received.every((notification) => notification.blockNumber === after.block.number)).to.equal(true)
+  })
+})
@@ -0,0 +1,161 @@
+import { expect } from "chai"
+import { ethers, upgrades } from "hardhat"
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers"
+import type {
+  ECashGovernanceToken,
+  ECashGovernor,
+  ECashTimelock,
+  MockChainlinkOracle,
+  OracleAggregator,
+  StabilizationController,
+} from "../typechain-types"
+import { getGovernanceSettings, voteSupport } from "../lib/governance"
+
+describe("Governance", () => {
+  const settings = getGovernanceSettings(31337)
+
+  let governanceToken: ECashGovernanceToken
+  let timelock: ECashTimelock
+  let governor: ECashGovernor
+  let oracleAggregator: OracleAggregator
+  let stabilizationController: StabilizationController
+  let chainlinkOracle: MockChainlinkOracle
+  let owner: SignerWithAddress
+  let user1: SignerWithAddress
+
+  const mineBlocks = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      await ethers.provider.send("evm_mine", [])
+    }
+  }
+
+  // Takes a proposal from creation to execution through the governor and timelock
+  const passProposal = async (target: string, calldata: string, description: string) => {
+    await governor.propose([target], [0], [calldata], description)
+    const proposalId = await governor.hashProposal([target], [0], [calldata], ethers.id(description))
+
+    await mineBlocks(settings.votingDelay + 1)
+    await governor.castVote(proposalId, voteSupport.for)
+    await mineBlocks(settings.votingPeriod)
+    expect(await governor.state(proposalId)).to.equal(4) // Succeeded
+
+    await governor.queue([target], [0], [calldata], ethers.id(description))
+    await ethers.provider.send("evm_increaseTime", [settings.timelockDelay])
+    await ethers.provider.send("evm_mine", [])
+    await governor.execute([target], [0], [calldata], ethers.id(description))
+    expect(await governor.state(proposalId)).to.equal(7) // Executed
+  }
+
+  beforeEach(async () => {
+    ;[owner, user1] = await ethers.getSigners()
+
+    const MockChainlinkOracle = await ethers.getContractFactory("MockChainlinkOracle")
+    chainlinkOracle = await MockChainlinkOracle.deploy(8, "ETH/USD")
+    await chainlinkOracle.updateAnswer(100000000) // $1.00
+
+    const ECashToken = await ethers.getContractFactory("ECashToken")
+    const ecashToken = await upgrades.deployProxy(ECashToken, ["E-Cash", "ECASH", owner.address], {
+      initializer: "initialize",
+    })
+
+    const OracleAggregator = await ethers.getContractFactory("OracleAggregator")
+    oracleAggregator = (await upgrades.deployProxy(OracleAggregator, [owner.address], {
+      initializer: "initialize",
+    })) as unknown as OracleAggregator
+    await oracleAggregator.addOracle(
+      "chainlink-eth-usd",
+      await chainlinkOracle.getAddress(),
+      100,
+      3600,
+      8,
+      "Chainlink ETH/USD",
+    )
+
+    const Treasury = await ethers.getContractFactory("Treasury")
+    const treasury = await upgrades.deployProxy(Treasury, [owner.address], { initializer: "initialize" })
+
+    const StabilizationController = await ethers.getContractFactory("StabilizationController")
+    stabilizationController = (await upgrades.deployProxy(
+      StabilizationController,
+      [owner.address, await ecashToken.getAddress(), await oracleAggregator.getAddress(), await treasury.getAddress()],
+      { initializer: "initialize" },
+    )) as unknown as StabilizationController
+    await ecashToken.grantRole(await ecashToken.getFunction("REBASER_ROLE")(), await stabilizationController.getAddress())
+
+    const ECashGovernanceToken = await ethers.getContractFactory("ECashGovernanceToken")
+    governanceToken = await ECashGovernanceToken.deploy(owner.address)
+    await governanceToken.delegate(owner.address)
+
+    const ECashTimelock = await ethers.getContractFactory("ECashTimelock")
+    timelock = await ECashTimelock.deploy(settings.timelockDelay, [], [ethers.ZeroAddress], owner.address)
+
+    const ECashGovernor = await ethers.getContractFactory("ECashGovernor")
+    governor = await ECashGovernor.deploy(
+      await governanceToken.getAddress(),
+      await timelock.getAddress(),
+      settings.votingDelay,
+      settings.votingPeriod,
+      settings.quorumPercentage,
+    )
+
+    await timelock.grantRole(await timelock.PROPOSER_ROLE(), await governor.getAddress())
+    await timelock.grantRole(await timelock.CANCELLER_ROLE(), await governor.getAddress())
+    await stabilizationController.grantRole(ethers.ZeroHash, await timelock.getAddress())
+    await oracleAggregator.grantRole(await oracleAggregator.ORACLE_MANAGER_ROLE(), await timelock.getAddress())
+  })
+
+  it("Should reset the circuit breaker through a passed proposal", async () => {
+    await chainlinkOracle.updateAnswer(75000000) // $0.75 (-25%)
+    await stabilizationController.rebase()
+    expect(await stabilizationController.circuitBreakerActive()).to.be.true
+
+    await passProposal(
+      await stabilizationController.getAddress(),
+      stabilizationController.interface.encodeFunctionData("resetCircuitBreaker"),
+      "Reset circuit breaker after price recovery",
+    )
+
+    expect(await stabilizationController.circuitBreakerActive()).to.be.false
+  })
+
+  it("Should update an oracle through a passed proposal", async () => {
+    await passProposal(
+      await oracleAggregator.getAddress(),
+      oracleAggregator.interface.encodeFunctionData("updateOracle", ["chainlink-eth-usd", 50, 7200]),
+      "Halve chainlink weight",
+    )
+
+    const config = await oracleAggregator.oracles("chainlink-eth-usd")
+    expect(config.weight).to.equal(50)
+    expect(config.heartbeat).to.equal(7200)
+  })
+
+  it("Should not execute before the timelock delay", async () => {
+    const target = await stabilizationController.getAddress()
+    const calldata = stabilizationController.interface.encodeFunctionData("emergencyPause")
+    const description = "Pause stabilization"
+
+    await governor.propose([target], [0], [calldata], description)
+    const proposalId = await governor.hashProposal([target], [0], [calldata], ethers.id(description))
+    await mineBlocks(settings.votingDelay + 1)
+    await governor.castVote(proposalId, voteSupport.for)
+    await mineBlocks(settings.votingPeriod)
+    await governor.queue([target], [0], [calldata], ethers.id(description))
+
+    await expect(governor.execute([target], [0], [calldata], ethers.id(description))).to.be.reverted
+  })
+
+  it("Should not let accounts without votes pass proposals", async () => {
+    const target = await stabilizationController.getAddress()
+    const calldata = stabilizationController.interface.encodeFunctionData("emergencyPause")
+    const description = "Pause from an account without votes"
+
+    await governor.connect(user1).propose([target], [0], [calldata], description)
+    const proposalId = await governor.hashProposal([target], [0], [calldata], ethers.id(description))
+    await mineBlocks(settings.votingDelay + 1)
+    await governor.connect(user1).castVote(proposalId, voteSupport.for)
+    await mineBlocks(settings.votingPeriod)
+
+    expect(await governor.state(proposalId)).to.equal(3) // Defeated, quorum not reached
+  })
+})
@@ -0,0 +1,164 @@
+import { expect } from "chai"
+import hre from "hardhat"
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers"
+import type { ScenarioContracts } from "../lib/scenario"
+import { fetchDeployedPolicy, toContractParameters } from "../lib/stabilization-policy"
+import { createTimeTravel } from "../lib/time-travel"
+import { createKeeper, startKeeperServer, type Keeper } from "../scripts/lib/keeper"
+import { deployLocalProtocol } from "../scripts/lib/local-protocol"
+
+describe("Keeper", () => {
+  const { ethers, network } = hre
+  let contracts: ScenarioContracts
+  let owner: HardhatEthersSigner
+  let operator: HardhatEthersSigner
+
+  const createTestKeeper = (options = {}) =>
+    createKeeper(contracts.stabilizationController.connect(operator), operator, {
+      pollIntervalMs: 100,
+      replaceAfterMs: 300,
+      log: () => {},
+      ...options,
+    })
+
+  const waitUntil = async (condition: () => boolean, timeoutMs = 10_000) => {
+    const deadline = Date.now() + timeoutMs
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error("Timed out waiting for the keeper")
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+  }
+
+  beforeEach(async () => {
+    ;[owner, operator] = await ethers.getSigners()
+    contracts = await deployLocalProtocol(hre)
+    const { stabilizationController } = contracts
+    await stabilizationController.grantRole(await stabilizationController.OPERATOR_ROLE(), operator.address)
+  })
+
+  afterEach(async () => {
+    await network.provider.send("evm_setAutomine", [true])
+  })
+
+  it("Should rebase once the cooldown has elapsed", async () => {
+    const { chainlinkOracle, ecashToken, stabilizationController } = contracts
+    const keeper = createTestKeeper()
+    const supply = await ecashToken.totalSupply()
+
+    await chainlinkOracle.updateAnswer(103000000) // $1.03
+    expect(await keeper.check()).to.include({ action: "rebase", stabilityBand: 1 })
+    await keeper.tick()
+
+    expect(await ecashToken.totalSupply()).to.be.greaterThan(supply)
+    expect(await stabilizationController.rebaseCount()).to.equal(1)
+    expect(keeper.getMetrics()).to.include({ rebasesSubmitted: 1, rebasesConfirmed: 1, errors: 0 })
+
+    await keeper.tick()
+    expect(keeper.getMetrics()).to.include({ lastDecision: "Cooldown not elapsed", rebasesSubmitted: 1 })
+
+    await createTimeTravel(ethers.provider).increaseTime(Number(await stabilizationController.rebaseCooldown()))
+    await chainlinkOracle.updateAnswer(100000000)
+    await keeper.tick()
+    expect(keeper.getMetrics()).to.include({ lastDecision: "No supply change at this price", rebasesSubmitted: 1 })
+  })
+
+  it("Should trip the breaker and then hold off", async () => {
+    const { chainlinkOracle, stabilizationController } = contracts
+    const keeper = createTestKeeper()
+
+    await chainlinkOracle.updateAnswer(75000000) // $0.75
+    await keeper.tick()
+    expect(await stabilizationController.circuitBreakerActive()).to.equal(true)
+    expect(keeper.getMetrics()).to.include({ breakerTrips: 1, rebasesConfirmed: 0 })
+
+    await keeper.tick()
+    expect(keeper.getMetrics()).to.include({ lastDecision: "Circuit breaker active", rebasesSubmitted: 1 })
+  })
+
+  it("Should hold off while the oracle confidence is too low", async () => {
+    const { chainlinkOracle, stabilizationController } = contracts
+    const keeper = createTestKeeper()
+    const policy = await fetchDeployedPolicy(stabilizationController)
+
+    await chainlinkOracle.updateAnswer(103000000)
+    // A second registered feed that never reports halves the confidence below the required 100%
+    const MockChainlinkOracle = await ethers.getContractFactory("MockChainlinkOracle")
+    const silent = await MockChainlinkOracle.deploy(8, "Silent")
+    await contracts.oracleAggregator.addOracle("silent", await silent.getAddress(), 100, 3600, 8, "Silent")
+    await stabilizationController.setPolicyParameters(toContractParameters({ ...policy, minOracleConfidence: 100 }))
+
+    await keeper.tick()
+    expect(keeper.getMetrics()).to.include({ lastDecision: "Insufficient oracle confidence", rebasesSubmitted: 0 })
+  })
+
+  it("Should record the reason when its rebase reverts on chain", async () => {
+    const { chainlinkOracle, stabilizationController } = contracts
+    const keeper = createTestKeeper({ replaceAfterMs: 60_000 })
+    await chainlinkOracle.updateAnswer(103000000)
+
+    await network.provider.send("evm_setAutomine", [false])
+    const tick = keeper.tick()
+    await waitUntil(() => keeper.getMetrics().pendingTx !== null)
+
+    // The owner's rebase pays a higher tip, so it is mined first and starts the cooldown. A fixed gas limit skips
+    // estimation, which would run after the keeper's pending rebase and revert.
+    const pending = await ethers.provider.getTransaction(keeper.getMetrics().pendingTx!)
+    await stabilizationController.connect(owner).rebase({
+      gasLimit: 500000,
+      maxFeePerGas: pending!.maxFeePerGas! * BigInt(2),
+      maxPriorityFeePerGas: pending!.maxPriorityFeePerGas! * BigInt(2),
+    })
+    await network.provider.send("evm_mine", [])
+    await tick
+
+    expect(await stabilizationController.rebaseCount()).to.equal(1)
+    expect(keeper.getMetrics().reverts).to.deep.equal({ "Rebase conditions not met": 1 })
+    expect(keeper.getMetrics()).to.include({ rebasesConfirmed: 0, errors: 0 })
+  })
+
+  it("Should resend a stuck rebase with the same nonce and higher fees", async () => {
+    const { chainlinkOracle, stabilizationController } = contracts
+    const keeper = createTestKeeper()
+    await chainlinkOracle.updateAnswer(103000000)
+    const nonce = await ethers.provider.getTransactionCount(operator.address)
+
+    await network.provider.send("evm_setAutomine", [false])
+    const tick = keeper.tick()
+    await waitUntil(() => keeper.getMetrics().pendingTx !== null)
+    const first = await ethers.provider.getTransaction(keeper.getMetrics().pendingTx!)
+    await waitUntil(() => keeper.getMetrics().replacements >= 1)
+
+    await network.provider.send("evm_mine", [])
+    await tick
+
+    const { lastRebaseTx, rebasesSubmitted, rebasesConfirmed } = keeper.getMetrics()
+    const mined = await ethers.provider.getTransaction(lastRebaseTx!)
+    expect(mined!.nonce).to.equal(nonce)
+    expect(mined!.maxFeePerGas).to.be.greaterThan(first!.maxFeePerGas!)
+    expect(await ethers.provider.getTransactionCount(operator.address)).to.equal(nonce + 1)
+    expect({ rebasesSubmitted, rebasesConfirmed }).to.deep.equal({ rebasesSubmitted: 1, rebasesConfirmed: 1 })
+    expect(await stabilizationController.rebaseCount()).to.equal(1)
+  })
+
+  it("Should report health and metrics over HTTP", async () => {
+    const keeper: Keeper = createTestKeeper()
+    const server = await startKeeperServer(keeper, 0)
+
+    try {
+      expect((await fetch(`${server.url}/health`)).status).to.equal(503)
+
+      keeper.start()
+      await waitUntil(() => keeper.getMetrics().checks >= 2)
+      const health = await fetch(`${server.url}/health`)
+      expect(health.status).to.equal(200)
+      expect(await health.json()).to.include({ healthy: true, lastDecision: "No supply change at this price" })
+
+      const metrics = await (await fetch(`${server.url}/metrics`)).text()
+      expect(metrics).to.include("ecash_keeper_up 1")
+      expect(metrics).to.match(/ecash_keeper_checks_total \d+/)
+    } finally {
+      await keeper.stop()
+      await server.close()
+    }
+  })
+})
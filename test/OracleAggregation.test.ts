@@ -0,0 +1,358 @@
+import { expect } from "chai"
+import { ethers, upgrades } from "hardhat"
+import type { MockChainlinkOracle, OracleAggregator } from "../typechain-types"
+import {
+  fetchAggregationReport,
+  fetchOracleSources,
+  fetchSourceDiagnostics,
+  validateOracleSource,
+  type ExclusionReason,
+} from "../lib/oracle-aggregation"
+import { oracleFailureModes, type OracleFailureMode } from "../lib/scenario"
+import { createTimeTravel } from "../lib/time-travel"
+
+describe("Oracle aggregation", () => {
+  let oracleAggregator: OracleAggregator
+  let feeds: Record<string, MockChainlinkOracle>
+
+  const WEIGHTED_MEAN = 0
+  const WEIGHTED_MEDIAN = 1
+  const TRIMMED_MEAN = 2
+
+  // Sets each feed's answer in USD; feeds left out keep their previous answer
+  const setPrices = async (prices: Record<string, number>) => {
+    for (const [key, price] of Object.entries(prices)) {
+      await feeds[key].updateAnswer(Math.round(price * 1e8))
+    }
+  }
+
+  const aggregatedPrice = async () => ethers.formatEther((await oracleAggregator.getAggregatedPrice())[0])
+
+  beforeEach(async () => {
+    const [owner] = await ethers.getSigners()
+    const OracleAggregator = await ethers.getContractFactory("OracleAggregator")
+    oracleAggregator = (await upgrades.deployProxy(OracleAggregator, [owner.address], {
+      initializer: "initialize",
+    })) as unknown as OracleAggregator
+
+    const MockChainlinkOracle = await ethers.getContractFactory("MockChainlinkOracle")
+    feeds = {}
+    for (const key of ["feed-a", "feed-b", "feed-c", "feed-d"]) {
+      feeds[key] = (await MockChainlinkOracle.deploy(8, key)) as unknown as MockChainlinkOracle
+      await feeds[key].updateAnswer(100000000)
+      await oracleAggregator.addOracle(key, await feeds[key].getAddress(), 100, 3600, 8, key)
+    }
+  })
+
+  it("Should default to the weighted mean with the 20% outlier threshold", async () => {
+    expect(await oracleAggregator.aggregationMode()).to.equal(WEIGHTED_MEAN)
+    expect(await oracleAggregator.outlierThreshold()).to.equal(await oracleAggregator.MAX_PRICE_DEVIATION())
+
+    await setPrices({ "feed-a": 1.0, "feed-b": 1.02, "feed-c": 0.98, "feed-d": 1.04 })
+    expect(await aggregatedPrice()).to.equal("1.01")
+  })
+
+  it("Should discard a manipulated feed", async () => {
+    await setPrices({ "feed-a": 10 })
+
+    const report = await fetchAggregationReport(oracleAggregator)
+    expect(report.price).to.equal("1.0")
+    expect(report.excluded).to.deep.equal([{ key: "feed-a", reason: "Outlier" }])
+    expect(report.confidence).to.equal(75)
+  })
+
+  it("Should keep feeds exactly at the threshold and drop those past it", async () => {
+    await setPrices({ "feed-a": 1.2, "feed-b": 0.79 })
+
+    const report = await fetchAggregationReport(oracleAggregator)
+    expect(report.excluded).to.deep.equal([{ key: "feed-b", reason: "Outlier" }])
+    expect(report.price).to.equal("1.066666666666666666")
+  })
+
+  it("Should take the weighted median", async () => {
+    await oracleAggregator.setAggregationMode(WEIGHTED_MEDIAN)
+    await setPrices({ "feed-a": 0.97, "feed-b": 1.0, "feed-c": 1.02, "feed-d": 1.05 })
+    // Equal weights: the lower of the two middle prices
+    expect(await aggregatedPrice()).to.equal("1.0")
+
+    await oracleAggregator.updateOracle("feed-d", 500, 3600)
+    expect(await aggregatedPrice()).to.equal("1.05")
+  })
+
+  it("Should trim the lowest and highest price", async () => {
+    await oracleAggregator.setAggregationMode(TRIMMED_MEAN)
+    await setPrices({ "feed-a": 0.98, "feed-b": 1.0, "feed-c": 1.04, "feed-d": 1.1 })
+
+    const report = await fetchAggregationReport(oracleAggregator)
+    expect(report.price).to.equal("1.02")
+    expect(report.excluded).to.have.deep.members([
+      { key: "feed-a", reason: "Trimmed" },
+      { key: "feed-d", reason: "Trimmed" },
+    ])
+    // Trimmed feeds still count as fresh, but all four spread 3.9% on average around $1.02
+    expect(report.confidence).to.equal(80)
+  })
+
+  it("Should reject outliers before trimming", async () => {
+    await oracleAggregator.setAggregationMode(TRIMMED_MEAN)
+    await setPrices({ "feed-a": 0.5, "feed-b": 1.0, "feed-c": 1.02, "feed-d": 1.04 })
+
+    const report = await fetchAggregationReport(oracleAggregator)
+    expect(report.excluded).to.have.deep.members([
+      { key: "feed-a", reason: "Outlier" },
+      { key: "feed-b", reason: "Trimmed" },
+      { key: "feed-d", reason: "Trimmed" },
+    ])
+    expect(report.price).to.equal("1.02")
+  })
+
+  it("Should report stale and invalid feeds", async () => {
+    await createTimeTravel(ethers.provider).increaseTime(3601)
+    await setPrices({ "feed-a": 1.0, "feed-b": 1.0 })
+    await feeds["feed-c"].updateAnswer(0)
+
+    const report = await fetchAggregationReport(oracleAggregator)
+    expect(report.excluded).to.deep.equal([
+      { key: "feed-c", reason: "Invalid answer" },
+      { key: "feed-d", reason: "Stale" },
+    ])
+    expect(report.confidence).to.equal(50)
+  })
+
+  it("Should weigh confidence by the fresh share of the weight", async () => {
+    await oracleAggregator.updateOracle("feed-d", 900, 3600)
+    await createTimeTravel(ethers.provider).increaseTime(3601)
+    await setPrices({ "feed-a": 1.0, "feed-b": 1.0, "feed-c": 1.0 })
+
+    // feed-d holds 75% of the weight and is stale
+    const [price, , confidence] = await oracleAggregator.getAggregatedPrice()
+    expect(price).to.equal(ethers.parseEther("1.0"))
+    expect(confidence).to.equal(25)
+  })
+
+  it("Should lower confidence as the sources disagree", async () => {
+    await setPrices({ "feed-a": 1.02, "feed-b": 0.98, "feed-c": 1.02, "feed-d": 0.98 })
+    // 2% mean distance from $1.00 is a tenth of the 20% outlier threshold
+    expect((await oracleAggregator.getAggregatedPrice())[2]).to.equal(90)
+
+    await oracleAggregator.setOutlierThreshold(ethers.parseUnits("5", 16))
+    expect((await oracleAggregator.getAggregatedPrice())[2]).to.equal(60)
+  })
+
+  it("Should describe every source", async () => {
+    await setPrices({ "feed-a": 10 })
+    await createTimeTravel(ethers.provider).increaseTime(3601)
+    await setPrices({ "feed-a": 10, "feed-b": 1.0, "feed-c": 1.01 })
+
+    const diagnostics = await fetchSourceDiagnostics(oracleAggregator)
+    expect(diagnostics.map(({ key, included, reason }) => ({ key, included, reason }))).to.deep.equal([
+      { key: "feed-a", included: false, reason: "Outlier" },
+      { key: "feed-b", included: true, reason: "Included" },
+      { key: "feed-c", included: true, reason: "Included" },
+      { key: "feed-d", included: false, reason: "Stale" },
+    ])
+    expect(diagnostics[2]).to.include({
+      oracle: await feeds["feed-c"].getAddress(),
+      answer: "101000000",
+      price: "1.01",
+      weight: 100,
+      heartbeat: 3600,
+    })
+    expect(diagnostics[2].age).to.be.lessThan(60)
+    expect(diagnostics[3].age).to.be.greaterThan(3600)
+  })
+
+  it("Should describe the sources without a valid price", async () => {
+    await createTimeTravel(ethers.provider).increaseTime(3601)
+    await expect(oracleAggregator.getAggregatedPrice()).to.be.revertedWith("Insufficient valid oracles")
+
+    const diagnostics = await fetchSourceDiagnostics(oracleAggregator)
+    expect(diagnostics.map((source) => source.reason)).to.deep.equal(["Stale", "Stale", "Stale", "Stale"])
+    expect(diagnostics[0]).to.include({ answer: "100000000", price: "0.0" })
+  })
+
+  it("Should use a configured outlier threshold", async () => {
+    await setPrices({ "feed-a": 1.1 })
+    expect((await fetchAggregationReport(oracleAggregator)).excluded).to.deep.equal([])
+
+    await expect(oracleAggregator.setOutlierThreshold(ethers.parseUnits("5", 16)))
+      .to.emit(oracleAggregator, "OutlierThresholdUpdated")
+      .withArgs(ethers.parseUnits("20", 16), ethers.parseUnits("5", 16))
+    expect((await fetchAggregationReport(oracleAggregator)).excluded).to.deep.equal([
+      { key: "feed-a", reason: "Outlier" },
+    ])
+  })
+
+  it("Should restrict the settings to oracle managers", async () => {
+    const [, user] = await ethers.getSigners()
+
+    await expect(oracleAggregator.connect(user).setAggregationMode(WEIGHTED_MEDIAN)).to.be.reverted
+    await expect(oracleAggregator.connect(user).setOutlierThreshold(1)).to.be.reverted
+    await expect(oracleAggregator.setOutlierThreshold(0)).to.be.revertedWith("Outlier threshold out of bounds")
+    await expect(oracleAggregator.setOutlierThreshold(ethers.parseEther("1.01"))).to.be.revertedWith(
+      "Outlier threshold out of bounds",
+    )
+  })
+
+  describe("Source management", () => {
+    it("Should list every source with its configuration", async () => {
+      await oracleAggregator.updateOracle("feed-b", 250, 7200)
+
+      const sources = await fetchOracleSources(oracleAggregator)
+      expect(sources.map((source) => source.key)).to.deep.equal(["feed-a", "feed-b", "feed-c", "feed-d"])
+      expect(sources[1]).to.deep.equal({
+        key: "feed-b",
+        oracle: await feeds["feed-b"].getAddress(),
+        weight: 250,
+        heartbeat: 7200,
+        decimals: 8,
+        description: "feed-b",
+        isActive: true,
+      })
+    })
+
+    it("Should deactivate and reactivate a source", async () => {
+      await setPrices({ "feed-a": 1.04 })
+      await oracleAggregator.updateOracle("feed-a", 900, 3600)
+
+      await expect(oracleAggregator.deactivateOracle("feed-a"))
+        .to.emit(oracleAggregator, "OracleDeactivated")
+        .withArgs("feed-a")
+      // Deactivated weight counts neither towards the price nor against the confidence
+      const [price, , confidence] = await oracleAggregator.getAggregatedPrice()
+      expect(price).to.equal(ethers.parseEther("1.0"))
+      expect(confidence).to.equal(100)
+      expect(await oracleAggregator.getOracleCount()).to.equal(4)
+      expect((await fetchSourceDiagnostics(oracleAggregator))[0].reason).to.equal("Inactive")
+
+      // Still registered, so it can be reweighted but not added again
+      await oracleAggregator.updateOracle("feed-a", 100, 3600)
+      await expect(
+        oracleAggregator.addOracle("feed-a", await feeds["feed-a"].getAddress(), 100, 3600, 8, "feed-a"),
+      ).to.be.revertedWith("Oracle already exists")
+      await expect(oracleAggregator.deactivateOracle("feed-a")).to.be.revertedWith("Oracle is not active")
+
+      await expect(oracleAggregator.activateOracle("feed-a"))
+        .to.emit(oracleAggregator, "OracleActivated")
+        .withArgs("feed-a")
+      expect((await fetchOracleSources(oracleAggregator))[0]).to.include({ isActive: true, weight: 100 })
+      expect(await aggregatedPrice()).to.equal("1.01")
+      await expect(oracleAggregator.activateOracle("feed-a")).to.be.revertedWith("Oracle already active")
+    })
+
+    it("Should remove a deactivated source and allow it to be added again", async () => {
+      await oracleAggregator.deactivateOracle("feed-b")
+      await expect(oracleAggregator.removeOracle("feed-b")).to.emit(oracleAggregator, "OracleRemoved")
+
+      expect((await fetchOracleSources(oracleAggregator)).map((source) => source.key)).to.deep.equal([
+        "feed-a",
+        "feed-d",
+        "feed-c",
+      ])
+      await expect(oracleAggregator.activateOracle("feed-b")).to.be.revertedWith("Oracle does not exist")
+      await expect(oracleAggregator.updateOracle("feed-b", 100, 3600)).to.be.revertedWith("Oracle does not exist")
+
+      await oracleAggregator.addOracle("feed-b", await feeds["feed-b"].getAddress(), 100, 3600, 8, "feed-b")
+      expect(await oracleAggregator.getOracleCount()).to.equal(4)
+    })
+
+    it("Should restrict source management to oracle managers", async () => {
+      const [, user] = await ethers.getSigners()
+
+      await expect(oracleAggregator.connect(user).deactivateOracle("feed-a")).to.be.reverted
+      await expect(oracleAggregator.connect(user).activateOracle("feed-a")).to.be.reverted
+    })
+
+    it("Should validate a source before it is sent", async () => {
+      const source = {
+        key: "feed-e",
+        oracle: await feeds["feed-a"].getAddress(),
+        weight: 100,
+        heartbeat: 3600,
+        decimals: 8,
+        description: "",
+      }
+      expect(validateOracleSource(source, ["feed-a"])).to.deep.equal([])
+      expect(
+        validateOracleSource({ ...source, key: "feed-a", oracle: ethers.ZeroAddress, weight: 0, heartbeat: 0 }, [
+          "feed-a",
+        ]),
+      ).to.deep.equal([
+        "Oracle feed-a already exists",
+        "Invalid oracle address",
+        "Weight must be a positive whole number",
+        "Heartbeat must be a positive whole number of seconds",
+      ])
+    })
+  })
+  describe("Feed failure modes", () => {
+    const setFailureMode = (key: string, mode: OracleFailureMode) =>
+      feeds[key].setFailureMode(oracleFailureModes.indexOf(mode))
+
+    const expectedReasons: [OracleFailureMode, ExclusionReason][] = [
+      ["revert", "Call failed"],
+      ["zeroAnswer", "Invalid answer"],
+      ["negativeAnswer", "Invalid answer"],
+      ["staleTimestamp", "Stale"],
+      ["incompleteRound", "Stale"],
+      ["gasGriefing", "Call failed"],
+    ]
+
+    it("Should misreport the latest round in each mode", async () => {
+      const feed = feeds["feed-a"]
+      const [roundId, answer, , updatedAt] = await feed.latestRoundData()
+
+      await setFailureMode("feed-a", "revert")
+      await expect(feed.latestRoundData()).to.be.revertedWith("MockChainlinkOracle: forced failure")
+      await setFailureMode("feed-a", "negativeAnswer")
+      expect((await feed.latestRoundData())[1]).to.equal(-answer)
+      await setFailureMode("feed-a", "staleTimestamp")
+      expect((await feed.latestRoundData())[3]).to.equal(updatedAt - (await feed.staleAge()))
+      await setFailureMode("feed-a", "incompleteRound")
+      expect((await feed.latestRoundData())[4]).to.equal(roundId - BigInt(1))
+
+      await setFailureMode("feed-a", "none")
+      const restored = await feed.latestRoundData()
+      expect([restored[1], restored[3], restored[4]]).to.deep.equal([answer, updatedAt, roundId])
+    })
+
+    for (const [mode, reason] of expectedReasons) {
+      it(`Should leave out a feed in ${mode} mode`, async () => {
+        await setFailureMode("feed-a", mode)
+
+        const report = await fetchAggregationReport(oracleAggregator)
+        expect(report.excluded).to.deep.equal([{ key: "feed-a", reason }])
+        expect(report.price).to.equal("1.0")
+        expect(report.confidence).to.equal(75)
+      })
+
+      it(`Should refuse a price when the only active feed is in ${mode} mode`, async () => {
+        for (const key of ["feed-b", "feed-c", "feed-d"]) await oracleAggregator.deactivateOracle(key)
+        await setFailureMode("feed-a", mode)
+
+        await expect(oracleAggregator.getAggregatedPrice()).to.be.revertedWith("Insufficient valid oracles")
+        const [diagnostics] = await fetchSourceDiagnostics(oracleAggregator)
+        expect(diagnostics).to.include({ key: "feed-a", included: false, reason })
+      })
+    }
+
+    it("Should bound the gas a griefing feed can burn", async () => {
+      const baseline = await oracleAggregator.getAggregatedPrice.estimateGas()
+      await setFailureMode("feed-a", "gasGriefing")
+      const griefed = await oracleAggregator.getAggregatedPrice.estimateGas()
+
+      expect(griefed - baseline).to.be.lessThanOrEqual(await oracleAggregator.ORACLE_CALL_GAS())
+    })
+
+    it("Should leave out every failing feed at once", async () => {
+      await setFailureMode("feed-a", "revert")
+      await setFailureMode("feed-b", "staleTimestamp")
+      await setFailureMode("feed-c", "gasGriefing")
+
+      const report = await fetchAggregationReport(oracleAggregator)
+      expect(report.excluded.map((source) => source.key)).to.deep.equal(["feed-a", "feed-b", "feed-c"])
+      expect(report.price).to.equal("1.0")
+      expect(report.confidence).to.equal(25)
+    })
+  })
+})
@@ -0,0 +1,107 @@
+import { expect } from "chai"
+import hre from "hardhat"
+import {
+  defaultPolicy,
+  diffPolicies,
+  fetchDeployedPolicy,
+  percent,
+  simulateRebase,
+  toContractParameters,
+  validatePolicy,
+  type PolicyParameters,
+} from "../lib/stabilization-policy"
+import { createTimeTravel } from "../lib/time-travel"
+import { deployLocalProtocol } from "../scripts/lib/local-protocol"
+
+describe("Policy parameters", () => {
+  const tuned: PolicyParameters = {
+    ...defaultPolicy,
+    rebaseCooldown: 6 * 60 * 60,
+    bandThresholds: [percent(2), percent(5), percent(10), percent(25)],
+    bandDampings: [percent(20), percent(25), percent(50), percent(75)],
+  }
+
+  it("Should initialize with the default policy", async () => {
+    const { stabilizationController } = await deployLocalProtocol(hre)
+
+    expect(await fetchDeployedPolicy(stabilizationController)).to.deep.equal(defaultPolicy)
+  })
+
+  it("Should emit ParameterUpdated for each changed field only", async () => {
+    const { stabilizationController } = await deployLocalProtocol(hre)
+
+    const tx = await stabilizationController.setPolicyParameters(toContractParameters(tuned))
+    const receipt = await tx.wait()
+    const updates = receipt!.logs
+      .map((log) => stabilizationController.interface.parseLog(log))
+      .filter((event) => event?.name === "ParameterUpdated")
+      .map((event) => event!.args.parameter)
+
+    expect(updates).to.deep.equal(diffPolicies(defaultPolicy, tuned))
+    expect(updates).to.deep.equal(["rebaseCooldown", "bandThreshold1", "bandDamping1", "bandThreshold4"])
+    expect(await fetchDeployedPolicy(stabilizationController)).to.deep.equal(tuned)
+  })
+
+  it("Should rebase with the updated parameters", async () => {
+    const { chainlinkOracle, ecashToken, stabilizationController } = await deployLocalProtocol(hre)
+    await stabilizationController.setPolicyParameters(toContractParameters(tuned))
+    const supply = await ecashToken.totalSupply()
+
+    // 1.5% above target is band 0 under the tuned thresholds, so nothing changes
+    await chainlinkOracle.updateAnswer(101500000)
+    await stabilizationController.rebase()
+    expect(await ecashToken.totalSupply()).to.equal(supply)
+
+    // $0.78 would trip the default breaker but is band 3 here
+    await chainlinkOracle.updateAnswer(78000000)
+    await stabilizationController.rebase()
+    expect(await stabilizationController.circuitBreakerActive()).to.equal(false)
+    const expected = simulateRebase(hre.ethers.parseEther("0.78"), supply, tuned)
+    expect(await ecashToken.totalSupply()).to.equal(expected.newSupply)
+
+    // The shorter cooldown applies to the next rebase
+    await createTimeTravel(hre.ethers.provider).increaseTime(tuned.rebaseCooldown)
+    expect(await stabilizationController.canRebase()).to.equal(true)
+  })
+
+  it("Should reject parameters outside the bounds", async () => {
+    const { stabilizationController } = await deployLocalProtocol(hre)
+    const invalid: [string, PolicyParameters][] = [
+      ["Target price out of bounds", { ...defaultPolicy, targetPrice: percent(40) }],
+      ["Rebase cooldown out of bounds", { ...defaultPolicy, rebaseCooldown: 60 }],
+      ["Max rebase percentage out of bounds", { ...defaultPolicy, maxRebasePercentage: percent(60) }],
+      [
+        "Band thresholds must increase",
+        { ...defaultPolicy, bandThresholds: [percent(5), percent(5), percent(10), percent(20)] },
+      ],
+      [
+        "Band threshold out of bounds",
+        { ...defaultPolicy, bandThresholds: [percent(1), percent(5), percent(10), percent(60)] },
+      ],
+      [
+        "Damping factor out of bounds",
+        { ...defaultPolicy, bandDampings: [percent(10), percent(25), percent(50), percent(120)] },
+      ],
+      ["Min oracle confidence out of bounds", { ...defaultPolicy, minOracleConfidence: 0 }],
+    ]
+
+    for (const [reason, policy] of invalid) {
+      expect(validatePolicy(policy), reason).to.have.lengthOf(1)
+      expect(validatePolicy(policy)[0], reason).to.include(reason)
+      await expect(stabilizationController.setPolicyParameters(toContractParameters(policy))).to.be.revertedWith(
+        reason,
+      )
+    }
+  })
+
+  it("Should only let admins change the parameters", async () => {
+    const { stabilizationController } = await deployLocalProtocol(hre)
+    const [, user] = await hre.ethers.getSigners()
+
+    await expect(stabilizationController.connect(user).setPolicyParameters(toContractParameters(tuned))).to.be
+      .reverted
+    await expect(stabilizationController.initializePolicyParameters()).to.be.revertedWith(
+      "Policy parameters already set",
+    )
+  })
+})
@@ -0,0 +1,221 @@
+import { expect } from "chai"
+import hre from "hardhat"
+import type { MockChainlinkOracle } from "../typechain-types"
+import {
+  compareRecordings,
+  parsePriceSeries,
+  resolveReplayFeeds,
+  runPriceReplay,
+  summarizeRecording,
+  type PriceReplayEnvironment,
+  type PriceSeriesPoint,
+} from "../lib/price-replay"
+import type { ScenarioContracts } from "../lib/scenario"
+import { createTimeTravel } from "../lib/time-travel"
+import { deployLocalProtocol } from "../scripts/lib/local-protocol"
+
+describe("Price replay", () => {
+  const { ethers } = hre
+  const timeTravel = createTimeTravel(ethers.provider)
+  let contracts: ScenarioContracts
+  let secondFeed: MockChainlinkOracle
+  let environment: PriceReplayEnvironment
+
+  // Hourly points from 2024-01-01, long before the local chain's clock
+  const HOUR = 3600
+  const START = 1704067200
+  const hourly = (prices: number[]) => prices.map((price, i) => ({ timestamp: START + i * HOUR, prices: { price } }))
+
+  beforeEach(async () => {
+    contracts = await deployLocalProtocol(hre)
+    const MockChainlinkOracle = await ethers.getContractFactory("MockChainlinkOracle")
+    secondFeed = (await MockChainlinkOracle.deploy(8, "ETH/USD 2")) as unknown as MockChainlinkOracle
+    await secondFeed.updateAnswer(100000000)
+    await contracts.oracleAggregator.addOracle(
+      "chainlink-eth-usd-2",
+      await secondFeed.getAddress(),
+      100,
+      3600,
+      8,
+      "ETH/USD 2",
+    )
+
+    const feeds = await resolveReplayFeeds(contracts.oracleAggregator, null, (address) =>
+      ethers.getContractAt("MockChainlinkOracle", address),
+    )
+    environment = { contracts, timeTravel, feeds }
+  })
+
+  afterEach(async () => {
+    await timeTravel.setAutomine(true)
+  })
+
+  describe("Parsing", () => {
+    it("Should read CSV with per-feed columns and mixed timestamp formats", () => {
+      const series = parsePriceSeries(
+        "timestamp,chainlink-eth-usd,chainlink-eth-usd-2\n2024-01-01T00:00:00Z,1.01,1.02\n1704070800,0.99,\n",
+        "prices.csv",
+      )
+
+      expect(series).to.deep.equal([
+        { timestamp: START, prices: { "chainlink-eth-usd": 1.01, "chainlink-eth-usd-2": 1.02 } },
+        { timestamp: START + HOUR, prices: { "chainlink-eth-usd": 0.99 } },
+      ])
+    })
+
+    it("Should read a JSON array with millisecond timestamps", () => {
+      const series = parsePriceSeries(JSON.stringify([{ timestamp: START * 1000, price: 1.03 }]), "prices.json")
+      expect(series).to.deep.equal([{ timestamp: START, prices: { price: 1.03 } }])
+    })
+
+    it("Should reject malformed series", () => {
+      expect(() => parsePriceSeries("time,price\n1,1", "a.csv")).to.throw("Price series a.csv needs a timestamp column")
+      expect(() => parsePriceSeries("timestamp,price\n2,1\n1,1", "b.csv")).to.throw(
+        "Price series b.csv row 2: timestamps must increase",
+      )
+      expect(() => parsePriceSeries("timestamp,price\n1,abc", "c.csv")).to.throw(
+        "Price series c.csv row 1: price is not a number",
+      )
+      expect(() => parsePriceSeries("[{}]", "d.json")).to.throw("Price series d.json is invalid")
+    })
+  })
+
+  describe("Replaying", () => {
+    it("Should publish every point to all feeds in one block with matching updatedAt", async () => {
+      const recording = await runPriceReplay(hourly([1.01, 0.98]), "hourly", environment)
+      const latest = await timeTravel.getTimestamp()
+
+      expect(recording.feeds).to.deep.equal(["chainlink-eth-usd", "chainlink-eth-usd-2"])
+      expect(recording.points).to.have.length(2)
+      const [first, second] = recording.points
+      // Shifted forward as a whole, keeping the hourly spacing
+      expect(first.chainTimestamp).to.be.greaterThan(START)
+      expect(second.chainTimestamp - first.chainTimestamp).to.equal(HOUR)
+      expect(second.chainTimestamp).to.equal(latest)
+
+      for (const feed of [contracts.chainlinkOracle, secondFeed]) {
+        const [, answer, , updatedAt] = await feed.latestRoundData()
+        expect(answer).to.equal(98000000)
+        expect(updatedAt).to.equal(second.chainTimestamp)
+      }
+      expect(second.prices).to.deep.equal({ "chainlink-eth-usd": 0.98, "chainlink-eth-usd-2": 0.98 })
+      expect(second.aggregatedPrice).to.equal(0.98)
+      expect(second.confidence).to.equal(100)
+      expect(second.rebase).to.equal(null)
+    })
+
+    it("Should keep the series timestamps when they are still ahead of the chain", async () => {
+      const start = (await timeTravel.getTimestamp()) + 10 * HOUR
+      const series = [1.0, 1.01].map((price, i) => ({ timestamp: start + i * HOUR, prices: { price } }))
+
+      const recording = await runPriceReplay(series, "future", environment)
+      expect(recording.points.map((point) => point.chainTimestamp)).to.deep.equal([start, start + HOUR])
+    })
+
+    it("Should leave feeds without a price at a point on their previous answer", async () => {
+      const series: PriceSeriesPoint[] = [
+        { timestamp: START, prices: { "chainlink-eth-usd": 1.02, "chainlink-eth-usd-2": 1.02 } },
+        { timestamp: START + 60, prices: { "chainlink-eth-usd": 1.04 } },
+      ]
+      const recording = await runPriceReplay(series, "partial", environment)
+
+      const [, answer, , updatedAt] = await secondFeed.latestRoundData()
+      expect(answer).to.equal(102000000)
+      expect(updatedAt).to.equal(recording.points[0].chainTimestamp)
+      expect(recording.points[1].aggregatedPrice).to.equal(1.03)
+    })
+
+    it("Should publish prices too large for toFixed in full", async () => {
+      await runPriceReplay([{ timestamp: START, prices: { price: 2e21 } }], "large", environment)
+
+      const [, answer] = await secondFeed.latestRoundData()
+      expect(answer).to.equal(ethers.parseUnits("2000000000000000000000", 8))
+    })
+
+    it("Should drop the updates already queued when a point fails", async () => {
+      // The second answer overflows int256, after the first feed's update is queued
+      const series = [{ timestamp: START, prices: { "chainlink-eth-usd": 1.05, "chainlink-eth-usd-2": 1e70 } }]
+      const error = await runPriceReplay(series, "overflow", environment).then(() => null, (error: Error) => error)
+      expect(error).to.not.be.null
+
+      await timeTravel.mine()
+      const [, answer] = await contracts.chainlinkOracle.latestRoundData()
+      expect(answer).to.equal(100000000)
+    })
+
+    it("Should refuse series columns for feeds that are not replayed", async () => {
+      const series = [{ timestamp: START, prices: { "unknown-feed": 1 } }]
+      const replayError = await runPriceReplay(series, "unknown", environment).then(() => null, (error: Error) => error)
+      expect(replayError?.message).to.equal("The series has prices for unknown-feed, which are not replayed")
+
+      const connect = (address: string) => ethers.getContractAt("MockChainlinkOracle", address)
+      const feedsError = await resolveReplayFeeds(contracts.oracleAggregator, ["unknown-feed"], connect).then(
+        () => null,
+        (error: Error) => error,
+      )
+      expect(feedsError?.message).to.equal("No oracle registered under unknown-feed")
+    })
+
+    it("Should stop when asked and keep the points replayed so far", async () => {
+      let replayed = 0
+      const recording = await runPriceReplay(hourly([1, 1, 1, 1]), "hourly", environment, "never", {
+        onPoint: () => replayed++,
+        shouldStop: () => replayed === 2,
+      })
+      expect(recording.points).to.have.length(2)
+    })
+  })
+
+  describe("Scheduled rebases", () => {
+    it("Should rebase whenever the cooldown allows and record the response", async () => {
+      const recording = await runPriceReplay(hourly([1.03, 1.03, 1.0]), "hourly", environment, "cooldown")
+      const [first, second, third] = recording.points
+
+      expect(first.rebase?.outcome).to.equal("executed")
+      expect(first.rebase?.txHash).to.match(/^0x[0-9a-f]{64}$/)
+      expect(first.totalSupply).to.be.greaterThan(recording.initialSupply)
+      expect(first.stabilityBand).to.equal(1)
+      expect(second.rebase).to.deep.equal({ outcome: "blocked", message: "Rebase blocked (rebase on cooldown)" })
+      expect(third.rebase?.outcome).to.equal("blocked")
+      expect(third.totalSupply).to.equal(first.totalSupply)
+
+      expect(summarizeRecording(recording)).to.include({ points: 3, rebases: 1, breakerTrips: 0 })
+      expect(await contracts.stabilizationController.rebaseCount()).to.equal(1)
+    })
+
+    it("Should only attempt rebases at the given interval of series time", async () => {
+      const recording = await runPriceReplay(hourly([1, 1, 1, 1, 1]), "hourly", environment, 2 * HOUR)
+      expect(recording.points.map((point) => point.rebase !== null)).to.deep.equal([true, false, true, false, true])
+    })
+
+    it("Should record a tripped circuit breaker", async () => {
+      const recording = await runPriceReplay(hourly([1.5, 1.5]), "spike", environment, "cooldown")
+
+      expect(recording.points[0].rebase?.outcome).to.equal("circuitBreaker")
+      expect(recording.points[0].circuitBreakerActive).to.equal(true)
+      expect(recording.points[1].rebase).to.deep.equal({
+        outcome: "blocked",
+        message: "Rebase blocked (circuit breaker active)",
+      })
+      expect(summarizeRecording(recording)).to.include({ rebases: 0, breakerTrips: 1 })
+    })
+  })
+
+  describe("Comparing recordings", () => {
+    it("Should find where two runs of the same series diverge", async () => {
+      const series = hourly([1.0, 1.03, 1.03])
+      const snapshotId = await timeTravel.snapshot()
+      const passive = await runPriceReplay(series, "hourly", environment)
+      await timeTravel.revert(snapshotId)
+      const rebasing = await runPriceReplay(series, "hourly", environment, "cooldown")
+
+      const comparison = compareRecordings(passive, rebasing)
+      expect(comparison.comparedPoints).to.equal(3)
+      expect(comparison.divergedAt).to.equal(START + HOUR)
+      expect(comparison.baseline.rebases).to.equal(0)
+      expect(comparison.current.rebases).to.equal(1)
+
+      expect(compareRecordings(rebasing, rebasing).divergedAt).to.equal(null)
+    })
+  })
+})
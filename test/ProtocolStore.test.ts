@@ -0,0 +1,99 @@
+import { expect } from "chai"
+import hre, { ethers } from "hardhat"
+import { connectProtocolContracts } from "../lib/contracts"
+import { createProtocolStore, type ProtocolStore } from "../lib/protocol-store"
+import { deployLocalProtocol } from "../scripts/lib/local-protocol"
+
+describe("Protocol store", () => {
+  // Accepts log filters like a wallet provider does, so the store subscribes to events instead of polling
+  const provider = new ethers.BrowserProvider(hre.network.provider, undefined, { pollingInterval: 50 })
+  let store: ProtocolStore
+
+  const waitFor = async (condition: () => boolean, timeoutMs = 10_000) => {
+    const deadline = Date.now() + timeoutMs
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error("Timed out waiting for the store")
+      await new Promise((resolve) => setTimeout(resolve, 25))
+    }
+  }
+
+  const startStore = async () => {
+    const deployed = await deployLocalProtocol(hre)
+    const addresses: Record<string, string> = {
+      treasury: await deployed.stabilizationController.treasury(),
+    }
+    for (const [key, contract] of Object.entries(deployed)) addresses[key] = await contract.getAddress()
+
+    store = createProtocolStore(connectProtocolContracts(addresses, provider), provider)
+    await store.start()
+    return deployed
+  }
+
+  afterEach(() => {
+    store?.stop()
+  })
+
+  it("Should refresh the price from a feed's AnswerUpdated without polling", async () => {
+    const { chainlinkOracle } = await startStore()
+    expect(store.getState().mode).to.equal("events")
+    expect(store.getState().status!.currentPrice).to.equal("1.0")
+
+    const receipt = await (await chainlinkOracle.updateAnswer(95000000)).wait() // $0.95
+    await waitFor(() => store.getState().status?.currentPrice === "0.95")
+
+    expect(store.getState().blockNumber).to.equal(receipt!.blockNumber)
+    expect(store.getState().events[0]).to.include({
+      blockNumber: receipt!.blockNumber,
+      contract: "chainlink-eth-usd",
+      name: "AnswerUpdated",
+    })
+  })
+
+  it("Should watch feeds registered after it started", async () => {
+    const { oracleAggregator } = await startStore()
+
+    const MockChainlinkOracle = await ethers.getContractFactory("MockChainlinkOracle")
+    const backupFeed = await MockChainlinkOracle.deploy(8, "Backup ETH/USD")
+    await (await backupFeed.updateAnswer(100000000)).wait()
+    await (
+      await oracleAggregator.addOracle("backup-eth-usd", await backupFeed.getAddress(), 100, 3600, 8, "Backup")
+    ).wait()
+    await waitFor(() => store.getState().events.some((event) => event.name === "OracleAdded"))
+    // Give the store a moment to subscribe to the new feed
+    await new Promise((resolve) => setTimeout(resolve, 200))
+
+    const receipt = await (await backupFeed.updateAnswer(98000000)).wait() // $0.98
+    await waitFor(() => store.getState().events.some((event) => event.contract === "backup-eth-usd"))
+    await waitFor(() => store.getState().blockNumber >= receipt!.blockNumber)
+
+    expect(store.getState().status!.currentPrice).to.equal("0.99")
+  })
+  it("Should not leave listeners behind when stopped while starting", async () => {
+    const deployed = await deployLocalProtocol(hre)
+    const addresses: Record<string, string> = {
+      treasury: await deployed.stabilizationController.treasury(),
+    }
+    for (const [key, contract] of Object.entries(deployed)) addresses[key] = await contract.getAddress()
+
+    // Stops at different points of start(), as React Strict Mode's immediate unmount would
+    for (const delayMs of [0, 5, 20, 50]) {
+      const ownProvider = new ethers.BrowserProvider(hre.network.provider, undefined, { pollingInterval: 50 })
+      const racing = createProtocolStore(connectProtocolContracts(addresses, ownProvider), ownProvider)
+      const starting = racing.start()
+      await new Promise((resolve) => setTimeout(resolve, delayMs))
+      racing.stop()
+      await starting
+      // A feed poll in flight during stop() re-arms ethers' one-shot "block" listener, which lapses at the next block
+      await hre.network.provider.send("evm_mine")
+      // Unsubscribing from the provider completes asynchronously
+      let listeners = await ownProvider.listenerCount()
+      for (let attempt = 0; listeners > 0 && attempt < 40; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 50))
+        listeners = await ownProvider.listenerCount()
+      }
+
+      expect(listeners, `stopped after ${delayMs}ms`).to.equal(0)
+      ownProvider.destroy()
+    }
+  })
+})
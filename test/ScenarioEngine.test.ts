@@ -0,0 +1,131 @@
+import { expect } from "chai"
+import hre, { ethers } from "hardhat"
+import { time } from "@nomicfoundation/hardhat-network-helpers"
+import { parseScenario, parseScenarioJson, runScenario, type ScenarioEnvironment } from "../lib/scenario"
+import { builtInScenarios } from "../lib/scenarios"
+import { defaultPolicy, toContractParameters } from "../lib/stabilization-policy"
+import { deployLocalProtocol } from "../scripts/lib/local-protocol"
+import { toJUnitXml } from "../scripts/lib/scenario-report"
+
+describe("Scenario engine", () => {
+  let environment: ScenarioEnvironment
+
+  const builtIn = (name: string) => {
+    const definition = builtInScenarios.find((scenario) => scenario.name === name)!
+    return parseScenario(definition, name)
+  }
+
+  beforeEach(async () => {
+    environment = {
+      contracts: await deployLocalProtocol(hre),
+      advanceTime: async (seconds) => {
+        await time.increase(seconds)
+      },
+      deployFeed: async (decimals, description) => {
+        const MockChainlinkOracle = await ethers.getContractFactory("MockChainlinkOracle")
+        return (await MockChainlinkOracle.deploy(decimals, description)).waitForDeployment()
+      },
+    }
+  })
+
+  it("Should pass the market crash, oracle failure, manipulation and recovery scenarios", async () => {
+    for (const name of [
+      "Market Crash Simulation",
+      "Oracle Failure Modes",
+      "Oracle Manipulation Attack",
+      "Recovery Procedure",
+    ]) {
+      const result = await runScenario(builtIn(name), environment)
+      const failed = result.steps.filter((step) => step.status === "failed")
+      expect(failed, `${name}: ${failed.map((step) => step.message).join("; ")}`).to.be.empty
+      expect(result.passed).to.be.true
+    }
+  })
+
+  it("Should report every step in order and stop at the first failure", async () => {
+    const scenario = parseScenario(
+      {
+        name: "Failing assertion",
+        steps: [
+          { type: "setPrice", price: 1.05 },
+          { type: "assertCircuitBreaker", active: true },
+          { type: "rebase" },
+        ],
+      },
+      "inline",
+    )
+
+    const started: number[] = []
+    const result = await runScenario(scenario, environment, { onStepStart: (index) => started.push(index) })
+
+    expect(started).to.deep.equal([0, 1])
+    expect(result.passed).to.be.false
+    expect(result.steps.map((step) => step.status)).to.deep.equal(["passed", "failed"])
+    expect(result.steps[1].message).to.contain("Expected circuit breaker active")
+
+    const junit = toJUnitXml([{ scenario, result }])
+    expect(junit).to.contain('tests="3" failures="1" skipped="1"')
+    expect(junit).to.contain('<skipped message="Not run" />')
+  })
+
+  it("Should skip time travel and blocked rebases without a time source", async () => {
+    const scenario = parseScenario(
+      {
+        name: "Cooldown",
+        steps: [
+          { type: "setPrice", price: 1.05 },
+          { type: "rebase", expect: "executed" },
+          { type: "advanceTime", seconds: "cooldown" },
+          { type: "rebase" },
+        ],
+      },
+      "inline",
+    )
+
+    const result = await runScenario(scenario, { contracts: environment.contracts })
+
+    expect(result.passed).to.be.true
+    expect(result.steps.map((step) => step.status)).to.deep.equal(["passed", "passed", "skipped", "skipped"])
+    expect(result.steps[3].message).to.contain("cooldown")
+  })
+
+  it("Should remove the feeds a scenario added when it ends", async () => {
+    const { oracleAggregator } = environment.contracts
+    const scenario = builtIn("Oracle Manipulation Attack")
+
+    const result = await runScenario(scenario, environment)
+
+    expect(result.passed).to.be.true
+    expect(result.steps[2].message).to.equal("Feed honest-feed-2 registered at $1.00")
+    expect(await oracleAggregator.getOracleCount()).to.equal(1)
+
+    const skipped = await runScenario(scenario, { contracts: environment.contracts })
+    expect(skipped.steps[1]).to.include({ status: "skipped", message: "Adding feeds needs a local network" })
+  })
+
+  it("Should reset the oracle to the controller's target price", async () => {
+    const { chainlinkOracle, stabilizationController } = environment.contracts
+    await (
+      await stabilizationController.setPolicyParameters(
+        toContractParameters({ ...defaultPolicy, targetPrice: ethers.parseEther("1.05") }),
+      )
+    ).wait()
+    const scenario = parseScenario(
+      { name: "Reset", steps: [{ type: "setPrice", price: 0.9 }, { type: "reset" }] },
+      "inline",
+    )
+
+    const result = await runScenario(scenario, environment)
+
+    expect(result.passed).to.be.true
+    expect(result.steps[1].message).to.contain("Price restored to $1.05")
+    expect((await chainlinkOracle.latestRoundData()).answer).to.equal(105000000)
+  })
+
+  it("Should reject malformed scenario JSON", () => {
+    expect(() => parseScenarioJson("{", "broken.json")).to.throw("not valid JSON")
+    expect(() =>
+      parseScenarioJson(JSON.stringify({ name: "Bad", steps: [{ type: "setPrice" }] }), "bad.json"),
+    ).to.throw("steps.0.price")
+  })
+})
@@ -0,0 +1,86 @@
+import { expect } from "chai"
+import hre from "hardhat"
+import { createRandom, defaultModels, runMonteCarlo } from "../lib/monte-carlo"
+import { replayPriceSeries, summarizeReplay } from "../lib/policy-replay"
+import {
+  calculateDeviation,
+  calculateSupplyDelta,
+  defaultPolicy,
+  getStabilityBand,
+  simulateRebase,
+} from "../lib/stabilization-policy"
+import { createTimeTravel } from "../lib/time-travel"
+import { deployLocalProtocol } from "../scripts/lib/local-protocol"
+
+describe("Stabilization policy", () => {
+  // Oracle answers (8 decimals) around every band edge, plus seeded random prices between $0.50 and $1.50
+  const random = createRandom(42)
+  const edges = [1, 5, 10, 20].flatMap((percent) =>
+    [-1, 0, 1].flatMap((offset) => [100000000 + percent * 1000000 + offset, 100000000 - percent * 1000000 + offset]),
+  )
+  const answers = [100000000, 1, 99999999, 100000001, ...edges]
+  for (let i = 0; i < 40; i++) answers.push(50000000 + Math.floor(random.uniform() * 100000000))
+
+  it("Should match the controller's band and supply delta at every price", async () => {
+    const { chainlinkOracle, ecashToken, stabilizationController } = await deployLocalProtocol(hre)
+    const supply = await ecashToken.totalSupply()
+
+    for (const answer of answers) {
+      await chainlinkOracle.updateAnswer(answer)
+      const [, price, deviation, projectedSupplyDelta, stabilityBand] = await stabilizationController.previewRebase()
+
+      expect(calculateDeviation(price), `deviation at ${answer}`).to.equal(deviation)
+      expect(getStabilityBand(deviation), `band at ${answer}`).to.equal(Number(stabilityBand))
+      expect(calculateSupplyDelta(price, Number(stabilityBand), supply), `delta at ${answer}`).to.equal(
+        projectedSupplyDelta,
+      )
+    }
+  })
+
+  it("Should match the supply after consecutive rebases", async () => {
+    const { chainlinkOracle, ecashToken, stabilizationController } = await deployLocalProtocol(hre)
+    const timeTravel = createTimeTravel(hre.ethers.provider)
+    const cooldown = Number(await stabilizationController.rebaseCooldown())
+    let expectedSupply = await ecashToken.totalSupply()
+
+    for (const answer of [103000000, 91234567, 108765432, 96000001, 119999999]) {
+      await timeTravel.increaseTime(cooldown)
+      await chainlinkOracle.updateAnswer(answer)
+      await stabilizationController.rebase()
+
+      expectedSupply = simulateRebase(BigInt(answer) * BigInt(1e10), expectedSupply).newSupply
+      expect(await ecashToken.totalSupply(), `supply after ${answer}`).to.equal(expectedSupply)
+    }
+  })
+
+  it("Should trip the breaker where the controller does", async () => {
+    const { chainlinkOracle, stabilizationController } = await deployLocalProtocol(hre)
+
+    await chainlinkOracle.updateAnswer(80000000) // $0.80, exactly 20% below target
+    await stabilizationController.rebase()
+
+    expect(simulateRebase(BigInt(80000000) * BigInt(1e10), BigInt(1)).circuitBreaker).to.be.true
+    expect(await stabilizationController.circuitBreakerActive()).to.be.true
+  })
+
+  it("Should produce the same report for the same seed", () => {
+    const config = { model: defaultModels.jumpDiffusion, paths: 20, horizonHours: 7 * 24, seed: 7 }
+    const report = runMonteCarlo(config)
+
+    expect(runMonteCarlo(config)).to.deep.equal(report)
+    expect(runMonteCarlo({ ...config, seed: 8 })).to.not.deep.equal(report)
+    expect(report.bandShare.reduce((sum, share) => sum + share, 0)).to.be.closeTo(1, 1e-9)
+  })
+
+  it("Should replay a series under tuned parameters", () => {
+    // $1.03 every 12 hours, then a 25% crash
+    const series = [1.03, 1.03, 1.03, 1.03, 0.75].map((price, i) => ({ timestamp: i * 12 * 3600, price }))
+    const deployed = summarizeReplay(replayPriceSeries(series, defaultPolicy))
+    const slower = summarizeReplay(replayPriceSeries(series, { ...defaultPolicy, rebaseCooldown: 24 * 3600 }))
+
+    expect(deployed.rebases).to.equal(4)
+    expect(slower.rebases).to.equal(2)
+    expect(deployed.breakerTrips).to.equal(1)
+    expect(deployed.finalSupply).to.be.greaterThan(slower.finalSupply)
+  })
+})
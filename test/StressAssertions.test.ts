@@ -0,0 +1,79 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { connectProtocolContracts } from "../lib/contracts"
+import { deployProtocol } from "../lib/deployment"
+import { checkPostConditions, runHelperTest, type HelperTestName } from "../lib/stress-assertions"
+import { runIsolated, type ProtocolStateSnapshot, type ResetReport } from "../lib/test-isolation"
+import { createTimeTravel } from "../lib/time-travel"
+
+describe("Stress test post-conditions", () => {
+  const state: ProtocolStateSnapshot = {
+    blockNumber: 10,
+    oracleAnswer: "1.0",
+    aggregatedPrice: "1.0",
+    oracleConfidence: 100,
+    minOracleConfidence: 50,
+    totalSupply: "1000000.0",
+    stabilityBand: 0,
+    circuitBreakerActive: false,
+    paused: false,
+    canRebase: true,
+    lastRebaseTime: 0,
+    rebaseCount: 0,
+  }
+  const reset: ResetReport = { actions: [], warnings: [], cooldownRemaining: 0 }
+  const executed = (success: boolean) => ({ testName: "", success, result: "" })
+
+  it("Should pass a normal rebase that expanded supply in band 1", () => {
+    const after = { ...state, totalSupply: "1002000.0", stabilityBand: 1, rebaseCount: 1, oracleAnswer: "1.02" }
+    const conditions = checkPostConditions("Normal Rebase", executed(true), { before: state, after, reset })
+
+    expect(conditions.every((condition) => condition.passed)).to.be.true
+  })
+
+  it("Should report expected and actual values when the breaker did not trip", () => {
+    const after = { ...state, stabilityBand: 4 }
+    const conditions = checkPostConditions("Circuit Breaker", executed(false), { before: state, after, reset })
+    const failed = conditions.filter((condition) => !condition.passed)
+
+    expect(failed.map((condition) => condition.label)).to.deep.equal(["TestExecuted success", "Circuit breaker"])
+    expect(failed[1]).to.include({ expected: "true", actual: "false" })
+  })
+
+  it("Should expect a refused rebase while the cooldown is running", () => {
+    const cooldown = { ...reset, cooldownRemaining: 3600 }
+    const conditions = checkPostConditions("Normal Rebase", executed(false), {
+      before: state,
+      after: state,
+      reset: cooldown,
+    })
+
+    expect(conditions.every((condition) => condition.passed)).to.be.true
+  })
+
+  it("Should fail when TestExecuted is missing", () => {
+    const [reported] = checkPostConditions("Oracle Failure", null, { before: state, after: state, reset })
+
+    expect(reported).to.include({ passed: false, actual: "not emitted" })
+  })
+})
+
+describe("Stress tests against a deployed protocol", () => {
+  const helperTests: HelperTestName[] = ["Normal Rebase", "Circuit Breaker", "Oracle Failure"]
+
+  it("Should pass every TestHelper test the way the stress test suite runs them", async () => {
+    const [deployer] = await ethers.getSigners()
+    const { addresses } = await deployProtocol(deployer)
+    const contracts = connectProtocolContracts({ ...addresses }, deployer)
+    const timeTravel = createTimeTravel(ethers.provider)
+
+    for (const testName of helperTests) {
+      const run = await runIsolated(contracts, timeTravel, () => runHelperTest(contracts.testHelper, testName))
+
+      expect(run.error, testName).to.be.undefined
+      expect(run.value!.execution, testName).to.include({ testName, success: true })
+      const failed = checkPostConditions(testName, run.value!.execution, run).filter((condition) => !condition.passed)
+      expect(failed, testName).to.be.empty
+    }
+  })
+})
@@ -0,0 +1,94 @@
+import { expect } from "chai"
+import hre, { ethers } from "hardhat"
+import { oracleFailureModes } from "../lib/scenario"
+import { checkPostConditions, decodeTestExecuted } from "../lib/stress-assertions"
+import { captureProtocolState, resetProtocol, runIsolated } from "../lib/test-isolation"
+import { createTimeTravel } from "../lib/time-travel"
+import { deployLocalProtocol } from "../scripts/lib/local-protocol"
+
+describe("Test isolation", () => {
+  const timeTravel = createTimeTravel(ethers.provider)
+
+  it("Should record a test's changes and revert them from a snapshot", async () => {
+    const contracts = await deployLocalProtocol(hre)
+
+    const run = await runIsolated(contracts, timeTravel, async () => {
+      await (await contracts.testHelper.testCircuitBreaker()).wait()
+    })
+
+    expect(run.isolation).to.equal("snapshot")
+    expect(run.error).to.be.undefined
+    expect(run.before.circuitBreakerActive).to.be.false
+    expect(run.after.circuitBreakerActive).to.be.true
+    expect(run.diff.map((change) => change.field)).to.include.members(["circuitBreakerActive", "oracleAnswer"])
+    expect(await contracts.stabilizationController.circuitBreakerActive()).to.be.false
+  })
+
+  it("Should capture a failing test's error", async () => {
+    const contracts = await deployLocalProtocol(hre)
+
+    const run = await runIsolated(contracts, timeTravel, async () => {
+      throw new Error("boom")
+    })
+
+    expect(run.error?.message).to.equal("boom")
+    expect(run.diff).to.be.empty
+  })
+
+  it("Should restore price and pause state and report the cooldown without time travel", async () => {
+    const contracts = await deployLocalProtocol(hre)
+    await (await contracts.testHelper.testNormalRebase()).wait()
+    await (await contracts.stabilizationController.emergencyPause()).wait()
+
+    const report = await resetProtocol(contracts)
+    const state = await captureProtocolState(contracts)
+
+    expect(state.oracleAnswer).to.equal("1.0")
+    expect(state.paused).to.be.false
+    expect(report.cooldownRemaining).to.be.greaterThan(0)
+    expect(report.warnings.join()).to.contain("cooldown")
+  })
+
+  it("Should clear an oracle failure mode before reading the feed", async () => {
+    const contracts = await deployLocalProtocol(hre)
+    await (await contracts.chainlinkOracle.setFailureMode(oracleFailureModes.indexOf("revert"))).wait()
+
+    const report = await resetProtocol(contracts)
+
+    expect(report.actions).to.include("Clear the oracle failure mode")
+    expect(await contracts.chainlinkOracle.failureMode()).to.equal(0)
+    expect((await captureProtocolState(contracts)).aggregatedPrice).to.equal("1.0")
+  })
+
+  it("Should record the state after a test that leaves the oracle failing", async () => {
+    const contracts = await deployLocalProtocol(hre)
+
+    for (const mode of ["revert", "gasGriefing"] as const) {
+      const run = await runIsolated(contracts, timeTravel, async () => {
+        await (await contracts.chainlinkOracle.setFailureMode(oracleFailureModes.indexOf(mode))).wait()
+      })
+
+      expect(run.error, mode).to.be.undefined
+      expect(run.after.oracleAnswer, mode).to.equal("1.0")
+      expect(run.after.aggregatedPrice, mode).to.equal("0.0")
+      expect(await contracts.chainlinkOracle.failureMode()).to.equal(0)
+    }
+  })
+
+  it("Should pass the oracle failure stress test in every failure mode", async () => {
+    const contracts = await deployLocalProtocol(hre)
+
+    const run = await runIsolated(contracts, timeTravel, async () =>
+      (await (await contracts.testHelper.testOracleFailure()).wait())!,
+    )
+    const execution = decodeTestExecuted(contracts.testHelper, run.value!)
+
+    expect(execution).to.deep.equal({
+      testName: "Oracle Failure",
+      success: true,
+      result: "Failing feed rejected in every failure mode",
+    })
+    const conditions = checkPostConditions("Oracle Failure", execution, run)
+    expect(conditions.filter((condition) => !condition.passed)).to.be.empty
+  })
+})
@@ -0,0 +1,46 @@
+import { expect } from "chai"
+import hre, { ethers } from "hardhat"
+import { createTimeTravel } from "../lib/time-travel"
+import { deployLocalProtocol } from "../scripts/lib/local-protocol"
+
+describe("Time travel", () => {
+  const timeTravel = createTimeTravel(ethers.provider)
+
+  it("Should let consecutive rebases past the cooldown", async () => {
+    const { chainlinkOracle, stabilizationController } = await deployLocalProtocol(hre)
+    const cooldown = Number(await stabilizationController.rebaseCooldown())
+
+    await chainlinkOracle.updateAnswer(102000000) // $1.02
+    await stabilizationController.rebase()
+    expect(await stabilizationController.canRebase()).to.be.false
+
+    const before = await timeTravel.getTimestamp()
+    expect(await timeTravel.increaseTime(cooldown)).to.be.at.least(before + cooldown)
+    expect(await stabilizationController.canRebase()).to.be.true
+
+    await chainlinkOracle.updateAnswer(98000000) // $0.98
+    await stabilizationController.rebase()
+    expect(await stabilizationController.rebaseCount()).to.equal(2)
+  })
+
+  it("Should revert to a snapshot once", async () => {
+    const { chainlinkOracle, stabilizationController } = await deployLocalProtocol(hre)
+    const snapshotId = await timeTravel.snapshot()
+    const blockNumber = await ethers.provider.getBlockNumber()
+
+    await chainlinkOracle.updateAnswer(102000000)
+    await stabilizationController.rebase()
+    await timeTravel.mine(3)
+
+    await timeTravel.revert(snapshotId)
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber)
+    expect(await stabilizationController.rebaseCount()).to.equal(0)
+    const error = await timeTravel.revert(snapshotId).then(() => null, (error: Error) => error)
+    expect(error?.message).to.include("no longer exists")
+  })
+
+  it("Should refuse to move time backwards", async () => {
+    const error = await timeTravel.increaseTime(0).then(() => null, (error: Error) => error)
+    expect(error?.message).to.include("positive whole number")
+  })
+})
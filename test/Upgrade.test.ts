@@ -0,0 +1,121 @@
+import { expect } from "chai"
+import hre, { ethers, upgrades } from "hardhat"
+import { createManifest, type DeploymentManifest } from "../lib/manifest"
+import { deployLocalProtocol } from "../scripts/lib/local-protocol"
+import { captureInvariants, checkInvariants, resolveUpgradeTargets, upgradeTarget } from "../scripts/lib/upgrade"
+
+describe("Proxy upgrades", () => {
+  let manifest: DeploymentManifest
+
+  const recordProxy = async (name: string, contract: string, address: string) => {
+    manifest.steps[name] = {
+      contract,
+      address,
+      txHash: ethers.ZeroHash,
+      gasUsed: "0",
+      args: [],
+      completedAt: new Date().toISOString(),
+    }
+    manifest.contracts[name] = address
+    manifest.proxies[name] = {
+      address,
+      implementation: await upgrades.erc1967.getImplementationAddress(address),
+      admin: await upgrades.erc1967.getAdminAddress(address),
+    }
+  }
+
+  beforeEach(async () => {
+    const [owner] = await ethers.getSigners()
+    const contracts = await deployLocalProtocol(hre)
+    manifest = createManifest("hardhat", 31337, owner.address)
+
+    await recordProxy("ecashToken", "ECashToken", await contracts.ecashToken.getAddress())
+    await recordProxy("oracleAggregator", "OracleAggregator", await contracts.oracleAggregator.getAddress())
+    await recordProxy("treasury", "Treasury", await contracts.stabilizationController.treasury())
+    await recordProxy(
+      "stabilizationController",
+      "StabilizationController",
+      await contracts.stabilizationController.getAddress(),
+    )
+    manifest.roles.push({
+      contract: "ecashToken",
+      role: "REBASER_ROLE",
+      account: manifest.contracts.stabilizationController,
+      txHash: ethers.ZeroHash,
+    })
+
+    // Some state for the upgrade to preserve
+    await (await contracts.chainlinkOracle.updateAnswer(102000000)).wait() // $1.02
+    await (await contracts.stabilizationController.rebase()).wait()
+  })
+
+  it("Should upgrade a proxy, keep its storage and record the upgrade in the manifest", async () => {
+    const [target] = resolveUpgradeTargets(manifest, "stabilizationController")
+    const previousImplementation = manifest.proxies.stabilizationController.implementation
+    const before = await captureInvariants(manifest)
+    expect(before.controllerRebaseCount).to.equal("1")
+
+    // A fresh implementation, so the proxy really moves to a new address
+    const { implementation, receipt } = await upgradeTarget(manifest, target, previousImplementation, {
+      redeployImplementation: "always",
+    })
+
+    expect(implementation).to.not.equal(previousImplementation)
+    expect(await upgrades.erc1967.getImplementationAddress(target.proxy)).to.equal(implementation)
+    expect(checkInvariants(manifest, await captureInvariants(manifest), before)).to.deep.equal([])
+
+    const controller = await ethers.getContractAt("StabilizationController", target.proxy)
+    expect(await controller.rebaseCount()).to.equal(1)
+    expect(await controller.ecashToken()).to.equal(manifest.contracts.ecashToken)
+
+    expect(receipt).to.not.be.null
+    expect(receipt!.status).to.equal(1)
+    const record = manifest.proxies.stabilizationController
+    expect(record.implementation).to.equal(implementation)
+    expect(record.history).to.have.length(1)
+    expect(record.history![0]).to.include({
+      contract: "StabilizationController",
+      previousImplementation,
+      implementation,
+      status: "upgraded",
+      txHash: receipt!.hash,
+    })
+  })
+  it("Should load the policy parameters when upgrading a controller from before they were stored", async () => {
+    const [owner] = await ethers.getSigners()
+    const StabilizationControllerV1 = await ethers.getContractFactory("StabilizationControllerV1")
+    const legacy = await upgrades.deployProxy(
+      StabilizationControllerV1,
+      [owner.address, manifest.contracts.ecashToken, manifest.contracts.oracleAggregator, manifest.contracts.treasury],
+      { initializer: "initialize" },
+    )
+    await recordProxy("stabilizationController", "StabilizationControllerV1", await legacy.getAddress())
+    const ecashToken = await ethers.getContractAt("ECashToken", manifest.contracts.ecashToken)
+    await (await ecashToken.grantRole(await ecashToken.REBASER_ROLE(), await legacy.getAddress())).wait()
+
+    const [target] = resolveUpgradeTargets(manifest, "stabilizationController=StabilizationController")
+    const before = await captureInvariants(manifest)
+    expect(before.controllerTargetPrice).to.be.null
+
+    await upgradeTarget(manifest, target, manifest.proxies.stabilizationController.implementation)
+
+    const after = await captureInvariants(manifest)
+    expect(after.controllerTargetPrice).to.equal(ethers.parseEther("1").toString())
+    expect(checkInvariants(manifest, after, before)).to.deep.equal([])
+    expect(checkInvariants(manifest, { ...after, controllerTargetPrice: "0" })).to.deep.equal([
+      "stabilizationController: targetPrice is 0, the policy parameters were never initialized",
+    ])
+
+    const controller = await ethers.getContractAt("StabilizationController", target.proxy)
+    expect(await controller.TARGET_PRICE()).to.equal(ethers.parseEther("1"))
+    expect(await controller.BAND_4_THRESHOLD()).to.equal(ethers.parseUnits("20", 16))
+    await expect(controller.initializePolicyParameters()).to.be.revertedWith(
+      "Initializable: contract is already initialized",
+    )
+
+    // The price is still $1.02 from beforeEach
+    expect((await controller.previewRebase()).stabilityBand).to.equal(1)
+    await (await controller.rebase()).wait()
+    expect(await controller.rebaseCount()).to.equal(1)
+  })
+})
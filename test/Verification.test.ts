@@ -0,0 +1,115 @@
+import { expect } from "chai"
+import { ethers, upgrades } from "hardhat"
+import { createManifest, type DeploymentManifest } from "../lib/manifest"
+import { resolveVerificationTargets, verifyTargets } from "../scripts/lib/verification"
+import { startMockEtherscan, type MockEtherscan } from "./helpers/mockEtherscan"
+
+describe("Contract Verification", () => {
+  let etherscan: MockEtherscan
+  let manifest: DeploymentManifest
+
+  const recordStep = (name: string, contract: string, address: string, args: unknown[]) => {
+    manifest.steps[name] = {
+      contract,
+      address,
+      txHash: ethers.ZeroHash,
+      gasUsed: "0",
+      args,
+      completedAt: new Date().toISOString(),
+    }
+    manifest.contracts[name] = address
+  }
+
+  const recordProxy = async (name: string, contract: string, address: string) => {
+    recordStep(name, contract, address, [])
+    manifest.proxies[name] = {
+      address,
+      implementation: await upgrades.erc1967.getImplementationAddress(address),
+      admin: await upgrades.erc1967.getAdminAddress(address),
+    }
+  }
+
+  beforeEach(async () => {
+    const [owner] = await ethers.getSigners()
+    etherscan = await startMockEtherscan()
+    manifest = createManifest("hardhat", 31337, owner.address)
+
+    const MockChainlinkOracle = await ethers.getContractFactory("MockChainlinkOracle")
+    const chainlinkOracle = await MockChainlinkOracle.deploy(8, "ETH/USD")
+    recordStep("chainlinkOracle", "MockChainlinkOracle", await chainlinkOracle.getAddress(), [8, "ETH/USD"])
+
+    const ECashToken = await ethers.getContractFactory("ECashToken")
+    const ecashToken = await upgrades.deployProxy(ECashToken, ["E-Cash", "ECASH", owner.address], {
+      initializer: "initialize",
+    })
+    await recordProxy("ecashToken", "ECashToken", await ecashToken.getAddress())
+
+    const OracleAggregator = await ethers.getContractFactory("OracleAggregator")
+    const oracleAggregator = await upgrades.deployProxy(OracleAggregator, [owner.address], {
+      initializer: "initialize",
+    })
+    await recordProxy("oracleAggregator", "OracleAggregator", await oracleAggregator.getAddress())
+  })
+
+  afterEach(async () => {
+    await etherscan.close()
+  })
+
+  it("Should resolve implementation and admin for every proxy", async () => {
+    const targets = await resolveVerificationTargets(manifest)
+
+    expect(targets.map((target) => target.name)).to.deep.equal([
+      "MockChainlinkOracle",
+      "ECashToken implementation",
+      "ECashToken proxy",
+      "OracleAggregator implementation",
+      "OracleAggregator proxy",
+    ])
+
+    const tokenProxy = targets.find((target) => target.name === "ECashToken proxy")!
+    expect(tokenProxy.implementation).to.equal(manifest.proxies.ecashToken.implementation)
+    expect(tokenProxy.admin).to.equal(manifest.proxies.ecashToken.admin)
+  })
+
+  it("Should report verified, already verified and failed contracts", async () => {
+    const targets = await resolveVerificationTargets(manifest)
+    const aggregatorImplementation = manifest.proxies.oracleAggregator.implementation
+
+    etherscan.verified.add(manifest.contracts.chainlinkOracle.toLowerCase())
+    etherscan.failing.add(aggregatorImplementation.toLowerCase())
+
+    const results = await verifyTargets(targets, { apiUrl: etherscan.url, apiKey: "test", pollIntervalMs: 1 })
+    const statuses = Object.fromEntries(results.map((result) => [result.name, result.status]))
+
+    expect(statuses).to.deep.equal({
+      MockChainlinkOracle: "already-verified",
+      "ECashToken implementation": "verified",
+      "ECashToken proxy": "verified",
+      "OracleAggregator implementation": "failed",
+      "OracleAggregator proxy": "failed",
+    })
+    expect(results.find((result) => result.name === "OracleAggregator implementation")!.reason).to.equal(
+      "Fail - Unable to verify",
+    )
+    expect(results.find((result) => result.name === "OracleAggregator proxy")!.reason).to.match(/not verified/)
+
+    // Only the verified implementation's proxy is linked
+    expect(etherscan.proxies.get(manifest.contracts.ecashToken.toLowerCase())).to.equal(
+      manifest.proxies.ecashToken.implementation.toLowerCase(),
+    )
+    expect(etherscan.proxies.has(manifest.contracts.oracleAggregator.toLowerCase())).to.be.false
+  })
+
+  it("Should submit standard JSON input with the fully qualified contract name", async () => {
+    const targets = await resolveVerificationTargets(manifest)
+    await verifyTargets(targets, { apiUrl: etherscan.url, apiKey: "test", pollIntervalMs: 1 })
+
+    const submission = etherscan.requests.find(
+      (request) => request.action === "verifysourcecode" && request.contractname?.endsWith(":MockChainlinkOracle"),
+    )!
+    expect(submission.contractname).to.equal("contracts/MockChainlinkOracle.sol:MockChainlinkOracle")
+    expect(submission.codeformat).to.equal("solidity-standard-json-input")
+    expect(submission.compilerversion).to.match(/^v0\.8\.19\+commit\./)
+    expect(JSON.parse(submission.sourceCode).language).to.equal("Solidity")
+  })
+})
@@ -0,0 +1,84 @@
+import http from "http"
+import type { AddressInfo } from "net"
+
+// Local stand-in for the Etherscan verification API used by scripts/lib/etherscan.ts
+export interface MockEtherscan {
+  url: string
+  verified: Set<string>
+  failing: Set<string>
+  proxies: Map<string, string>
+  requests: Record<string, string>[]
+  close: () => Promise<void>
+}
+
+export async function startMockEtherscan(): Promise<MockEtherscan> {
+  const verified = new Set<string>()
+  const failing = new Set<string>()
+  const proxies = new Map<string, string>()
+  const requests: Record<string, string>[] = []
+  // Every job reports "Pending in queue" once before its verdict, so clients have to poll
+  const jobs = new Map<string, { polled: boolean; verdict: { status: string; result: string } }>()
+
+  const queue = (verdict: { status: string; result: string }) => {
+    const guid = `guid-${jobs.size + 1}`
+    jobs.set(guid, { polled: false, verdict })
+    return { status: "1", message: "OK", result: guid }
+  }
+
+  const handle = (params: Record<string, string>) => {
+    requests.push(params)
+    const address = (params.address || params.contractaddress || "").toLowerCase()
+
+    switch (params.action) {
+      case "getsourcecode":
+        return { status: "1", message: "OK", result: [{ SourceCode: verified.has(address) ? "// source" : "" }] }
+      case "verifysourcecode":
+        if (verified.has(address)) {
+          return { status: "0", message: "NOTOK", result: "Contract source code already verified" }
+        }
+        if (failing.has(address)) {
+          return queue({ status: "0", result: "Fail - Unable to verify" })
+        }
+        verified.add(address)
+        return queue({ status: "1", result: "Pass - Verified" })
+      case "verifyproxycontract":
+        proxies.set(address, (params.expectedimplementation || "").toLowerCase())
+        return queue({ status: "1", result: `The proxy's (${address}) implementation contract is found` })
+      case "checkverifystatus":
+      case "checkproxyverification": {
+        const job = jobs.get(params.guid)
+        if (!job) return { status: "0", message: "NOTOK", result: "Unknown GUID" }
+        if (!job.polled) {
+          job.polled = true
+          return { status: "0", message: "NOTOK", result: "Pending in queue" }
+        }
+        return { ...job.verdict, message: job.verdict.status === "1" ? "OK" : "NOTOK" }
+      }
+      default:
+        return { status: "0", message: "NOTOK", result: `Unsupported action ${params.action}` }
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    let body = ""
+    req.on("data", (chunk) => (body += chunk))
+    req.on("end", () => {
+      const query = new URL(req.url || "/", "http://localhost").searchParams
+      const params = Object.fromEntries([...query.entries(), ...new URLSearchParams(body).entries()])
+      res.setHeader("Content-Type", "application/json")
+      res.end(JSON.stringify(handle(params)))
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}/api`,
+    verified,
+    failing,
+    proxies,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  }
+}
@@ -0,0 +1,47 @@
+import http from "http"
+import type { AddressInfo } from "net"
+
+// Local stand-in for an alert webhook receiver, recording every JSON body posted to it
+export interface MockWebhook {
+  url: string
+  received: unknown[]
+  // Answer the next requests with this status instead of 204
+  failWith: number | null
+  close: () => Promise<void>
+}
+
+export async function startMockWebhook(): Promise<MockWebhook> {
+  const webhook: Omit<MockWebhook, "url" | "close"> = { received: [], failWith: null }
+
+  const server = http.createServer((req, res) => {
+    // Same headers a receiver needs to accept posts from the dashboard
+    res.setHeader("Access-Control-Allow-Origin", "*")
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type")
+    if (req.method === "OPTIONS") {
+      res.statusCode = 204
+      res.end()
+      return
+    }
+
+    let body = ""
+    req.on("data", (chunk) => (body += chunk))
+    req.on("end", () => {
+      if (webhook.failWith) {
+        res.statusCode = webhook.failWith
+        res.end()
+        return
+      }
+      webhook.received.push(JSON.parse(body))
+      res.statusCode = 204
+      res.end()
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const { port } = server.address() as AddressInfo
+
+  return Object.assign(webhook, {
+    url: `http://127.0.0.1:${port}/hooks/alerts`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  })
+}
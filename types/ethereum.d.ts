@@ -0,0 +1,13 @@
+// Injected wallet provider (MetaMask and other EIP-1193 wallets)
+import type { Eip1193Provider } from "ethers"
+
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider & {
+      on?: (event: string, listener: (...args: any[]) => void) => void
+      removeListener?: (event: string, listener: (...args: any[]) => void) => void
+    }
+  }
+}
+
+export {}